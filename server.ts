@@ -2,673 +2,2087 @@
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import * as http from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
 import * as z from 'zod/v4';
 import { BrainMCP } from './src/brain-mcp.js';
+import { BrainSession } from './src/session.js';
+import { resolveOptions, USAGE, TransferOptions, KeyRotationOptions } from './src/cli.js';
+import { loadCipher } from './src/encryption.js';
+import { isDirectoryFormat } from './src/interchange.js';
+import { DEFAULT_SPACE, HTTP_LIMITS } from './src/config.js';
 
 // ============================================================================
 // Initialize Brain-MCP
 // ============================================================================
 
-const brainMCP = new BrainMCP({
-    storagePath: process.env.BRAIN_MCP_STORAGE_PATH || './memory_data',
-    shortTermCapacity: 100,
-    autoSaveInterval: process.env.BRAIN_MCP_AUTO_SAVE_INTERVAL ? parseInt(process.env.BRAIN_MCP_AUTO_SAVE_INTERVAL) : 5 * 60 * 1000, // 5 minutes
-    searchLimit: 10,
-    enableBackup: true,
-});
+const optionsResult = await resolveOptions();
+if (!optionsResult.success) {
+    console.error(optionsResult.error);
+    process.exit(1);
+}
+const options = optionsResult.data;
+
+if (options.help) {
+    console.log(USAGE);
+    process.exit(0);
+}
+
+if (options.printConfig) {
+    const { authToken, ...server } = options.server;
+    const config = { ...options.config, encryptionKey: options.config.encryptionKey ? '***' : undefined };
+    console.log(JSON.stringify({ ...config, server: { ...server, authToken: authToken ? '***' : undefined } }, null, 2));
+    process.exit(0);
+}
+
+const brainMCP = new BrainMCP(options.config);
 
 // Initialize the memory system
-await brainMCP.init();
-console.log('Brain-MCP initialized successfully');
+const initResult = await brainMCP.init();
+if (!initResult.success) {
+    console.error(initResult.error);
+    process.exit(1);
+}
+console.error('Brain-MCP initialized successfully');
+
+// Export/import and key rotation subcommands run once against the stored memory and exit
+if (options.command !== 'serve') {
+    const exitCode =
+        options.command === 'rotate-key'
+            ? await runKeyRotation(options.rotation!)
+            : await runTransfer(options.command, options.transfer!);
+    await brainMCP.shutdown();
+    process.exit(exitCode);
+}
 
 // ============================================================================
 // Create MCP Server
+// Each connection gets its own server and session (active memory space)
 // ============================================================================
 
-const server = new McpServer({
-    name: 'brain-mcp',
-    version: '1.0.0'
-});
+function createServer(): McpServer {
+    const session = new BrainSession(brainMCP);
 
-// ============================================================================
-// Short-Term Memory Tools
-// ============================================================================
+    const server = new McpServer({
+        name: 'brain-mcp',
+        version: '1.0.0'
+    });
 
-server.registerTool(
-    'addShortTermMemory',
-    {
-        title: 'Add Short-Term Memory',
-        description: 'Add a temporary memory to the short-term cache (FIFO, limited capacity)',
-        inputSchema: {
-            text: z.string().describe('The memory text to store')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            error: z.string().optional()
-        }
-    },
-    async ({ text }) => {
-        const result = brainMCP.addShortTermMemory(text);
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
-    }
-);
-
-server.registerTool(
-    'getShortTermMemory',
-    {
-        title: 'Get Short-Term Memory',
-        description: 'Retrieve all short-term memories (newest first)',
-        inputSchema: {},
-        outputSchema: {
-            success: z.boolean(),
-            data: z.array(z.object({
-                text: z.string(),
-                timestamp: z.number()
-            })).optional(),
-            error: z.string().optional()
-        }
-    },
-    async () => {
-        const result = brainMCP.getShortTermMemory();
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
-    }
-);
-
-server.registerTool(
-    'clearShortTermMemory',
-    {
-        title: 'Clear Short-Term Memory',
-        description: 'Clear all short-term memories',
-        inputSchema: {},
-        outputSchema: {
-            success: z.boolean(),
-            error: z.string().optional()
-        }
-    },
-    async () => {
-        const result = brainMCP.clearShortTermMemory();
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
-    }
-);
+    // Every memory tool accepts an optional target space
+    const spaceSchema = z.string().optional().describe('Memory space to operate on (default: the active space, see useMemorySpace)');
+
+    // Changes to memory content can name who made them; the name is kept in the revision history
+    const authorSchema = z.string().optional().describe('Who makes the change (e.g. agent or session name), recorded in the memory history');
+
+    // ============================================================================
+    // Short-Term Memory Tools
+    // ============================================================================
+
+    server.registerTool(
+        'addShortTermMemory',
+        {
+            title: 'Add Short-Term Memory',
+            description: 'Add a temporary memory to the short-term cache (FIFO, limited capacity, optional expiry)',
+            inputSchema: {
+                text: z.string().describe('The memory text to store'),
+                ttl: z.number().min(0).optional().describe('Time-to-live in milliseconds (0 = never expire, default: server setting)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                error: z.string().optional()
+            }
+        },
+        async ({ text, ttl, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.addShortTermMemory(text, ttl));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getShortTermMemory',
+        {
+            title: 'Get Short-Term Memory',
+            description: 'Retrieve all short-term memories (newest first)',
+            inputSchema: {
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.array(z.object({
+                    text: z.string(),
+                    timestamp: z.number(),
+                    expiresAt: z.number().optional()
+                })).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ space }) => {
+            const result = await session.inSpace(space, (memory) => memory.getShortTermMemory());
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'clearShortTermMemory',
+        {
+            title: 'Clear Short-Term Memory',
+            description: 'Clear all short-term memories',
+            inputSchema: {
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                error: z.string().optional()
+            }
+        },
+        async ({ space }) => {
+            const result = await session.inSpace(space, (memory) => memory.clearShortTermMemory());
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'consolidateShortTermMemory',
+        {
+            title: 'Consolidate Short-Term Memory',
+            description: 'Promote short-term memories into long-term memory, deduplicating against existing nodes',
+            inputSchema: {
+                indices: z.array(z.number().int().min(0)).optional().describe('Indices from getShortTermMemory (newest first) to promote; default: all'),
+                minOccurrences: z.number().int().min(1).optional().describe('Only promote entries seen at least this many times (default: 1)'),
+                linkTogether: z.boolean().optional().describe('Associate the promoted memories with each other (default: false)'),
+                removeFromBuffer: z.boolean().optional().describe('Remove promoted entries from short-term memory (default: false)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    consolidated: z.array(z.object({
+                        id: z.string(),
+                        text: z.string(),
+                        timestamps: z.array(z.number()),
+                        existing: z.boolean()
+                    })),
+                    created: z.number(),
+                    deduplicated: z.number()
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ indices, minOccurrences, linkTogether, removeFromBuffer, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.consolidateShortTermMemory({ indices, minOccurrences, linkTogether, removeFromBuffer }));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    // ============================================================================
+    // Long-Term Memory Tools
+    // ============================================================================
+
+    const propertyValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+    const memoryFilterSchema = {
+        tags: z.array(z.string()).optional().describe('Only memories carrying these tags'),
+        tagMode: z.enum(['all', 'any']).optional().describe('Require all tags or any of them (default: all)'),
+        properties: z.record(z.string(), propertyValueSchema).optional().describe('Only memories whose properties equal these values'),
+        includeArchived: z.boolean().optional().describe('Include memories archived by forgetting (default: false)'),
+        includeSuperseded: z.boolean().optional().describe('Include memories replaced by a newer one through a supersedes link (default: false)'),
+        from: z.string().optional().describe('Only memories from this date or ISO 8601 time on (UTC)'),
+        to: z.string().optional().describe('Only memories before this ISO 8601 time; a plain date (YYYY-MM-DD) includes that whole day'),
+        timeField: z.enum(['occurredAt', 'createdAt', 'lastAccessed']).optional().describe('Time that from/to apply to; occurredAt falls back to createdAt (default: occurredAt)')
+    };
+
+    const sortFieldSchema = z.enum(['createdAt', 'lastAccessed', 'occurredAt', 'accessCount', 'text']);
+
+    server.registerTool(
+        'addLongTermMemory',
+        {
+            title: 'Add Long-Term Memory',
+            description: 'Create a new persistent memory node with optional associations to other nodes. Near-duplicate memories already stored are returned in details.duplicates',
+            inputSchema: {
+                text: z.string().describe('The memory text to store'),
+                associations: z.array(z.string()).optional().describe('Array of associated memory node IDs'),
+                tags: z.array(z.string()).optional().describe('Tags such as project, user or topic names'),
+                properties: z.record(z.string(), propertyValueSchema).optional().describe('Free-form key/value metadata'),
+                rejectDuplicate: z.boolean().optional().describe('Do not add the memory if a near-duplicate exists (default: false)'),
+                occurredAt: z.string().optional().describe('When the remembered event happened (date or ISO 8601 time), if not now'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.string().optional().describe('The new memory node ID'),
+                error: z.string().optional(),
+                details: z.any().optional().describe('Near-duplicate memories ({ duplicates }) already stored')
+            }
+        },
+        async ({ text, associations, tags, properties, rejectDuplicate, occurredAt, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.addLongTermMemory(text, associations || [], { tags, properties, rejectDuplicate, occurredAt }));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getLongTermMemory',
+        {
+            title: 'Get Long-Term Memory',
+            description: 'Retrieve a memory node by ID with its associations up to specified depth',
+            inputSchema: {
+                id: z.string().describe('The memory node ID'),
+                depth: z.number().optional().describe('Association depth (default: 1, capped by server maxAssociationDepth)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    node: z.any(),
+                    associations: z.array(z.any())
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ id, depth, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.getLongTermMemory(id, { depth }));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'searchLongTermMemory',
+        {
+            title: 'Search Long-Term Memory',
+            description: 'Search memory nodes by keywords, ranked by relevance (supports "quoted phrases" and Chinese text)',
+            inputSchema: {
+                keyword: z.string().describe('Search keywords; wrap exact phrases in double quotes'),
+                limit: z.number().optional().describe('Max results (default: 10)'),
+                caseSensitive: z.boolean().optional().describe('Case-sensitive search (default: false)'),
+                operator: z.enum(['and', 'or']).optional().describe('Require all terms (and) or any term (or) (default: and, hybrid: or)'),
+                mode: z.enum(['keyword', 'semantic', 'hybrid']).optional().describe('Keyword matching, vector similarity or a blend of both (default: keyword)'),
+                semanticWeight: z.number().min(0).max(1).optional().describe('Share of the vector score in hybrid mode (default: 0.5)'),
+                sortBy: z.union([z.literal('relevance'), sortFieldSchema]).optional().describe('Order results by relevance or by a memory field (default: relevance)'),
+                order: z.enum(['asc', 'desc']).optional().describe('Sort order when not sorting by relevance (default: desc)'),
+                ...memoryFilterSchema,
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.array(z.object({
+                    id: z.string(),
+                    text: z.string(),
+                    relevance: z.number().optional()
+                })).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ keyword, limit, caseSensitive, operator, mode, semanticWeight, sortBy, order, space, ...filter }) => {
+            const result = await session.inSpace(space, (memory) => memory.searchLongTermMemory(keyword, { limit, caseSensitive, operator, mode, semanticWeight, sortBy, order, ...filter }));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'semanticSearchLongTermMemory',
+        {
+            title: 'Semantic Search Long-Term Memory',
+            description: 'Search memory nodes by meaning using vector similarity (finds paraphrases)',
+            inputSchema: {
+                query: z.string().describe('Natural language query'),
+                limit: z.number().optional().describe('Max results (default: 10)'),
+                minScore: z.number().min(-1).max(1).optional().describe('Minimum cosine similarity (default: 0)'),
+                ...memoryFilterSchema,
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.array(z.object({
+                    id: z.string(),
+                    text: z.string(),
+                    relevance: z.number().optional()
+                })).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ query, limit, minScore, space, ...filter }) => {
+            const result = await session.inSpace(space, (memory) => memory.semanticSearchLongTermMemory(query, { limit, minScore, ...filter }));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'updateLongTermMemory',
+        {
+            title: 'Update Long-Term Memory',
+            description: 'Update a memory node\'s text, associations, tags and/or properties',
+            inputSchema: {
+                id: z.string().describe('The memory node ID'),
+                newText: z.string().optional().describe('New memory text'),
+                newAssociations: z.array(z.string()).optional().describe('New associations array'),
+                tags: z.array(z.string()).optional().describe('Replace all tags'),
+                properties: z.record(z.string(), propertyValueSchema.nullable()).optional().describe('Properties to merge; null removes a key'),
+                occurredAt: z.string().nullable().optional().describe('When the remembered event happened (date or ISO 8601 time); null removes it'),
+                author: authorSchema,
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                error: z.string().optional()
+            }
+        },
+        async ({ id, newText, newAssociations, tags, properties, occurredAt, author, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.updateLongTermMemory(id, newText, newAssociations, { tags, properties, occurredAt, author }));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getMemoryHistory',
+        {
+            title: 'Get Memory History',
+            description: 'List the revisions of a memory node (text, associations, tags, properties, time and author), oldest first, ending with the current version',
+            inputSchema: {
+                id: z.string().describe('The memory node ID'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    id: z.string(),
+                    revisions: z.array(z.any())
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ id, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.getMemoryHistory(id));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'revertMemory',
+        {
+            title: 'Revert Memory',
+            description: 'Restore an earlier revision of a memory node (see getMemoryHistory); the restored content becomes a new revision, so the revert can be undone as well',
+            inputSchema: {
+                id: z.string().describe('The memory node ID'),
+                revision: z.number().int().min(1).describe('Revision number to restore'),
+                author: authorSchema,
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    revision: z.number(),
+                    droppedAssociations: z.array(z.string())
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ id, revision, author, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.revertMemory(id, revision, author));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'listLongTermMemory',
+        {
+            title: 'List Long-Term Memory',
+            description: 'List memory nodes filtered by tags and properties, with sorting and pagination',
+            inputSchema: {
+                ...memoryFilterSchema,
+                offset: z.number().int().min(0).optional().describe('Number of matches to skip (default: 0)'),
+                limit: z.number().int().min(1).optional().describe('Page size (default: 10)'),
+                sortBy: sortFieldSchema.optional().describe('Sort field (default: createdAt)'),
+                order: z.enum(['asc', 'desc']).optional().describe('Sort order (default: desc)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    items: z.array(z.any()),
+                    total: z.number(),
+                    offset: z.number(),
+                    limit: z.number()
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ space, ...params }) => {
+            const result = await session.inSpace(space, (memory) => memory.listLongTermMemory(params));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getTimeline',
+        {
+            title: 'Get Timeline',
+            description: 'List memories in time order grouped by day or week, e.g. to recall what happened in a given period (use from/to and timeField occurredAt)',
+            inputSchema: {
+                ...memoryFilterSchema,
+                groupBy: z.enum(['day', 'week']).optional().describe('Group by UTC day or Monday-based week (default: day)'),
+                order: z.enum(['asc', 'desc']).optional().describe('Oldest first (asc) or newest first (desc) (default: asc)'),
+                limit: z.number().int().min(1).optional().describe('Max entries (default: 10)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    groups: z.array(z.object({
+                        start: z.string(),
+                        entries: z.array(z.object({
+                            id: z.string(),
+                            text: z.string(),
+                            time: z.string(),
+                            tags: z.array(z.string()).optional()
+                        }))
+                    })),
+                    total: z.number()
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ space, ...options }) => {
+            const result = await session.inSpace(space, (memory) => memory.getTimeline(options));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getMemoryTags',
+        {
+            title: 'Get Memory Tags',
+            description: 'List all tags in use with the number of memories carrying each',
+            inputSchema: {
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.record(z.string(), z.number()).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ space }) => {
+            const result = await session.inSpace(space, (memory) => memory.getMemoryTags());
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'findDuplicateMemories',
+        {
+            title: 'Find Duplicate Memories',
+            description: 'Scan all memories for near-duplicate texts (same words ignoring case, punctuation and spacing) and return them in groups, e.g. to combine with mergeMemories',
+            inputSchema: {
+                threshold: z.number().min(0).max(1).optional().describe('Lowest similarity (0-1) to report (default: server duplicateThreshold)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.array(z.object({
+                    memories: z.array(z.object({
+                        id: z.string(),
+                        text: z.string(),
+                        similarity: z.number()
+                    }))
+                })).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ threshold, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.findDuplicateMemories(threshold));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'mergeMemories',
+        {
+            title: 'Merge Memories',
+            description: 'Merge memories into the first one: tags, properties, associations and access counts are combined, links to the other memories are moved to it and the others are deleted',
+            inputSchema: {
+                ids: z.array(z.string()).min(2).describe('Memory IDs to merge; the first one is kept'),
+                text: z.string().optional().describe('Text of the merged memory (default: text of the first memory)'),
+                author: authorSchema,
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    id: z.string(),
+                    merged: z.array(z.string()),
+                    rewired: z.number()
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ ids, text, author, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.mergeMemories(ids, { text, author }));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'deleteLongTermMemory',
+        {
+            title: 'Delete Long-Term Memory',
+            description: 'Delete a memory node and remove it from all associations',
+            inputSchema: {
+                id: z.string().describe('The memory node ID to delete'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                error: z.string().optional()
+            }
+        },
+        async ({ id, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.deleteLongTermMemory(id));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getAssociations',
+        {
+            title: 'Get Memory Associations',
+            description: 'Get all direct association IDs of a memory node',
+            inputSchema: {
+                id: z.string().describe('The memory node ID'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.array(z.string()).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ id, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.getAssociations(id));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    const graphEdgeSchema = z.object({
+        source: z.string(),
+        target: z.string(),
+        relation: z.string(),
+        weight: z.number(),
+        createdAt: z.string(),
+        symmetric: z.boolean().optional()
+    });
+
+    server.registerTool(
+        'linkMemories',
+        {
+            title: 'Link Memories',
+            description: 'Create or replace a typed, weighted association between two memory nodes. Use relation "contradicts" to flag conflicting facts (always symmetric, see getConflicts) and "supersedes" from a newer memory to the one it replaces, which hides the older one from search',
+            inputSchema: {
+                sourceId: z.string().describe('The source memory node ID'),
+                targetId: z.string().describe('The target memory node ID'),
+                relation: z.string().optional().describe('Relation label, e.g. causes, contradicts, supersedes, part-of (default: related)'),
+                weight: z.number().min(0).max(1).optional().describe('Association strength (0-1, default: 1)'),
+                symmetric: z.boolean().optional().describe('Also create the reverse edge and keep both in sync (default: false)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: graphEdgeSchema.optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ sourceId, targetId, relation, weight, symmetric, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.linkMemories(sourceId, targetId, { relation, weight, symmetric }));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getConflicts',
+        {
+            title: 'Get Conflicts',
+            description: 'List pairs of memories linked as contradicting where neither has been superseded yet, oldest first. Resolve one by linking the correct memory (or a new one) with relation supersedes to the outdated one',
+            inputSchema: {
+                includeResolved: z.boolean().optional().describe('Also list contradictions where one memory has been superseded (default: false)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.array(z.object({
+                    memories: z.array(z.object({
+                        id: z.string(),
+                        text: z.string()
+                    })),
+                    createdAt: z.string(),
+                    resolved: z.boolean()
+                })).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ includeResolved, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.getConflicts(includeResolved));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'unlinkMemories',
+        {
+            title: 'Unlink Memories',
+            description: 'Remove the association from one memory node to another (both directions if symmetric)',
+            inputSchema: {
+                sourceId: z.string().describe('The source memory node ID'),
+                targetId: z.string().describe('The target memory node ID'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                error: z.string().optional()
+            }
+        },
+        async ({ sourceId, targetId, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.unlinkMemories(sourceId, targetId));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getMemoryEdges',
+        {
+            title: 'Get Memory Edges',
+            description: 'Get typed associations of a memory node, including incoming links from other nodes',
+            inputSchema: {
+                id: z.string().describe('The memory node ID'),
+                direction: z.enum(['outgoing', 'incoming', 'both']).optional().describe('Which edges to return (default: both)'),
+                relation: z.string().optional().describe('Only return edges with this relation label'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.array(graphEdgeSchema).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ id, direction, relation, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.getMemoryEdges(id, direction, relation));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    const subgraphSchema = z.object({
+        nodes: z.array(z.object({
+            node: z.any(),
+            distance: z.number().optional()
+        })),
+        edges: z.array(graphEdgeSchema)
+    });
+
+    server.registerTool(
+        'findMemoryPath',
+        {
+            title: 'Find Memory Path',
+            description: 'Find the shortest chain of associations connecting two memory nodes',
+            inputSchema: {
+                fromId: z.string().describe('The starting memory node ID'),
+                toId: z.string().describe('The target memory node ID'),
+                maxDepth: z.number().int().min(1).optional().describe('Maximum number of hops (default: server maxAssociationDepth)'),
+                relations: z.array(z.string()).optional().describe('Only follow edges with these relation labels'),
+                direction: z.enum(['outgoing', 'incoming', 'both']).optional().describe('Which edges to follow (default: both)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    nodes: z.array(z.any()),
+                    edges: z.array(graphEdgeSchema),
+                    length: z.number()
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ fromId, toId, maxDepth, relations, direction, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.findMemoryPath(fromId, toId, { maxDepth, relations, direction }));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getMemoryNeighborhood',
+        {
+            title: 'Get Memory Neighborhood',
+            description: 'Get the memory nodes within a number of hops (with hop distance) and the edges between them',
+            inputSchema: {
+                id: z.string().describe('The memory node ID at the center'),
+                maxDepth: z.number().int().min(1).optional().describe('Number of hops (default: 1, capped by server maxAssociationDepth)'),
+                relations: z.array(z.string()).optional().describe('Only follow edges with these relation labels'),
+                direction: z.enum(['outgoing', 'incoming', 'both']).optional().describe('Which edges to follow (default: both)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: subgraphSchema.optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ id, maxDepth, relations, direction, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.getMemoryNeighborhood(id, { maxDepth, relations, direction }));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'exportSubgraph',
+        {
+            title: 'Export Subgraph',
+            description: 'Export the given memory nodes together with the edges among them',
+            inputSchema: {
+                ids: z.array(z.string()).describe('Memory node IDs to include'),
+                relations: z.array(z.string()).optional().describe('Only include edges with these relation labels'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: subgraphSchema.optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ ids, relations, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.exportSubgraph(ids, relations));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    // ============================================================================
+    // Forgetting Tools
+    // ============================================================================
+
+    const forgetReportSchema = z.object({
+        candidates: z.array(z.object({
+            id: z.string(),
+            text: z.string(),
+            strength: z.number(),
+            lastAccessed: z.string(),
+            accessCount: z.number()
+        })),
+        action: z.enum(['archive', 'delete']),
+        applied: z.boolean()
+    });
+
+    server.registerTool(
+        'previewForgetting',
+        {
+            title: 'Preview Forgetting',
+            description: 'Dry run: list weak, unlinked memories that a forgetting pass would archive or delete',
+            inputSchema: {
+                threshold: z.number().min(0).max(1).optional().describe('Strength threshold (default: server setting)'),
+                action: z.enum(['archive', 'delete']).optional().describe('Action to report (default: server setting)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: forgetReportSchema.optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ threshold, action, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.forgetMemories({ dryRun: true, threshold, action }));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'forgetMemories',
+        {
+            title: 'Forget Memories',
+            description: 'Archive or delete weak, unlinked memories whose strength has decayed below the threshold',
+            inputSchema: {
+                threshold: z.number().min(0).max(1).optional().describe('Strength threshold (default: server setting)'),
+                action: z.enum(['archive', 'delete']).optional().describe('archive hides memories from search, delete removes them (default: server setting)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: forgetReportSchema.optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ threshold, action, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.forgetMemories({ threshold, action }));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    // ============================================================================
+    // Import/Export Tools
+    // ============================================================================
+
+    const formatSchema = z.enum(['jsonl', 'markdown', 'graphml', 'csv']);
+
+    const exportFileSchema = z.object({
+        name: z.string(),
+        content: z.string()
+    });
+
+    server.registerTool(
+        'exportMemory',
+        {
+            title: 'Export Memory',
+            description: 'Export long-term memories as JSON Lines, Markdown notes (with wiki-links), GraphML or CSV node/edge lists',
+            inputSchema: {
+                format: formatSchema.describe('Export format'),
+                ids: z.array(z.string()).optional().describe('Only export these memory IDs (default: all)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    format: formatSchema,
+                    count: z.number(),
+                    files: z.array(exportFileSchema).optional()
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ format, ids, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.exportMemory({ format, ids }));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'importMemory',
+        {
+            title: 'Import Memory',
+            description: 'Import memories from JSON Lines, Markdown notes, GraphML or CSV, remapping IDs so associations stay intact',
+            inputSchema: {
+                format: formatSchema.describe('Import format'),
+                content: z.string().optional().describe('Content of a single file (the node list for csv)'),
+                files: z.array(exportFileSchema).optional().describe('Several files as returned by exportMemory (markdown notes, csv nodes.csv and edges.csv)'),
+                strategy: z.enum(['skip', 'overwrite', 'rename']).optional().describe('Existing IDs: keep the existing memory (skip, default), replace it (overwrite) or import under a new ID (rename)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    created: z.number(),
+                    overwritten: z.number(),
+                    skipped: z.number(),
+                    renamed: z.number(),
+                    edges: z.number(),
+                    droppedEdges: z.number(),
+                    idMap: z.record(z.string(), z.string())
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ format, content, files, strategy, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.importMemory({ format, content, files, strategy }));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    // ============================================================================
+    // Snapshot Tools
+    // ============================================================================
+
+    const snapshotInfoSchema = z.object({
+        id: z.string(),
+        createdAt: z.string(),
+        reason: z.enum(['auto', 'manual', 'pre-restore']),
+        label: z.string().optional(),
+        memoryCount: z.number(),
+        size: z.number()
+    });
+
+    const memorySummarySchema = z.object({
+        id: z.string(),
+        text: z.string()
+    });
+
+    server.registerTool(
+        'createSnapshot',
+        {
+            title: 'Create Snapshot',
+            description: 'Save a point-in-time snapshot of the memory space (older snapshots are rotated out by the retention policy)',
+            inputSchema: {
+                label: z.string().optional().describe('Note to remember the snapshot by'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: snapshotInfoSchema.optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ label, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.createSnapshot(label));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'listSnapshots',
+        {
+            title: 'List Snapshots',
+            description: 'List the snapshots of the memory space, newest first',
+            inputSchema: {
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.array(snapshotInfoSchema).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ space }) => {
+            const result = await session.inSpace(space, (memory) => memory.listSnapshots());
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'diffSnapshot',
+        {
+            title: 'Diff Snapshot',
+            description: 'Compare a snapshot with the current long-term memories: which were added, removed or changed since',
+            inputSchema: {
+                snapshot: z.string().describe('Snapshot ID (see listSnapshots)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    snapshot: z.string(),
+                    added: z.array(memorySummarySchema),
+                    removed: z.array(memorySummarySchema),
+                    changed: z.array(memorySummarySchema.extend({
+                        fields: z.array(z.string())
+                    }))
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ snapshot, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.diffSnapshot(snapshot));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'restoreMemory',
+        {
+            title: 'Restore Memory',
+            description: 'Restore long-term memories from a snapshot: the whole graph, or only the given memories. Thought chains are not touched. The current state is snapshotted first so the restore can be undone',
+            inputSchema: {
+                snapshot: z.string().describe('Snapshot ID (see listSnapshots)'),
+                ids: z.array(z.string()).optional().describe('Only restore these memory IDs (default: replace the whole graph)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    snapshot: z.string(),
+                    restored: z.number(),
+                    removed: z.number(),
+                    notFound: z.array(z.string()),
+                    safetySnapshot: z.string()
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ snapshot, ids, space }) => {
+            const result = await session.inSpace(space, (memory) => memory.restoreMemory(snapshot, ids));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    // ============================================================================
+    // System Management Tools
+    // ============================================================================
+
+    server.registerTool(
+        'saveMemory',
+        {
+            title: 'Save Memory to Disk',
+            description: 'Manually trigger saving all long-term memories to disk',
+            inputSchema: {},
+            outputSchema: {
+                success: z.boolean(),
+                error: z.string().optional()
+            }
+        },
+        async () => {
+            const result = await brainMCP.save();
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getMemoryStats',
+        {
+            title: 'Get Memory Statistics',
+            description: 'Get statistics about the memory system',
+            inputSchema: {
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    shortTermCount: z.number(),
+                    longTermCount: z.number(),
+                    totalAssociations: z.number(),
+                    oldestMemory: z.string().optional(),
+                    newestMemory: z.string().optional(),
+                    cacheSize: z.number(),
+                    space: z.string().optional()
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ space }) => {
+            const result = await session.inSpace(space, (memory) => memory.getStats());
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    // ============================================================================
+    // Thinking Process Tools
+    // ============================================================================
+
+    server.registerTool(
+        'startThoughtProcess',
+        {
+            title: 'Start Thought Process',
+            description: 'Start a new thought process chain with a goal',
+            inputSchema: {
+                goal: z.string().describe('The goal of the thought process'),
+                context: z.string().optional().describe('Optional context information'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.string().optional().describe('The thought chain ID'),
+                error: z.string().optional()
+            }
+        },
+        async (params: { goal: string; context?: string; space?: string }) => {
+            const result = await session.inSpace(params.space, (memory) => memory.startThoughtProcess(params.goal, params.context));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'addThought',
+        {
+            title: 'Add Thought',
+            description: 'Add a thought to an existing thought chain',
+            inputSchema: {
+                chainId: z.string().describe('The thought chain ID'),
+                thought: z.string().describe('The thought content'),
+                type: z.enum(['observation', 'analysis', 'decision', 'action', 'reflection', 'hypothesis']).describe('Type of thought'),
+                parentThoughtId: z.string().optional().describe('Parent thought ID for branching'),
+                confidence: z.number().min(0).max(1).default(0.7).describe('Confidence level (0-1)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.string().optional().describe('The new thought ID'),
+                error: z.string().optional()
+            }
+        },
+        async (params: { chainId: string; thought: string; type: string; parentThoughtId?: string; confidence?: number; space?: string }) => {
+            const result = await session.inSpace(params.space, (memory) =>
+                memory.addThought(
+                    params.chainId,
+                    params.thought,
+                    params.type as any,
+                    params.parentThoughtId,
+                    params.confidence
+                )
+            );
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'branchThought',
+        {
+            title: 'Branch Thought',
+            description: 'Create a branch from an existing thought to explore alternative paths',
+            inputSchema: {
+                thoughtId: z.string().describe('The thought ID to branch from'),
+                newThought: z.string().describe('New thought content for the branch'),
+                type: z.enum(['observation', 'analysis', 'decision', 'action', 'reflection', 'hypothesis']).default('hypothesis'),
+                confidence: z.number().min(0).max(1).default(0.6),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.string().optional().describe('The new branch thought ID'),
+                error: z.string().optional()
+            }
+        },
+        async (params: { thoughtId: string; newThought: string; type?: string; confidence?: number; space?: string }) => {
+            const result = await session.inSpace(params.space, (memory) =>
+                memory.branchThought(
+                    params.thoughtId,
+                    params.newThought,
+                    params.type as any,
+                    params.confidence
+                )
+            );
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'mergeBranch',
+        {
+            title: 'Merge Branch',
+            description: 'Merge the conclusion of a branch back into the chain it was branched from; the conclusion is added to that chain after the branch\'s last thought and the branch is completed',
+            inputSchema: {
+                chainId: z.string().describe('The branch chain ID'),
+                conclusion: z.string().describe('What the branch found'),
+                type: z.enum(['observation', 'analysis', 'decision', 'action', 'reflection', 'hypothesis']).default('analysis'),
+                confidence: z.number().min(0).max(1).default(0.7),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.string().optional().describe('The new thought ID in the parent chain'),
+                error: z.string().optional()
+            }
+        },
+        async (params: { chainId: string; conclusion: string; type?: string; confidence?: number; space?: string }) => {
+            const result = await session.inSpace(params.space, (memory) =>
+                memory.mergeBranch(
+                    params.chainId,
+                    params.conclusion,
+                    params.type as any,
+                    params.confidence
+                )
+            );
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'evaluateThought',
+        {
+            title: 'Evaluate Thought',
+            description: 'Evaluate and update the confidence level of a thought',
+            inputSchema: {
+                thoughtId: z.string().describe('The thought ID to evaluate'),
+                confidence: z.number().min(0).max(1).describe('New confidence level'),
+                reasoning: z.string().describe('Reasoning for the evaluation'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                error: z.string().optional()
+            }
+        },
+        async (params: { thoughtId: string; confidence: number; reasoning: string; space?: string }) => {
+            const result = await session.inSpace(params.space, (memory) => memory.evaluateThought(params.thoughtId, params.confidence, params.reasoning));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'completeThoughtProcess',
+        {
+            title: 'Complete Thought Process',
+            description: 'Mark a thought process as complete and store the conclusion as a long-term memory; selected thoughts can be stored too, linked from the conclusion',
+            inputSchema: {
+                chainId: z.string().describe('The thought chain ID'),
+                conclusion: z.string().describe('Final conclusion of the thought process'),
+                minConfidence: z.number().min(0).max(1).optional().describe('Also store the chain\'s thoughts with at least this confidence as memories'),
+                thoughtIds: z.array(z.string()).optional().describe('Also store these thoughts of the chain as memories'),
+                tags: z.array(z.string()).optional().describe('Tags for the conclusion memory'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    memoryId: z.string().describe('The conclusion memory ID'),
+                    thoughtMemories: z.record(z.string(), z.string()).describe('Memory ID of each stored thought'),
+                    failures: z.array(z.object({
+                        thoughtId: z.string(),
+                        error: z.string()
+                    })).describe('Selected thoughts that could not be stored')
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async (params: { chainId: string; conclusion: string; minConfidence?: number; thoughtIds?: string[]; tags?: string[]; space?: string }) => {
+            const result = await session.inSpace(params.space, (memory) =>
+                memory.completeThoughtProcess(params.chainId, params.conclusion, {
+                    minConfidence: params.minConfidence,
+                    thoughtIds: params.thoughtIds,
+                    tags: params.tags
+                })
+            );
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getCurrentThoughtChain',
+        {
+            title: 'Get Current Thought Chain',
+            description: 'Retrieve the current state of a thought chain with all thoughts',
+            inputSchema: {
+                chainId: z.string().describe('The thought chain ID'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    chain: z.any(),
+                    thoughts: z.array(z.any())
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async (params: { chainId: string; space?: string }) => {
+            const result = await session.inSpace(params.space, (memory) => memory.getCurrentThoughtChain(params.chainId));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getThoughtTree',
+        {
+            title: 'Get Thought Tree',
+            description: 'Retrieve the whole thought tree a chain belongs to: the root chain, all branches below it and their thoughts nested by what follows what',
+            inputSchema: {
+                chainId: z.string().describe('Any chain ID in the tree (root chain or branch)'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    root_chain: z.string(),
+                    chains: z.array(z.any()),
+                    thoughts: z.array(z.any())
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async (params: { chainId: string; space?: string }) => {
+            const result = await session.inSpace(params.space, (memory) => memory.getThoughtTree(params.chainId));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'pauseThinking',
+        {
+            title: 'Pause Thinking',
+            description: 'Pause an active thought process',
+            inputSchema: {
+                chainId: z.string().describe('The thought chain ID'),
+                reason: z.string().describe('Reason for pausing'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                error: z.string().optional()
+            }
+        },
+        async (params: { chainId: string; reason: string; space?: string }) => {
+            const result = await session.inSpace(params.space, (memory) => memory.pauseThinking(params.chainId, params.reason));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'resumeThinking',
+        {
+            title: 'Resume Thinking',
+            description: 'Resume a paused thought process',
+            inputSchema: {
+                chainId: z.string().describe('The thought chain ID'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                error: z.string().optional()
+            }
+        },
+        async (params: { chainId: string; space?: string }) => {
+            const result = await session.inSpace(params.space, (memory) => memory.resumeThinking(params.chainId));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'switchCognitiveMode',
+        {
+            title: 'Switch Cognitive Mode',
+            description: 'Switch the cognitive mode for thinking processes',
+            inputSchema: {
+                mode: z.enum(['analytical', 'intuitive', 'creative', 'critical', 'meta-cognitive']).describe('Cognitive mode to switch to'),
+                chainId: z.string().optional().describe('Optional chain ID to apply mode to'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                error: z.string().optional()
+            }
+        },
+        async (params: { mode: string; chainId?: string; space?: string }) => {
+            const result = await session.inSpace(params.space, (memory) => memory.switchCognitiveMode(params.mode as any, params.chainId));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getOptimalModeForTask',
+        {
+            title: 'Get Optimal Cognitive Mode',
+            description: 'Get the recommended cognitive mode for a specific task type',
+            inputSchema: {
+                taskType: z.string().describe('Description of the task'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.enum(['analytical', 'intuitive', 'creative', 'critical', 'meta-cognitive']).optional(),
+                error: z.string().optional()
+            }
+        },
+        async (params: { taskType: string; space?: string }) => {
+            const result = await session.inSpace(params.space, (memory) => memory.getOptimalModeForTask(params.taskType));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getThinkingProgress',
+        {
+            title: 'Get Thinking Progress',
+            description: 'Get progress statistics for a thought chain',
+            inputSchema: {
+                chainId: z.string().describe('The thought chain ID'),
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    totalThoughts: z.number(),
+                    completedThoughts: z.number(),
+                    activeThoughts: z.number(),
+                    averageConfidence: z.number(),
+                    maxDepth: z.number()
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async (params: { chainId: string; space?: string }) => {
+            const result = await session.inSpace(params.space, (memory) => memory.getThinkingProgress(params.chainId));
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getActiveChains',
+        {
+            title: 'Get Active Thought Chains',
+            description: 'Get all currently active thought chains',
+            inputSchema: {
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.array(z.any()).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ space }) => {
+            const result = await session.inSpace(space, (memory) => memory.getActiveChains());
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'getThinkingStats',
+        {
+            title: 'Get Thinking Statistics',
+            description: 'Get overall thinking process statistics',
+            inputSchema: {
+                space: spaceSchema
+            },
+            outputSchema: {
+                success: z.boolean(),
+                data: z.object({
+                    totalChains: z.number(),
+                    activeChains: z.number(),
+                    completedChains: z.number(),
+                    totalThoughts: z.number(),
+                    modeDistribution: z.any()
+                }).optional(),
+                error: z.string().optional()
+            }
+        },
+        async ({ space }) => {
+            const result = await session.inSpace(space, (memory) => memory.getThinkingStats());
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    // ============================================================================
+    // Memory Space Tools
+    // ============================================================================
+
+    server.registerTool(
+        'createMemorySpace',
+        {
+            title: 'Create Memory Space',
+            description: 'Create a new, isolated memory space (its own long-term, short-term and thinking state)',
+            inputSchema: {
+                name: z.string().describe('Space name (letters, digits, "-" and "_")')
+            },
+            outputSchema: {
+                success: z.boolean(),
+                error: z.string().optional()
+            }
+        },
+        async ({ name }) => {
+            const result = await brainMCP.createSpace(name);
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'listMemorySpaces',
+        {
+            title: 'List Memory Spaces',
+            description: 'List all memory spaces and which one is active',
+            inputSchema: {},
+            outputSchema: {
+                success: z.boolean(),
+                data: z.array(z.object({
+                    name: z.string(),
+                    loaded: z.boolean(),
+                    active: z.boolean(),
+                    longTermCount: z.number().optional()
+                })).optional(),
+                error: z.string().optional()
+            }
+        },
+        async () => {
+            const result = session.listSpaces();
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'useMemorySpace',
+        {
+            title: 'Use Memory Space',
+            description: 'Set the active memory space used by tools called without a space',
+            inputSchema: {
+                name: z.string().describe('Space name')
+            },
+            outputSchema: {
+                success: z.boolean(),
+                error: z.string().optional()
+            }
+        },
+        async ({ name }) => {
+            const result = await session.useSpace(name);
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'renameMemorySpace',
+        {
+            title: 'Rename Memory Space',
+            description: 'Rename a memory space (the default space cannot be renamed)',
+            inputSchema: {
+                name: z.string().describe('Current space name'),
+                newName: z.string().describe('New space name')
+            },
+            outputSchema: {
+                success: z.boolean(),
+                error: z.string().optional()
+            }
+        },
+        async ({ name, newName }) => {
+            const result = await session.renameSpace(name, newName);
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'copyMemorySpace',
+        {
+            title: 'Copy Memory Space',
+            description: 'Copy a memory space (long-term memories and thinking state) into a new space',
+            inputSchema: {
+                name: z.string().describe('Source space name'),
+                newName: z.string().describe('Name of the new space')
+            },
+            outputSchema: {
+                success: z.boolean(),
+                error: z.string().optional()
+            }
+        },
+        async ({ name, newName }) => {
+            const result = await brainMCP.copySpace(name, newName);
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    server.registerTool(
+        'deleteMemorySpace',
+        {
+            title: 'Delete Memory Space',
+            description: 'Permanently delete a memory space and its stored files (the default space cannot be deleted)',
+            inputSchema: {
+                name: z.string().describe('Space name')
+            },
+            outputSchema: {
+                success: z.boolean(),
+                error: z.string().optional()
+            }
+        },
+        async ({ name }) => {
+            const result = await session.deleteSpace(name);
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result
+            };
+        }
+    );
+
+    return server;
+}
 
 // ============================================================================
-// Long-Term Memory Tools
+// Transports
 // ============================================================================
 
-server.registerTool(
-    'addLongTermMemory',
-    {
-        title: 'Add Long-Term Memory',
-        description: 'Create a new persistent memory node with optional associations to other nodes',
-        inputSchema: {
-            text: z.string().describe('The memory text to store'),
-            associations: z.array(z.string()).optional().describe('Array of associated memory node IDs')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            data: z.string().optional().describe('The new memory node ID'),
-            error: z.string().optional()
-        }
-    },
-    async ({ text, associations }) => {
-        const result = brainMCP.addLongTermMemory(text, associations || []);
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+const { transport: transportMode, port: httpPort, host: httpHost, authToken } = options.server;
+
+// Open streamable HTTP sessions by session id
+interface HttpSession {
+    transport: StreamableHTTPServerTransport;
+    lastActive: number;
+    openRequests: number; // Includes a client's long-lived GET stream
+}
+
+const httpSessions: Map<string, HttpSession> = new Map();
+let httpServer: http.Server | undefined;
+let sessionSweep: NodeJS.Timeout | undefined;
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const WILDCARD_HOSTS = ['0.0.0.0', '[::]'];
+
+/**
+ * Check the `Authorization: Bearer <token>` header when a token is configured
+ */
+function isAuthorized(req: http.IncomingMessage): boolean {
+    if (!authToken) {
+        return true;
     }
-);
-
-server.registerTool(
-    'getLongTermMemory',
-    {
-        title: 'Get Long-Term Memory',
-        description: 'Retrieve a memory node by ID with its associations up to specified depth',
-        inputSchema: {
-            id: z.string().describe('The memory node ID'),
-            depth: z.number().optional().describe('Association depth (1-3, default: 1)')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            data: z.object({
-                node: z.any(),
-                associations: z.array(z.any())
-            }).optional(),
-            error: z.string().optional()
-        }
-    },
-    async ({ id, depth }) => {
-        const result = brainMCP.getLongTermMemory(id, { depth });
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+
+    const header = req.headers.authorization ?? '';
+    const expected = Buffer.from(`Bearer ${authToken}`);
+    const actual = Buffer.from(header);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Listen address in the form it takes in a Host header
+ * @private
+ */
+function boundHostName(): string {
+    const host = httpHost.toLowerCase();
+    return host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+}
+
+/**
+ * Host names a request may address, or undefined when listening on every interface
+ * @private
+ */
+function allowedHostNames(): string[] | undefined {
+    const bound = boundHostName();
+    if (WILDCARD_HOSTS.includes(bound)) {
+        return undefined;
     }
-);
-
-server.registerTool(
-    'searchLongTermMemory',
-    {
-        title: 'Search Long-Term Memory',
-        description: 'Search memory nodes by keyword (text matching)',
-        inputSchema: {
-            keyword: z.string().describe('Search keyword'),
-            limit: z.number().optional().describe('Max results (default: 10)'),
-            caseSensitive: z.boolean().optional().describe('Case-sensitive search (default: false)')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            data: z.array(z.object({
-                id: z.string(),
-                text: z.string()
-            })).optional(),
-            error: z.string().optional()
-        }
-    },
-    async ({ keyword, limit, caseSensitive }) => {
-        const result = brainMCP.searchLongTermMemory(keyword, { limit, caseSensitive });
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+    return LOOPBACK_HOSTS.includes(bound) ? LOOPBACK_HOSTS : [bound];
+}
+
+function hostNameOf(value: string, base: string): string | undefined {
+    try {
+        return new URL(base + value).hostname.toLowerCase();
+    } catch {
+        return undefined;
     }
-);
-
-server.registerTool(
-    'updateLongTermMemory',
-    {
-        title: 'Update Long-Term Memory',
-        description: 'Update a memory node\'s text and/or associations',
-        inputSchema: {
-            id: z.string().describe('The memory node ID'),
-            newText: z.string().optional().describe('New memory text'),
-            newAssociations: z.array(z.string()).optional().describe('New associations array')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            error: z.string().optional()
-        }
-    },
-    async ({ id, newText, newAssociations }) => {
-        const result = brainMCP.updateLongTermMemory(id, newText, newAssociations);
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+}
+
+/**
+ * Guard against DNS rebinding and cross-site requests: the Host header must name the
+ * listen address, and a browser's Origin header must point at the same host
+ */
+function isAllowedOrigin(req: http.IncomingMessage): boolean {
+    const host = hostNameOf(req.headers.host ?? '', 'http://');
+    if (!host) {
+        return false;
     }
-);
-
-server.registerTool(
-    'deleteLongTermMemory',
-    {
-        title: 'Delete Long-Term Memory',
-        description: 'Delete a memory node and remove it from all associations',
-        inputSchema: {
-            id: z.string().describe('The memory node ID to delete')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            error: z.string().optional()
-        }
-    },
-    async ({ id }) => {
-        const result = brainMCP.deleteLongTermMemory(id);
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+
+    const allowed = allowedHostNames();
+    if (allowed && !allowed.includes(host)) {
+        return false;
     }
-);
-
-server.registerTool(
-    'getAssociations',
-    {
-        title: 'Get Memory Associations',
-        description: 'Get all direct association IDs of a memory node',
-        inputSchema: {
-            id: z.string().describe('The memory node ID')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            data: z.array(z.string()).optional(),
-            error: z.string().optional()
-        }
-    },
-    async ({ id }) => {
-        const result = brainMCP.getAssociations(id);
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+
+    const origin = req.headers.origin;
+    if (origin === undefined) {
+        return true;
     }
-);
+    const originHost = hostNameOf(origin, '');
+    return originHost !== undefined && (allowed ? allowed.includes(originHost) : originHost === host);
+}
 
-// ============================================================================
-// System Management Tools
-// ============================================================================
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+        JSON.stringify({
+            jsonrpc: '2.0',
+            error: { code: -32000, message },
+            id: null,
+        })
+    );
+}
 
-server.registerTool(
-    'saveMemory',
-    {
-        title: 'Save Memory to Disk',
-        description: 'Manually trigger saving all long-term memories to disk',
-        inputSchema: {},
-        outputSchema: {
-            success: z.boolean(),
-            error: z.string().optional()
-        }
-    },
-    async () => {
-        const result = await brainMCP.save();
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+/**
+ * Read a request body, or undefined once it grows past the size limit
+ */
+async function readBody(req: http.IncomingMessage): Promise<string | undefined> {
+    if (Number(req.headers['content-length']) > HTTP_LIMITS.maxBodySize) {
+        return undefined;
     }
-);
-
-server.registerTool(
-    'getMemoryStats',
-    {
-        title: 'Get Memory Statistics',
-        description: 'Get statistics about the memory system',
-        inputSchema: {},
-        outputSchema: {
-            success: z.boolean(),
-            data: z.object({
-                shortTermCount: z.number(),
-                longTermCount: z.number(),
-                totalAssociations: z.number(),
-                oldestMemory: z.string().optional(),
-                newestMemory: z.string().optional(),
-                cacheSize: z.number()
-            }).optional(),
-            error: z.string().optional()
-        }
-    },
-    async () => {
-        const result = brainMCP.getStats();
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += (chunk as Buffer).length;
+        if (size > HTTP_LIMITS.maxBodySize) {
+            return undefined;
+        }
+        chunks.push(chunk as Buffer);
     }
-);
+    return Buffer.concat(chunks).toString('utf-8');
+}
 
-// ============================================================================
-// Thinking Process Tools
-// ============================================================================
+/**
+ * Pass a request to its session's transport, keeping the session's idle clock
+ * stopped while the request is open
+ */
+async function handleSessionRequest(
+    session: HttpSession,
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    body: unknown
+): Promise<void> {
+    session.openRequests++;
+    res.once('close', () => {
+        session.openRequests--;
+        session.lastActive = Date.now();
+    });
+    await session.transport.handleRequest(req, res, body);
+}
 
-server.registerTool(
-    'startThoughtProcess',
-    {
-        title: 'Start Thought Process',
-        description: 'Start a new thought process chain with a goal',
-        inputSchema: {
-            goal: z.string().describe('The goal of the thought process'),
-            context: z.string().optional().describe('Optional context information')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            data: z.string().optional().describe('The thought chain ID'),
-            error: z.string().optional()
-        }
-    },
-    async (params: { goal: string; context?: string }) => {
-        const result = brainMCP.startThoughtProcess(params.goal, params.context);
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+/**
+ * Close sessions whose client has been gone longer than the idle timeout
+ */
+async function closeIdleSessions(): Promise<void> {
+    const cutoff = Date.now() - HTTP_LIMITS.sessionIdleTimeout;
+    for (const session of Array.from(httpSessions.values())) {
+        if (session.openRequests === 0 && session.lastActive < cutoff) {
+            await session.transport.close();
+        }
     }
-);
-
-server.registerTool(
-    'addThought',
-    {
-        title: 'Add Thought',
-        description: 'Add a thought to an existing thought chain',
-        inputSchema: {
-            chainId: z.string().describe('The thought chain ID'),
-            thought: z.string().describe('The thought content'),
-            type: z.enum(['observation', 'analysis', 'decision', 'action', 'reflection', 'hypothesis']).describe('Type of thought'),
-            parentThoughtId: z.string().optional().describe('Parent thought ID for branching'),
-            confidence: z.number().min(0).max(1).default(0.7).describe('Confidence level (0-1)')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            data: z.string().optional().describe('The new thought ID'),
-            error: z.string().optional()
-        }
-    },
-    async (params: { chainId: string; thought: string; type: string; parentThoughtId?: string; confidence?: number }) => {
-        const result = brainMCP.addThought(
-            params.chainId,
-            params.thought,
-            params.type as any,
-            params.parentThoughtId,
-            params.confidence
-        );
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+}
+
+/**
+ * Route an HTTP request to its session's transport, creating a session on initialize
+ */
+async function handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== '/mcp') {
+        res.writeHead(404).end();
+        return;
     }
-);
-
-server.registerTool(
-    'branchThought',
-    {
-        title: 'Branch Thought',
-        description: 'Create a branch from an existing thought to explore alternative paths',
-        inputSchema: {
-            thoughtId: z.string().describe('The thought ID to branch from'),
-            newThought: z.string().describe('New thought content for the branch'),
-            type: z.enum(['observation', 'analysis', 'decision', 'action', 'reflection', 'hypothesis']).default('hypothesis'),
-            confidence: z.number().min(0).max(1).default(0.6)
-        },
-        outputSchema: {
-            success: z.boolean(),
-            data: z.string().optional().describe('The new branch thought ID'),
-            error: z.string().optional()
-        }
-    },
-    async (params: { thoughtId: string; newThought: string; type?: string; confidence?: number }) => {
-        const result = brainMCP.branchThought(
-            params.thoughtId,
-            params.newThought,
-            params.type as any,
-            params.confidence
-        );
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+
+    if (!isAllowedOrigin(req)) {
+        sendJsonRpcError(res, 403, 'Forbidden: invalid Host or Origin header');
+        return;
     }
-);
-
-server.registerTool(
-    'evaluateThought',
-    {
-        title: 'Evaluate Thought',
-        description: 'Evaluate and update the confidence level of a thought',
-        inputSchema: {
-            thoughtId: z.string().describe('The thought ID to evaluate'),
-            confidence: z.number().min(0).max(1).describe('New confidence level'),
-            reasoning: z.string().describe('Reasoning for the evaluation')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            error: z.string().optional()
-        }
-    },
-    async (params: { thoughtId: string; confidence: number; reasoning: string }) => {
-        const result = brainMCP.evaluateThought(params.thoughtId, params.confidence, params.reasoning);
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+
+    if (!isAuthorized(req)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJsonRpcError(res, 401, 'Unauthorized');
+        return;
     }
-);
-
-server.registerTool(
-    'completeThoughtProcess',
-    {
-        title: 'Complete Thought Process',
-        description: 'Mark a thought process as complete and store the conclusion',
-        inputSchema: {
-            chainId: z.string().describe('The thought chain ID'),
-            conclusion: z.string().describe('Final conclusion of the thought process')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            error: z.string().optional()
-        }
-    },
-    async (params: { chainId: string; conclusion: string }) => {
-        const result = brainMCP.completeThoughtProcess(params.chainId, params.conclusion);
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+
+    let body: unknown;
+    if (req.method === 'POST') {
+        const text = await readBody(req);
+        if (text === undefined) {
+            res.setHeader('Connection', 'close');
+            sendJsonRpcError(res, 413, `Request body exceeds ${HTTP_LIMITS.maxBodySize} bytes`);
+            return;
+        }
+        try {
+            body = text ? JSON.parse(text) : undefined;
+        } catch {
+            res.writeHead(400, { 'Content-Type': 'application/json' }).end(
+                JSON.stringify({ jsonrpc: '2.0', error: { code: -32700, message: 'Parse error' }, id: null })
+            );
+            return;
+        }
     }
-);
-
-server.registerTool(
-    'getCurrentThoughtChain',
-    {
-        title: 'Get Current Thought Chain',
-        description: 'Retrieve the current state of a thought chain with all thoughts',
-        inputSchema: {
-            chainId: z.string().describe('The thought chain ID')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            data: z.object({
-                chain: z.any(),
-                thoughts: z.array(z.any())
-            }).optional(),
-            error: z.string().optional()
-        }
-    },
-    async (params: { chainId: string }) => {
-        const result = brainMCP.getCurrentThoughtChain(params.chainId);
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+        const session = httpSessions.get(sessionId);
+        if (!session) {
+            sendJsonRpcError(res, 404, 'Session not found');
+            return;
+        }
+        await handleSessionRequest(session, req, res, body);
+        return;
     }
-);
-
-server.registerTool(
-    'pauseThinking',
-    {
-        title: 'Pause Thinking',
-        description: 'Pause an active thought process',
-        inputSchema: {
-            chainId: z.string().describe('The thought chain ID'),
-            reason: z.string().describe('Reason for pausing')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            error: z.string().optional()
-        }
-    },
-    async (params: { chainId: string; reason: string }) => {
-        const result = brainMCP.pauseThinking(params.chainId, params.reason);
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+        return;
     }
-);
-
-server.registerTool(
-    'resumeThinking',
-    {
-        title: 'Resume Thinking',
-        description: 'Resume a paused thought process',
-        inputSchema: {
-            chainId: z.string().describe('The thought chain ID')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            error: z.string().optional()
-        }
-    },
-    async (params: { chainId: string }) => {
-        const result = brainMCP.resumeThinking(params.chainId);
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+            httpSessions.set(id, session);
+        },
+    });
+    const session: HttpSession = { transport, lastActive: Date.now(), openRequests: 0 };
+    transport.onclose = () => {
+        if (transport.sessionId) {
+            httpSessions.delete(transport.sessionId);
+        }
+    };
+
+    await createServer().connect(transport);
+    await handleSessionRequest(session, req, res, body);
+}
+
+async function startHttp(): Promise<void> {
+    httpServer = http.createServer((req, res) => {
+        handleHttpRequest(req, res).catch((error) => {
+            console.error('HTTP request error:', error);
+            if (!res.headersSent) {
+                sendJsonRpcError(res, 500, 'Internal server error');
+            }
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer!.once('error', reject);
+        httpServer!.listen(httpPort, httpHost, resolve);
+    });
+
+    sessionSweep = setInterval(() => {
+        closeIdleSessions().catch((error) => console.error('Failed to close idle sessions:', error));
+    }, HTTP_LIMITS.sessionSweepInterval);
+    sessionSweep.unref();
+
+    console.error(`Brain-MCP MCP Server running on http://${httpHost}:${httpPort}/mcp`);
+    if (!authToken && !LOOPBACK_HOSTS.includes(boundHostName())) {
+        console.error('Warning: listening on a non-loopback address without BRAIN_MCP_AUTH_TOKEN');
     }
-);
-
-server.registerTool(
-    'switchCognitiveMode',
-    {
-        title: 'Switch Cognitive Mode',
-        description: 'Switch the cognitive mode for thinking processes',
-        inputSchema: {
-            mode: z.enum(['analytical', 'intuitive', 'creative', 'critical', 'meta-cognitive']).describe('Cognitive mode to switch to'),
-            chainId: z.string().optional().describe('Optional chain ID to apply mode to')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            error: z.string().optional()
-        }
-    },
-    async (params: { mode: string; chainId?: string }) => {
-        const result = brainMCP.switchCognitiveMode(params.mode as any, params.chainId);
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+}
+
+async function startStdio(): Promise<void> {
+    const transport = new StdioServerTransport();
+
+    await createServer().connect(transport);
+
+    console.error('Brain-MCP MCP Server running on stdio');
+}
+
+// ============================================================================
+// CLI Subcommands
+// ============================================================================
+
+/**
+ * Run the export or import subcommand, returning the process exit code
+ * Single-file exports without --output are written to stdout
+ */
+async function runTransfer(command: 'export' | 'import', transfer: TransferOptions): Promise<number> {
+    const { format, path: targetPath, strategy, space } = transfer;
+
+    if (command === 'export' && !targetPath && isDirectoryFormat(format)) {
+        console.error(`--output is required for the ${format} format`);
+        return 1;
     }
-);
-
-server.registerTool(
-    'getOptimalModeForTask',
-    {
-        title: 'Get Optimal Cognitive Mode',
-        description: 'Get the recommended cognitive mode for a specific task type',
-        inputSchema: {
-            taskType: z.string().describe('Description of the task')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            data: z.enum(['analytical', 'intuitive', 'creative', 'critical', 'meta-cognitive']).optional(),
-            error: z.string().optional()
-        }
-    },
-    async (params: { taskType: string }) => {
-        const result = brainMCP.getOptimalModeForTask(params.taskType);
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+
+    const result =
+        command === 'export'
+            ? await brainMCP.inSpace(space ?? DEFAULT_SPACE, (memory) =>
+                  memory.exportMemory({ format, outputPath: targetPath })
+              )
+            : await brainMCP.inSpace(space ?? DEFAULT_SPACE, (memory) =>
+                  memory.importMemory({ format, inputPath: targetPath, strategy })
+              );
+
+    if (!result.success) {
+        console.error(result.error);
+        return 1;
     }
-);
-
-server.registerTool(
-    'getThinkingProgress',
-    {
-        title: 'Get Thinking Progress',
-        description: 'Get progress statistics for a thought chain',
-        inputSchema: {
-            chainId: z.string().describe('The thought chain ID')
-        },
-        outputSchema: {
-            success: z.boolean(),
-            data: z.object({
-                totalThoughts: z.number(),
-                completedThoughts: z.number(),
-                activeThoughts: z.number(),
-                averageConfidence: z.number(),
-                maxDepth: z.number()
-            }).optional(),
-            error: z.string().optional()
-        }
-    },
-    async (params: { chainId: string }) => {
-        const result = brainMCP.getThinkingProgress(params.chainId);
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+
+    if ('files' in result.data && result.data.files) {
+        process.stdout.write(result.data.files[0].content);
+    } else {
+        console.error(JSON.stringify(result.data, null, 2));
     }
-);
-
-server.registerTool(
-    'getActiveChains',
-    {
-        title: 'Get Active Thought Chains',
-        description: 'Get all currently active thought chains',
-        inputSchema: {},
-        outputSchema: {
-            success: z.boolean(),
-            data: z.array(z.any()).optional(),
-            error: z.string().optional()
-        }
-    },
-    async () => {
-        const result = brainMCP.getActiveChains();
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+    return 0;
+}
+
+/**
+ * Run the rotate-key subcommand, returning the process exit code
+ * The memory was loaded with the current key (if any); every space is rewritten with the new one
+ */
+async function runKeyRotation(rotation: KeyRotationOptions): Promise<number> {
+    const cipherResult = await loadCipher({ encryptionKey: rotation.key, encryptionKeyFile: rotation.keyFile });
+    if (!cipherResult.success) {
+        console.error(cipherResult.error);
+        return 1;
     }
-);
-
-server.registerTool(
-    'getThinkingStats',
-    {
-        title: 'Get Thinking Statistics',
-        description: 'Get overall thinking process statistics',
-        inputSchema: {},
-        outputSchema: {
-            success: z.boolean(),
-            data: z.object({
-                totalChains: z.number(),
-                activeChains: z.number(),
-                completedChains: z.number(),
-                totalThoughts: z.number(),
-                modeDistribution: z.any()
-            }).optional(),
-            error: z.string().optional()
-        }
-    },
-    async () => {
-        const result = brainMCP.getThinkingStats();
-        return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            structuredContent: result
-        };
+
+    const result = await brainMCP.rotateEncryptionKey(cipherResult.data);
+    if (!result.success) {
+        console.error(result.error);
+        return 1;
     }
-);
 
-// ============================================================================
-// Setup Stdio Server
-// ============================================================================
+    console.error(`Re-encrypted memory spaces: ${result.data.join(', ')}`);
+    return 0;
+}
 
 async function main() {
-    const transport = new StdioServerTransport();
-    
-    await server.connect(transport);
-    
-    console.error('Brain-MCP MCP Server running on stdio');
+    if (transportMode === 'http') {
+        await startHttp();
+    } else {
+        await startStdio();
+    }
+
     console.error('Available tools:');
-    console.error('  - Short-Term Memory: addShortTermMemory, getShortTermMemory, clearShortTermMemory');
-    console.error('  - Long-Term Memory: addLongTermMemory, getLongTermMemory, searchLongTermMemory, updateLongTermMemory, deleteLongTermMemory, getAssociations');
-    console.error('  - Thinking Process: startThoughtProcess, addThought, branchThought, evaluateThought, completeThoughtProcess, getCurrentThoughtChain, pauseThinking, resumeThinking, switchCognitiveMode, getOptimalModeForTask, getThinkingProgress, getActiveChains, getThinkingStats');
+    console.error('  - Short-Term Memory: addShortTermMemory, getShortTermMemory, clearShortTermMemory, consolidateShortTermMemory');
+    console.error('  - Long-Term Memory: addLongTermMemory, getLongTermMemory, searchLongTermMemory, semanticSearchLongTermMemory, updateLongTermMemory, getMemoryHistory, revertMemory, listLongTermMemory, getTimeline, getMemoryTags, findDuplicateMemories, mergeMemories, deleteLongTermMemory, getAssociations, linkMemories, unlinkMemories, getConflicts, getMemoryEdges');
+    console.error('  - Memory Graph: findMemoryPath, getMemoryNeighborhood, exportSubgraph');
+    console.error('  - Forgetting: previewForgetting, forgetMemories');
+    console.error('  - Import/Export: exportMemory, importMemory');
+    console.error('  - Snapshots: createSnapshot, listSnapshots, diffSnapshot, restoreMemory');
+    console.error('  - Thinking Process: startThoughtProcess, addThought, branchThought, mergeBranch, evaluateThought, completeThoughtProcess, getCurrentThoughtChain, getThoughtTree, pauseThinking, resumeThinking, switchCognitiveMode, getOptimalModeForTask, getThinkingProgress, getActiveChains, getThinkingStats');
     console.error('  - System: saveMemory, getMemoryStats');
+    console.error('  - Memory Spaces: createMemorySpace, listMemorySpaces, useMemorySpace, renameMemorySpace, copyMemorySpace, deleteMemorySpace');
 }
 
-// Graceful shutdown
-process.on('SIGINT', async () => {
-    console.error('Shutting down gracefully...');
-    await brainMCP.shutdown();
-    process.exit(0);
-});
+// Graceful shutdown: close client sessions and the listener, then save all spaces
+let shuttingDown = false;
 
-process.on('SIGTERM', async () => {
+async function shutdown(): Promise<void> {
+    if (shuttingDown) {
+        return;
+    }
+    shuttingDown = true;
     console.error('Shutting down gracefully...');
+
+    clearInterval(sessionSweep);
+    for (const session of Array.from(httpSessions.values())) {
+        await session.transport.close();
+    }
+    httpServer?.close();
+
     await brainMCP.shutdown();
     process.exit(0);
-});
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 // Start the server
 main().catch((error) => {
     console.error('Server error:', error);
     process.exit(1);
-});
\ No newline at end of file
+});
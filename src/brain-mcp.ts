@@ -1,43 +1,27 @@
 /**
  * Brain-MCP Main Module
- * Integrates all memory components and provides unified interface
+ * Manages named memory spaces and routes operations to them
  */
 
-import { ShortTermMemory } from './short-term-memory.js';
-import { LongTermMemory } from './long-term-memory.js';
-import { StorageManager } from './storage.js';
-import { ThinkingProcess } from './thinking-process.js';
-import { mergeConfig } from './config.js';
-import {
-    MemoryConfig,
-    MCPResponse,
-    MemoryStats,
-    ShortTermMemoryEntry,
-    SearchResult,
-    SearchOptions,
-    GetMemoryOptions,
-    MemoryWithAssociations,
-    ThoughtType,
-    CognitiveMode,
-} from './types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MemorySpace } from './memory-space.js';
+import { FileCipher, loadCipher } from './encryption.js';
+import { mergeConfig, DEFAULT_SPACE, SPACES_DIRECTORY } from './config.js';
+import { MemoryConfig, MCPResponse, MemorySpaceInfo } from './types.js';
+
+const SPACE_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
 
 export class BrainMCP {
-    private shortTermMemory: ShortTermMemory;
-    private longTermMemory: LongTermMemory;
-    private storage: StorageManager;
-    private thinkingProcess: ThinkingProcess;
+    private spaces: Map<string, MemorySpace> = new Map(); // Loaded spaces
+    private opening: Map<string, Promise<MCPResponse<MemorySpace>>> = new Map(); // Spaces being initialized
+    private knownSpaces: Set<string> = new Set(); // All spaces on disk
     private config: MemoryConfig;
+    private cipher?: FileCipher; // Encryption key of all spaces, if configured
     private initialized: boolean = false;
 
     constructor(userConfig: Partial<MemoryConfig> = {}) {
         this.config = mergeConfig(userConfig);
-        this.shortTermMemory = new ShortTermMemory(this.config.shortTermCapacity);
-        this.longTermMemory = new LongTermMemory();
-        this.thinkingProcess = new ThinkingProcess(this.longTermMemory);
-        this.storage = new StorageManager(
-            this.config.storagePath,
-            this.config.enableBackup
-        );
     }
 
     // =========================================================================
@@ -46,6 +30,7 @@ export class BrainMCP {
 
     /**
      * Initialize the memory system
+     * Loads the default space and discovers the others (loaded on first use)
      */
     async init(): Promise<MCPResponse<void>> {
         try {
@@ -56,29 +41,29 @@ export class BrainMCP {
                 };
             }
 
-            // Initialize storage
-            const storageInit = await this.storage.init();
-            if (!storageInit.success) {
-                return storageInit;
+            const cipherResult = await loadCipher(this.config);
+            if (!cipherResult.success) {
+                return cipherResult;
             }
+            this.cipher = cipherResult.data;
 
-            // Load existing memories
-            const loadResult = await this.storage.load();
-            if (!loadResult.success) {
-                return {
-                    success: false,
-                    error: loadResult.error,
-                };
+            const openResult = await this.openSpace(DEFAULT_SPACE);
+            if (!openResult.success) {
+                return openResult;
             }
 
-            // Load into long-term memory
-            const nodes = loadResult.data.memories;
-            await this.longTermMemory.loadNodes(nodes);
-
-            // Start auto-save
-            this.storage.startAutoSave(this.config.autoSaveInterval, async () => {
-                return this.save();
-            });
+            this.knownSpaces.add(DEFAULT_SPACE);
+
+            try {
+                const entries = await fs.readdir(this.spacesRoot(), { withFileTypes: true });
+                for (const entry of entries) {
+                    if (entry.isDirectory() && SPACE_NAME_PATTERN.test(entry.name)) {
+                        this.knownSpaces.add(entry.name);
+                    }
+                }
+            } catch {
+                // No additional spaces yet
+            }
 
             this.initialized = true;
 
@@ -95,7 +80,7 @@ export class BrainMCP {
     }
 
     /**
-     * Manually save memory to disk
+     * Manually save all loaded spaces to disk
      */
     async save(): Promise<MCPResponse<void>> {
         try {
@@ -106,22 +91,17 @@ export class BrainMCP {
                 };
             }
 
-            // Only save if data has changed
-            if (!this.longTermMemory.checkIsDirty()) {
-                return {
-                    success: true,
-                    data: undefined,
-                };
+            for (const space of this.spaces.values()) {
+                const result = await space.save();
+                if (!result.success) {
+                    return result;
+                }
             }
 
-            const nodes = this.longTermMemory.getAllNodes();
-            const result = await this.storage.save(nodes);
-
-            if (result.success) {
-                this.longTermMemory.markClean();
-            }
-
-            return result;
+            return {
+                success: true,
+                data: undefined,
+            };
         } catch (error) {
             return {
                 success: false,
@@ -131,269 +111,372 @@ export class BrainMCP {
     }
 
     /**
-     * Get memory statistics
+     * Shutdown the memory system gracefully
      */
-    getStats(): MCPResponse<MemoryStats> {
+    async shutdown(): Promise<MCPResponse<void>> {
         try {
-            const nodes = this.longTermMemory.getAllNodes();
-            const nodeArray = Array.from(nodes.values());
-
-            let oldestMemory: string | undefined;
-            let newestMemory: string | undefined;
-
-            if (nodeArray.length > 0) {
-                const sorted = nodeArray.sort(
-                    (a, b) =>
-                        new Date(a.metadata.createdAt).getTime() -
-                        new Date(b.metadata.createdAt).getTime()
-                );
-                oldestMemory = sorted[0].metadata.createdAt;
-                newestMemory = sorted[sorted.length - 1].metadata.createdAt;
+            for (const space of this.spaces.values()) {
+                await space.shutdown();
             }
 
-            const stats: MemoryStats = {
-                shortTermCount: this.shortTermMemory.getCount(),
-                longTermCount: this.longTermMemory.getCount(),
-                totalAssociations: this.longTermMemory.getTotalAssociations(),
-                oldestMemory,
-                newestMemory,
-                cacheSize: this.estimateCacheSize(),
-            };
+            this.spaces.clear();
+            this.initialized = false;
 
             return {
                 success: true,
-                data: stats,
+                data: undefined,
             };
         } catch (error) {
             return {
                 success: false,
-                error: `Failed to get stats: ${(error as Error).message}`,
+                error: `Failed to shutdown: ${(error as Error).message}`,
             };
         }
     }
 
     /**
-     * Shutdown the memory system gracefully
+     * Re-encrypt every space with another key
+     * Other servers using the same storage must be stopped first, as they keep the old key
+     * @param cipher New key (without one the files are stored unencrypted)
      */
-    async shutdown(): Promise<MCPResponse<void>> {
+    async rotateEncryptionKey(cipher?: FileCipher): Promise<MCPResponse<string[]>> {
         try {
-            // Save any pending changes
-            await this.save();
+            if (!this.initialized) {
+                return {
+                    success: false,
+                    error: 'Memory system not initialized',
+                };
+            }
 
-            // Stop auto-save and cleanup
-            await this.storage.cleanup();
+            const names = Array.from(this.knownSpaces).sort();
+            for (const name of names) {
+                const spaceResult = await this.openSpace(name);
+                if (!spaceResult.success) {
+                    return spaceResult;
+                }
+
+                const result = await spaceResult.data.rotateEncryptionKey(cipher);
+                if (!result.success) {
+                    return result;
+                }
+            }
 
-            this.initialized = false;
+            this.cipher = cipher;
 
             return {
                 success: true,
-                data: undefined,
+                data: names,
             };
         } catch (error) {
             return {
                 success: false,
-                error: `Failed to shutdown: ${(error as Error).message}`,
+                error: `Failed to rotate encryption key: ${(error as Error).message}`,
             };
         }
     }
 
+    /**
+     * Check if initialized
+     */
+    isInitialized(): boolean {
+        return this.initialized;
+    }
+
     // =========================================================================
-    // Short-Term Memory Operations
+    // Space Access
     // =========================================================================
 
-    addShortTermMemory(text: string): MCPResponse<void> {
-        return this.shortTermMemory.add(text);
-    }
+    /**
+     * Get a memory space by name, loading it on first use
+     */
+    async getSpace(name: string = DEFAULT_SPACE): Promise<MCPResponse<MemorySpace>> {
+        if (!this.knownSpaces.has(name)) {
+            return {
+                success: false,
+                error: `Memory space not found: ${name}`,
+            };
+        }
 
-    getShortTermMemory(): MCPResponse<ShortTermMemoryEntry[]> {
-        return this.shortTermMemory.getAll();
+        return this.openSpace(name);
     }
 
-    clearShortTermMemory(): MCPResponse<void> {
-        return this.shortTermMemory.clear();
+    /**
+     * Run an operation against a memory space
+     * Fails if the change it made could not be saved
+     */
+    async inSpace<T>(
+        name: string,
+        operation: (space: MemorySpace) => MCPResponse<T> | Promise<MCPResponse<T>>
+    ): Promise<MCPResponse<T>> {
+        const spaceResult = await this.getSpace(name);
+        if (!spaceResult.success) {
+            return spaceResult;
+        }
+        return spaceResult.data.persist(operation);
     }
 
     // =========================================================================
-    // Long-Term Memory Operations
+    // Space Management
     // =========================================================================
 
-    addLongTermMemory(
-        text: string,
-        associations: string[] = []
-    ): MCPResponse<string> {
-        const result = this.longTermMemory.add(text, associations);
-        if (result.success) {
-            // 自动保存到本地存储
-            this.save();
-        }
-        return result;
-    }
-
-    getLongTermMemory(
-        id: string,
-        options: GetMemoryOptions = {}
-    ): MCPResponse<MemoryWithAssociations> {
-        return this.longTermMemory.get(id, options);
-    }
+    /**
+     * List all memory spaces
+     * @param activeSpace Space to report as active (sessions track their own)
+     */
+    listSpaces(activeSpace: string = DEFAULT_SPACE): MCPResponse<MemorySpaceInfo[]> {
+        const spaces = Array.from(this.knownSpaces)
+            .sort()
+            .map((name) => {
+                const stats = this.spaces.get(name)?.getStats();
+                return {
+                    name,
+                    loaded: stats !== undefined,
+                    active: name === activeSpace,
+                    longTermCount: stats?.success ? stats.data.longTermCount : undefined,
+                };
+            });
 
-    searchLongTermMemory(
-        keyword: string,
-        options: SearchOptions = {}
-    ): MCPResponse<SearchResult[]> {
-        const limit = options.limit ?? this.config.searchLimit;
-        return this.longTermMemory.search(keyword, { ...options, limit });
+        return {
+            success: true,
+            data: spaces,
+        };
     }
 
-    updateLongTermMemory(
-        id: string,
-        newText?: string,
-        newAssociations?: string[]
-    ): MCPResponse<void> {
-        const result = this.longTermMemory.update(id, newText, newAssociations);
-        if (result.success) {
-            // 自动保存到本地存储
-            this.save();
+    /**
+     * Create a new, empty memory space
+     */
+    async createSpace(name: string): Promise<MCPResponse<void>> {
+        const validation = this.validateNewName(name);
+        if (!validation.success) {
+            return validation;
         }
-        return result;
-    }
 
-    deleteLongTermMemory(id: string): MCPResponse<void> {
-        const result = this.longTermMemory.delete(id);
-        if (result.success) {
-            // 自动保存到本地存储
-            this.save();
+        const openResult = await this.openSpace(name);
+        if (!openResult.success) {
+            return openResult;
         }
-        return result;
-    }
 
-    getAssociations(id: string): MCPResponse<string[]> {
-        return this.longTermMemory.getAssociations(id);
+        this.knownSpaces.add(name);
+
+        return {
+            success: true,
+            data: undefined,
+        };
     }
 
-    // =========================================================================
-    // Thinking Process Operations
-    // =========================================================================
+    /**
+     * Rename a memory space (the default space cannot be renamed)
+     */
+    async renameSpace(name: string, newName: string): Promise<MCPResponse<void>> {
+        try {
+            const check = this.validateExisting(name);
+            if (!check.success) {
+                return check;
+            }
 
-    startThoughtProcess(goal: string, context?: string): MCPResponse<string> {
-        return this.thinkingProcess.startThoughtProcess(goal, context);
-    }
+            const validation = this.validateNewName(newName);
+            if (!validation.success) {
+                return validation;
+            }
 
-    addThought(
-        chainId: string,
-        thought: string,
-        type: ThoughtType,
-        parentThoughtId?: string,
-        confidence: number = 0.7
-    ): MCPResponse<string> {
-        const result = this.thinkingProcess.addThought(chainId, thought, type, parentThoughtId, confidence);
-        if (result.success) {
-            // 自动保存到本地存储
-            this.save();
-        }
-        return result;
-    }
+            await this.closeSpace(name);
+            await fs.rename(this.spacePath(name), this.spacePath(newName));
+
+            this.knownSpaces.delete(name);
+            this.knownSpaces.add(newName);
 
-    branchThought(
-        thoughtId: string,
-        newThought: string,
-        type: ThoughtType = 'hypothesis',
-        confidence: number = 0.6
-    ): MCPResponse<string> {
-        const result = this.thinkingProcess.branchThought(thoughtId, newThought, type, confidence);
-        if (result.success) {
-            // 自动保存到本地存储
-            this.save();
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to rename memory space: ${(error as Error).message}`,
+            };
         }
-        return result;
     }
 
-    evaluateThought(thoughtId: string, confidence: number, reasoning: string): MCPResponse<void> {
-        const result = this.thinkingProcess.evaluateThought(thoughtId, confidence, reasoning);
-        if (result.success) {
-            // 自动保存到本地存储
-            this.save();
+    /**
+     * Copy a memory space into a new space
+     */
+    async copySpace(name: string, newName: string): Promise<MCPResponse<void>> {
+        try {
+            const validation = this.validateNewName(newName);
+            if (!validation.success) {
+                return validation;
+            }
+
+            const sourceResult = await this.getSpace(name);
+            if (!sourceResult.success) {
+                return sourceResult;
+            }
+
+            const copyResult = await sourceResult.data.copyTo(this.spacePath(newName));
+            if (!copyResult.success) {
+                return copyResult;
+            }
+
+            this.knownSpaces.add(newName);
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to copy memory space: ${(error as Error).message}`,
+            };
         }
-        return result;
     }
 
-    completeThoughtProcess(chainId: string, conclusion: string): MCPResponse<void> {
-        const result = this.thinkingProcess.completeThoughtProcess(chainId, conclusion);
-        if (result.success) {
-            // 自动保存到本地存储
-            this.save();
+    /**
+     * Delete a memory space and its stored files (the default space cannot be deleted)
+     */
+    async deleteSpace(name: string): Promise<MCPResponse<void>> {
+        try {
+            const check = this.validateExisting(name);
+            if (!check.success) {
+                return check;
+            }
+
+            await this.closeSpace(name);
+            await fs.rm(this.spacePath(name), { recursive: true, force: true });
+
+            this.knownSpaces.delete(name);
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to delete memory space: ${(error as Error).message}`,
+            };
         }
-        return result;
     }
 
-    getCurrentThoughtChain(chainId: string) {
-        return this.thinkingProcess.getCurrentThoughtChain(chainId);
-    }
+    // =========================================================================
+    // Utility Methods
+    // =========================================================================
 
-    pauseThinking(chainId: string, reason: string): MCPResponse<void> {
-        const result = this.thinkingProcess.pauseThinking(chainId, reason);
-        if (result.success) {
-            // 自动保存到本地存储
-            this.save();
+    /**
+     * Load and initialize a space if it is not loaded yet
+     * Concurrent calls for the same space share one initialization
+     * @private
+     */
+    private async openSpace(name: string): Promise<MCPResponse<MemorySpace>> {
+        const loaded = this.spaces.get(name);
+        if (loaded) {
+            return {
+                success: true,
+                data: loaded,
+            };
         }
-        return result;
-    }
 
-    resumeThinking(chainId: string): MCPResponse<void> {
-        const result = this.thinkingProcess.resumeThinking(chainId);
-        if (result.success) {
-            // 自动保存到本地存储
-            this.save();
+        let opening = this.opening.get(name);
+        if (!opening) {
+            opening = this.initSpace(name).finally(() => this.opening.delete(name));
+            this.opening.set(name, opening);
         }
-        return result;
+        return opening;
     }
 
-    switchCognitiveMode(mode: CognitiveMode, chainId?: string): MCPResponse<void> {
-        const result = this.thinkingProcess.switchCognitiveMode(mode, chainId);
-        if (result.success) {
-            // 自动保存到本地存储
-            this.save();
+    /**
+     * Create and initialize a space, registering it once it is ready
+     * @private
+     */
+    private async initSpace(name: string): Promise<MCPResponse<MemorySpace>> {
+        const space = new MemorySpace(
+            name,
+            {
+                ...this.config,
+                storagePath: this.spacePath(name),
+            },
+            this.cipher
+        );
+
+        const initResult = await space.init();
+        if (!initResult.success) {
+            return initResult;
         }
-        return result;
-    }
 
-    getOptimalModeForTask(taskType: string): MCPResponse<CognitiveMode> {
-        return this.thinkingProcess.getOptimalModeForTask(taskType);
-    }
+        this.spaces.set(name, space);
 
-    getThinkingProgress(chainId: string) {
-        return this.thinkingProcess.getThinkingProgress(chainId);
+        return {
+            success: true,
+            data: space,
+        };
     }
 
-    getActiveChains() {
-        return this.thinkingProcess.getActiveChains();
+    /**
+     * Save and unload a space
+     * @private
+     */
+    private async closeSpace(name: string): Promise<void> {
+        const space = this.spaces.get(name);
+        if (space) {
+            await space.shutdown();
+            this.spaces.delete(name);
+        }
     }
 
-    getThinkingStats() {
-        return this.thinkingProcess.getThinkingStats();
+    /**
+     * Storage directory of a space
+     * The default space lives in the storage root so existing data keeps working
+     * @private
+     */
+    private spacePath(name: string): string {
+        return name === DEFAULT_SPACE
+            ? this.config.storagePath
+            : path.join(this.spacesRoot(), name);
     }
 
-    // =========================================================================
-    // Utility Methods
-    // =========================================================================
+    private spacesRoot(): string {
+        return path.join(this.config.storagePath, SPACES_DIRECTORY);
+    }
 
-    /**
-     * Estimate cache size in bytes (rough approximation)
-     */
-    private estimateCacheSize(): number {
-        const nodes = this.longTermMemory.getAllNodes();
-        let size = 0;
+    private validateNewName(name: string): MCPResponse<void> {
+        if (!SPACE_NAME_PATTERN.test(name)) {
+            return {
+                success: false,
+                error: 'Space names may only contain letters, digits, "-" and "_" (max 64 characters)',
+            };
+        }
 
-        for (const node of nodes.values()) {
-            size += JSON.stringify(node).length * 2; // Rough estimate (UTF-16)
+        if (this.knownSpaces.has(name)) {
+            return {
+                success: false,
+                error: `Memory space already exists: ${name}`,
+            };
         }
 
-        return size;
+        return {
+            success: true,
+            data: undefined,
+        };
     }
 
-    /**
-     * Check if initialized
-     */
-    isInitialized(): boolean {
-        return this.initialized;
+    private validateExisting(name: string): MCPResponse<void> {
+        if (name === DEFAULT_SPACE) {
+            return {
+                success: false,
+                error: 'The default memory space cannot be renamed or deleted',
+            };
+        }
+
+        if (!this.knownSpaces.has(name)) {
+            return {
+                success: false,
+                error: `Memory space not found: ${name}`,
+            };
+        }
+
+        return {
+            success: true,
+            data: undefined,
+        };
     }
 }
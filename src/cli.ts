@@ -0,0 +1,393 @@
+/**
+ * Command Line Configuration
+ * Layers defaults, config file, environment variables and CLI flags
+ */
+
+import { parseArgs } from 'util';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as z from 'zod/v4';
+import { parse as parseYaml } from 'yaml';
+import { mergeConfig, memoryConfigSchema, formatIssues, validateConfig } from './config.js';
+import { MemoryConfig, MCPResponse, ExportFormat, ImportStrategy } from './types.js';
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface ServerOptions {
+    transport: TransportMode;
+    port: number;
+    host: string;
+    authToken?: string; // Bearer token required by the HTTP transport
+}
+
+export type CliCommand = 'serve' | 'export' | 'import' | 'rotate-key';
+
+// Options of the export/import subcommands
+export interface TransferOptions {
+    format: ExportFormat;
+    path?: string; // Output path for export (stdout for single-file formats if omitted), input path for import
+    strategy?: ImportStrategy;
+    space?: string;
+}
+
+// New key of the rotate-key subcommand (the current one comes from the memory settings)
+export interface KeyRotationOptions {
+    key?: string;
+    keyFile?: string;
+}
+
+export interface CliOptions {
+    command: CliCommand;
+    config: MemoryConfig;
+    server: ServerOptions;
+    transfer?: TransferOptions;
+    rotation?: KeyRotationOptions;
+    printConfig: boolean;
+    help: boolean;
+}
+
+const DEFAULT_SERVER_OPTIONS: ServerOptions = {
+    transport: 'stdio',
+    port: 3000,
+    host: '127.0.0.1',
+};
+
+const serverOptionsSchema = z.strictObject({
+    transport: z.enum(['stdio', 'http']),
+    port: z.number().int().min(1).max(65535),
+    host: z.string().min(1),
+    authToken: z.string().min(1).optional(),
+});
+
+const transferOptionsSchema = z.object({
+    format: z.enum(['jsonl', 'markdown', 'graphml', 'csv'], {
+        error: '--format must be one of jsonl, markdown, graphml, csv',
+    }),
+    path: z.string().min(1).optional(),
+    strategy: z.enum(['skip', 'overwrite', 'rename']).optional(),
+    space: z.string().min(1).optional(),
+});
+
+// A config file holds memory settings at the top level plus an optional `server` section
+const configFileSchema = memoryConfigSchema.partial().extend({
+    server: serverOptionsSchema.partial().optional(),
+});
+
+// Environment variable names kept from before every field got one
+const LEGACY_ENV_NAMES: Partial<Record<keyof MemoryConfig, string>> = {
+    persistShortTermMemory: 'BRAIN_MCP_PERSIST_SHORT_TERM',
+};
+
+const CONFIG_KEYS = Object.keys(memoryConfigSchema.shape) as (keyof MemoryConfig)[];
+
+// Secrets have no flag: command lines show up in `ps` and shell history
+const SECRET_KEYS: (keyof MemoryConfig)[] = ['encryptionKey'];
+const FLAG_KEYS = CONFIG_KEYS.filter((key) => !SECRET_KEYS.includes(key));
+
+export const USAGE = `Usage: brain-mcp [options]
+       brain-mcp export --format <format> [--output <path>] [--space <name>] [options]
+       brain-mcp import --format <format> --input <path> [--strategy <strategy>] [--space <name>] [options]
+       brain-mcp rotate-key --new-key-file <path> [options]
+
+Options:
+  --config <path>             JSON or YAML config file (env: BRAIN_MCP_CONFIG)
+  --transport <stdio|http>    Transport to serve (default: stdio)
+  --port <number>             HTTP port (default: 3000)
+  --host <address>            HTTP listen address (default: 127.0.0.1)
+  --print-config              Print the resolved configuration and exit
+  -h, --help                  Show this help
+
+Export/import:
+  --format <format>           jsonl, markdown, graphml or csv
+  --output <path>             Export target (file for jsonl/graphml, directory for markdown/csv;
+                              single-file formats go to stdout if omitted)
+  --input <path>              Import source file or directory
+  --strategy <strategy>       Existing IDs on import: skip (default), overwrite or rename
+  --space <name>              Memory space to export from or import into (default: default)
+
+Key rotation:
+  --new-key-file <path>       File holding the new encryption key (env: BRAIN_MCP_NEW_ENCRYPTION_KEY);
+                              every space is re-encrypted, starting from the current key if one is set
+
+Every memory setting can be set with a flag named after it, e.g.
+  --storage-path <path>, --auto-save-interval <ms>, --search-limit <n>,
+  --enable-backup / --no-enable-backup
+and with an environment variable, e.g. BRAIN_MCP_SEARCH_LIMIT.
+The encryption key has no flag: use --encryption-key-file or BRAIN_MCP_ENCRYPTION_KEY.
+
+Precedence: flags > environment variables > config file > defaults`;
+
+/**
+ * shortTermTTL -> short-term-ttl
+ */
+function toFlagName(key: string): string {
+    return key.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+/**
+ * shortTermTTL -> BRAIN_MCP_SHORT_TERM_TTL
+ */
+function toEnvName(key: string): string {
+    return `BRAIN_MCP_${toFlagName(key).replace(/-/g, '_').toUpperCase()}`;
+}
+
+/**
+ * Convert a flag or environment value to the type the field expects
+ * Type errors are left for schema validation to report
+ */
+function coerceValue(schema: z.ZodType, raw: string): unknown {
+    const inner = schema instanceof z.ZodOptional ? schema.unwrap() : schema;
+
+    if (inner instanceof z.ZodNumber) {
+        const value = Number(raw);
+        return raw.trim() !== '' && !Number.isNaN(value) ? value : raw;
+    }
+
+    if (inner instanceof z.ZodBoolean) {
+        if (['true', '1', 'yes'].includes(raw.toLowerCase())) {
+            return true;
+        }
+        if (['false', '0', 'no'].includes(raw.toLowerCase())) {
+            return false;
+        }
+    }
+
+    return raw;
+}
+
+/**
+ * Read a JSON or YAML config file (by extension; YAML also accepts plain JSON)
+ * Relative storage and key file paths are resolved against the file's directory
+ */
+async function loadConfigFile(
+    filePath: string
+): Promise<MCPResponse<{ config: Partial<MemoryConfig>; server: Partial<ServerOptions> }>> {
+    let content: unknown;
+    try {
+        const text = await fs.readFile(filePath, 'utf-8');
+        content = /\.json$/i.test(filePath) ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+        return {
+            success: false,
+            error: `Failed to read config file ${filePath}: ${(error as Error).message}`,
+        };
+    }
+
+    const result = configFileSchema.safeParse(content ?? {});
+    if (!result.success) {
+        return {
+            success: false,
+            error: `Invalid config file ${filePath}:\n${formatIssues(result.error)}`,
+        };
+    }
+
+    const { server, ...config } = result.data;
+    if (config.storagePath) {
+        config.storagePath = path.resolve(path.dirname(filePath), config.storagePath);
+    }
+    if (config.encryptionKeyFile) {
+        config.encryptionKeyFile = path.resolve(path.dirname(filePath), config.encryptionKeyFile);
+    }
+
+    return {
+        success: true,
+        data: { config, server: server ?? {} },
+    };
+}
+
+/**
+ * Memory settings from BRAIN_MCP_* environment variables
+ */
+function configFromEnv(env: NodeJS.ProcessEnv): Partial<MemoryConfig> {
+    const config: Record<string, unknown> = {};
+
+    for (const key of CONFIG_KEYS) {
+        const raw = env[toEnvName(key)] ?? (LEGACY_ENV_NAMES[key] ? env[LEGACY_ENV_NAMES[key]!] : undefined);
+        if (raw !== undefined && raw !== '') {
+            config[key] = coerceValue(memoryConfigSchema.shape[key], raw);
+        }
+    }
+
+    // Configuring an embedding server implies using it
+    if (config.embeddingEndpoint !== undefined && config.embeddingProvider === undefined) {
+        config.embeddingProvider = 'http';
+    }
+
+    return config as Partial<MemoryConfig>;
+}
+
+/**
+ * Resolve the full configuration from all sources
+ */
+export async function resolveOptions(
+    argv: string[] = process.argv.slice(2),
+    env: NodeJS.ProcessEnv = process.env
+): Promise<MCPResponse<CliOptions>> {
+    // Flags: one per memory setting, booleans also get a --no-<flag> form
+    const options: Record<string, { type: 'string' | 'boolean'; short?: string }> = {
+        config: { type: 'string' },
+        transport: { type: 'string' },
+        port: { type: 'string' },
+        host: { type: 'string' },
+        'print-config': { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        format: { type: 'string' },
+        output: { type: 'string' },
+        input: { type: 'string' },
+        strategy: { type: 'string' },
+        space: { type: 'string' },
+        'new-key-file': { type: 'string' },
+    };
+    for (const key of FLAG_KEYS) {
+        if (memoryConfigSchema.shape[key] instanceof z.ZodBoolean) {
+            options[toFlagName(key)] = { type: 'boolean' };
+            options[`no-${toFlagName(key)}`] = { type: 'boolean' };
+        } else {
+            options[toFlagName(key)] = { type: 'string' };
+        }
+    }
+
+    let values: Record<string, string | boolean | undefined>;
+    let positionals: string[];
+    try {
+        const parsed = parseArgs({ args: argv, options, strict: true, allowPositionals: true });
+        values = parsed.values as Record<string, string | boolean | undefined>;
+        positionals = parsed.positionals;
+    } catch (error) {
+        return {
+            success: false,
+            error: `${(error as Error).message}\n\n${USAGE}`,
+        };
+    }
+
+    const command = (positionals[0] ?? 'serve') as CliCommand;
+    if (positionals.length > 1 || !['serve', 'export', 'import', 'rotate-key'].includes(command)) {
+        return {
+            success: false,
+            error: `Unexpected argument: ${positionals.join(' ')}\n\n${USAGE}`,
+        };
+    }
+
+    if (values.help) {
+        return {
+            success: true,
+            data: {
+                command,
+                config: mergeConfig(),
+                server: DEFAULT_SERVER_OPTIONS,
+                printConfig: false,
+                help: true,
+            },
+        };
+    }
+
+    let rotation: KeyRotationOptions | undefined;
+    if (command === 'rotate-key') {
+        rotation = {
+            key: env.BRAIN_MCP_NEW_ENCRYPTION_KEY || undefined,
+            keyFile: values['new-key-file'] as string | undefined,
+        };
+        if (!rotation.key && !rotation.keyFile) {
+            return {
+                success: false,
+                error: 'Invalid rotate-key options:\n--new-key-file or BRAIN_MCP_NEW_ENCRYPTION_KEY is required',
+            };
+        }
+    }
+
+    let transfer: TransferOptions | undefined;
+    if (command === 'export' || command === 'import') {
+        const transferResult = transferOptionsSchema.safeParse({
+            format: values.format,
+            path: command === 'export' ? values.output : values.input,
+            strategy: values.strategy,
+            space: values.space,
+        });
+        if (!transferResult.success) {
+            return {
+                success: false,
+                error: `Invalid ${command} options:\n${formatIssues(transferResult.error)}`,
+            };
+        }
+        if (command === 'import' && !transferResult.data.path) {
+            return {
+                success: false,
+                error: 'Invalid import options:\n--input is required',
+            };
+        }
+        transfer = transferResult.data;
+    }
+
+    // Config file
+    let fileConfig: Partial<MemoryConfig> = {};
+    let fileServer: Partial<ServerOptions> = {};
+    const configPath = (values.config as string | undefined) ?? env.BRAIN_MCP_CONFIG;
+    if (configPath) {
+        const fileResult = await loadConfigFile(configPath);
+        if (!fileResult.success) {
+            return fileResult;
+        }
+        fileConfig = fileResult.data.config;
+        fileServer = fileResult.data.server;
+    }
+
+    // CLI flags
+    const flagConfig: Record<string, unknown> = {};
+    for (const key of FLAG_KEYS) {
+        const flag = toFlagName(key);
+        if (values[`no-${flag}`]) {
+            flagConfig[key] = false;
+        } else if (values[flag] !== undefined) {
+            const value = values[flag];
+            flagConfig[key] = typeof value === 'string' ? coerceValue(memoryConfigSchema.shape[key], value) : value;
+        }
+    }
+
+    const configResult = validateConfig(
+        mergeConfig({
+            ...fileConfig,
+            ...configFromEnv(env),
+            ...(flagConfig as Partial<MemoryConfig>),
+        })
+    );
+    if (!configResult.success) {
+        return configResult;
+    }
+
+    const serverCandidate = {
+        ...DEFAULT_SERVER_OPTIONS,
+        ...fileServer,
+        ...Object.fromEntries(
+            Object.entries({
+                transport: values.transport ?? env.BRAIN_MCP_TRANSPORT,
+                port: (values.port as string | undefined) ?? env.BRAIN_MCP_PORT,
+                host: values.host ?? env.BRAIN_MCP_HOST,
+                authToken: env.BRAIN_MCP_AUTH_TOKEN,
+            }).filter(([, value]) => value !== undefined && value !== '')
+        ),
+    };
+    if (typeof serverCandidate.port === 'string') {
+        serverCandidate.port = coerceValue(z.number(), serverCandidate.port) as number;
+    }
+
+    const serverResult = serverOptionsSchema.safeParse(serverCandidate);
+    if (!serverResult.success) {
+        return {
+            success: false,
+            error: `Invalid server options:\n${formatIssues(serverResult.error)}`,
+        };
+    }
+
+    return {
+        success: true,
+        data: {
+            command,
+            config: configResult.data,
+            server: serverResult.data,
+            transfer,
+            rotation,
+            printConfig: values['print-config'] === true,
+            help: false,
+        },
+    };
+}
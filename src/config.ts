@@ -3,8 +3,9 @@
  * Default settings and configuration management
  */
 
-import { MemoryConfig } from './types.js';
+import { MemoryConfig, MCPResponse } from './types.js';
 import * as path from 'path';
+import * as z from 'zod/v4';
 
 /**
  * Default configuration for the memory system
@@ -13,6 +14,12 @@ export const DEFAULT_CONFIG: MemoryConfig = {
     // Short-term memory capacity (number of entries)
     shortTermCapacity: 100,
 
+    // Default time-to-live for short-term entries in milliseconds (0 = never expire)
+    shortTermTTL: 0,
+
+    // Save the short-term buffer alongside long-term memory
+    persistShortTermMemory: false,
+
     // Storage path for persistent data
     storagePath: path.join(process.cwd(), 'memory_data'),
 
@@ -27,6 +34,58 @@ export const DEFAULT_CONFIG: MemoryConfig = {
 
     // Enable automatic backup before saving
     enableBackup: true,
+
+    // Embedding provider for semantic search ('hash' works offline, 'http' calls embeddingEndpoint)
+    embeddingProvider: 'hash',
+
+    // Vector size produced by the embedding provider
+    embeddingDimensions: 256,
+
+    // Time for an unreinforced memory to lose half its strength (30 days)
+    decayHalfLife: 30 * 24 * 60 * 60 * 1000,
+
+    // Each access multiplies memory stability by (1 + reinforcementFactor)
+    reinforcementFactor: 0.5,
+
+    // Share of memory strength in search ranking (0 = ignore decay)
+    decayRankingWeight: 0.3,
+
+    // Unlinked memories weaker than this are forgotten
+    forgetThreshold: 0.05,
+
+    // Interval between automatic forgetting passes (0 = disabled)
+    forgetInterval: 0,
+
+    // What forgetting does with weak memories
+    forgetAction: 'archive',
+
+    // How memories are stored ('file' = memory.brain, 'markdown' = one note per memory, 'sqlite' = memory.db)
+    storageBackend: 'file',
+
+    // Pick up edits made to the storage directory while the server runs
+    watchStorage: true,
+
+    // Fold the journal into memory.brain once it grows past this size in bytes (1MB)
+    journalMaxSize: 1024 * 1024,
+
+    // How long a save waits for another process to release the storage lock (5 seconds)
+    lockTimeout: 5 * 1000,
+
+    // Earlier versions kept per memory for getMemoryHistory / revertMemory
+    historyLimit: 20,
+
+    // Word overlap (0-1) at which addLongTermMemory reports existing memories as near-duplicates; the memory
+    // is still added unless rejectDuplicate is set (0 = off)
+    duplicateThreshold: 0.85,
+
+    // Minimum time between automatic snapshots (1 hour, 0 = only manual snapshots)
+    snapshotInterval: 60 * 60 * 1000,
+
+    // Number of snapshots kept
+    snapshotCount: 24,
+
+    // Snapshots older than this are removed (30 days, 0 = keep regardless of age)
+    snapshotMaxAge: 30 * 24 * 60 * 60 * 1000,
 };
 
 /**
@@ -36,8 +95,61 @@ export const STORAGE_FILES = {
     memory: 'memory.brain',
     backup: 'memory.brain.backup',
     lock: 'memory.brain.lock',
+    journal: 'memory.brain.journal',
+    vectors: 'memory.vectors',
+    database: 'memory.db',
+};
+
+/**
+ * Storage lock timing (milliseconds)
+ * The holder refreshes the lock file's modification time while writing; a lock whose
+ * heartbeat stopped, or whose owner process is gone, is taken over
+ */
+export const LOCK_TIMING = {
+    heartbeatInterval: 1000,
+    staleAfter: 10 * 1000,
+    retryDelay: 50,
+};
+
+/**
+ * HTTP transport limits (bytes, milliseconds)
+ * Sessions without an open request for `sessionIdleTimeout` are closed, in case the
+ * client went away without ending its session
+ */
+export const HTTP_LIMITS = {
+    maxBodySize: 10 * 1024 * 1024,
+    sessionIdleTimeout: 30 * 60 * 1000,
+    sessionSweepInterval: 60 * 1000,
+};
+
+/**
+ * Markdown vault layout
+ * Notes live anywhere in the vault; state that does not belong in notes is kept in `.brain/`
+ */
+export const VAULT_FILES = {
+    directory: '.brain',
+    state: 'state.json',
+    vectors: 'memory.vectors',
 };
 
+/**
+ * Memory spaces
+ * The default space is stored in the storage root, others in `spaces/<name>/`
+ */
+export const DEFAULT_SPACE = 'default';
+export const SPACES_DIRECTORY = 'spaces';
+
+/**
+ * Point-in-time snapshots of a memory space, kept in `snapshots/` inside its storage directory
+ */
+export const SNAPSHOTS_DIRECTORY = 'snapshots';
+
+/**
+ * Current storage format version
+ * v1: memories only, v2: adds thinking state
+ */
+export const STORAGE_VERSION = 2;
+
 /**
  * Memory safety thresholds
  */
@@ -61,3 +173,84 @@ export function mergeConfig(userConfig: Partial<MemoryConfig> = {}): MemoryConfi
         ...userConfig,
     };
 }
+
+/**
+ * Validation rules for every configuration field
+ * Unknown fields are rejected so typos in config files do not go unnoticed
+ */
+export const memoryConfigSchema = z.strictObject({
+    shortTermCapacity: z.number().int().min(1),
+    shortTermTTL: z.number().int().min(0),
+    persistShortTermMemory: z.boolean(),
+    storagePath: z.string().min(1),
+    autoSaveInterval: z.number().int().min(0),
+    searchLimit: z.number().int().min(1),
+    maxAssociationDepth: z.number().int().min(0),
+    enableBackup: z.boolean(),
+    embeddingProvider: z.enum(['hash', 'http']),
+    embeddingEndpoint: z.url().optional(),
+    embeddingModel: z.string().min(1).optional(),
+    embeddingDimensions: z.number().int().min(1),
+    decayHalfLife: z.number().min(0),
+    reinforcementFactor: z.number().min(0),
+    decayRankingWeight: z.number().min(0).max(1),
+    forgetThreshold: z.number().min(0).max(1),
+    forgetInterval: z.number().int().min(0),
+    forgetAction: z.enum(['archive', 'delete']),
+    storageBackend: z.enum(['file', 'markdown', 'sqlite']),
+    watchStorage: z.boolean(),
+    journalMaxSize: z.number().int().min(0),
+    lockTimeout: z.number().int().min(0),
+    historyLimit: z.number().int().min(0),
+    duplicateThreshold: z.number().min(0).max(1),
+    encryptionKey: z.string().min(1).optional(),
+    encryptionKeyFile: z.string().min(1).optional(),
+    snapshotInterval: z.number().int().min(0),
+    snapshotCount: z.number().int().min(1),
+    snapshotMaxAge: z.number().int().min(0),
+});
+
+/**
+ * Format validation issues as one `field: problem` line each
+ */
+export function formatIssues(error: z.ZodError, prefix: string = ''): string {
+    return error.issues
+        .map((issue) => {
+            const field = [prefix, ...issue.path.map(String)].filter(Boolean).join('.');
+            return field ? `${field}: ${issue.message}` : issue.message;
+        })
+        .join('\n');
+}
+
+/**
+ * Validate a complete configuration
+ */
+export function validateConfig(config: unknown): MCPResponse<MemoryConfig> {
+    const result = memoryConfigSchema.safeParse(config);
+    if (!result.success) {
+        return {
+            success: false,
+            error: `Invalid configuration:\n${formatIssues(result.error)}`,
+        };
+    }
+
+    if (result.data.embeddingProvider === 'http' && !result.data.embeddingEndpoint) {
+        return {
+            success: false,
+            error: 'Invalid configuration:\nembeddingEndpoint: required when embeddingProvider is "http"',
+        };
+    }
+
+    const encrypted = result.data.encryptionKey || result.data.encryptionKeyFile;
+    if (encrypted && result.data.storageBackend !== 'file') {
+        return {
+            success: false,
+            error: 'Invalid configuration:\nencryptionKey: encryption is only supported by the "file" storage backend',
+        };
+    }
+
+    return {
+        success: true,
+        data: result.data,
+    };
+}
@@ -0,0 +1,47 @@
+/**
+ * Memory Decay Model
+ * Spaced-repetition style strength computed from access metadata
+ */
+
+import { LongTermMemoryMetadata, MemoryConfig } from './types.js';
+
+// Access counts beyond this no longer extend stability (avoids overflow)
+const MAX_REINFORCEMENTS = 20;
+
+export interface DecayPolicy {
+    halfLife: number; // milliseconds until an unreinforced memory drops to half strength
+    reinforcementFactor: number; // Stability growth per access
+}
+
+/**
+ * Extract the decay policy from the configuration
+ */
+export function decayPolicyFromConfig(config: MemoryConfig): DecayPolicy {
+    return {
+        halfLife: config.decayHalfLife,
+        reinforcementFactor: config.reinforcementFactor,
+    };
+}
+
+/**
+ * Compute memory strength in the range 0-1
+ * Strength halves every `stability` milliseconds since the last access, and each
+ * access multiplies stability by (1 + reinforcementFactor), so frequently
+ * recalled memories fade more slowly
+ */
+export function computeStrength(
+    metadata: LongTermMemoryMetadata,
+    policy: DecayPolicy,
+    now: number = Date.now()
+): number {
+    const lastAccessed = new Date(metadata.lastAccessed).getTime();
+    if (Number.isNaN(lastAccessed) || policy.halfLife <= 0) {
+        return 1;
+    }
+
+    const reinforcements = Math.min(metadata.accessCount, MAX_REINFORCEMENTS);
+    const stability = policy.halfLife * Math.pow(1 + policy.reinforcementFactor, reinforcements);
+    const elapsed = Math.max(0, now - lastAccessed);
+
+    return Math.pow(0.5, elapsed / stability);
+}
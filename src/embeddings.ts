@@ -0,0 +1,173 @@
+/**
+ * Embedding Providers
+ * Turn memory text into vectors for semantic search
+ */
+
+import { tokenize } from './search-index.js';
+import { MemoryConfig } from './types.js';
+
+export interface EmbeddingProvider {
+    id: string; // Identifies the provider/model; vectors from different ids are not comparable
+    dimensions: number;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Scale a vector to unit length (zero vectors are returned unchanged)
+ */
+export function normalizeVector(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+/**
+ * Cosine similarity of two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Deterministic offline embeddings using the hashing trick
+ * Word tokens and character trigrams are hashed into a fixed number of signed buckets,
+ * so texts sharing words or word fragments end up close together
+ */
+export class HashedNgramEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+    readonly dimensions: number;
+
+    constructor(dimensions: number = 256) {
+        this.dimensions = dimensions;
+        this.id = `hashed-ngram-${dimensions}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map((text) => this.embedOne(text));
+    }
+
+    private embedOne(text: string): number[] {
+        const vector = new Array<number>(this.dimensions).fill(0);
+
+        const addFeature = (feature: string, weight: number) => {
+            const hash = fnv1a(feature);
+            const bucket = hash % this.dimensions;
+            const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+            vector[bucket] += sign * weight;
+        };
+
+        for (const token of tokenize(text)) {
+            addFeature(`w:${token}`, 1);
+
+            const padded = `#${token}#`;
+            for (let i = 0; i + 3 <= padded.length; i++) {
+                addFeature(`c:${padded.slice(i, i + 3)}`, 0.5);
+            }
+        }
+
+        return normalizeVector(vector);
+    }
+}
+
+/**
+ * Adapter for a local HTTP embedding server
+ * Sends `{ model, input }` and accepts OpenAI-style `{ data: [{ embedding }] }`
+ * or `{ embeddings: [...] }` responses
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+    readonly dimensions: number;
+    private endpoint: string;
+    private model?: string;
+    private batchSize: number;
+
+    constructor(endpoint: string, dimensions: number, model?: string, batchSize: number = 64) {
+        this.endpoint = endpoint;
+        this.dimensions = dimensions;
+        this.model = model;
+        this.batchSize = batchSize;
+        this.id = `http:${endpoint}:${model ?? 'default'}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const vectors: number[][] = [];
+
+        for (let i = 0; i < texts.length; i += this.batchSize) {
+            const batch = texts.slice(i, i + this.batchSize);
+            vectors.push(...(await this.request(batch)));
+        }
+
+        return vectors;
+    }
+
+    private async request(input: string[]): Promise<number[][]> {
+        const response = await fetch(this.endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ model: this.model, input }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Embedding server responded with ${response.status} ${response.statusText}`);
+        }
+
+        const body = (await response.json()) as {
+            data?: { embedding: number[] }[];
+            embeddings?: number[][];
+        };
+
+        const vectors = body.embeddings ?? body.data?.map((item) => item.embedding);
+        if (!vectors || vectors.length !== input.length) {
+            throw new Error('Embedding server returned an unexpected response');
+        }
+
+        for (const vector of vectors) {
+            if (vector.length !== this.dimensions) {
+                throw new Error(
+                    `Embedding dimension mismatch: expected ${this.dimensions}, got ${vector.length}`
+                );
+            }
+        }
+
+        return vectors.map(normalizeVector);
+    }
+}
+
+/**
+ * Create the embedding provider selected in the configuration
+ */
+export function createEmbeddingProvider(config: MemoryConfig): EmbeddingProvider {
+    if (config.embeddingProvider === 'http') {
+        if (!config.embeddingEndpoint) {
+            throw new Error('embeddingEndpoint is required for the http embedding provider');
+        }
+        return new HttpEmbeddingProvider(
+            config.embeddingEndpoint,
+            config.embeddingDimensions,
+            config.embeddingModel
+        );
+    }
+
+    return new HashedNgramEmbeddingProvider(config.embeddingDimensions);
+}
@@ -0,0 +1,145 @@
+/**
+ * Encryption at Rest
+ * AES-256-GCM for the files written by the file storage backend, using Node's built-in crypto
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import * as fs from 'fs/promises';
+import { MemoryConfig, MCPResponse } from './types.js';
+
+// Every encrypted file (and journal line) is one line: prefix + base64(iv | auth tag | ciphertext)
+const SEALED_PREFIX = 'brain-enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export class FileCipher {
+    private key: Buffer;
+
+    constructor(key: Buffer) {
+        this.key = key;
+    }
+
+    /**
+     * Encrypt text into a single line
+     */
+    seal(text: string): string {
+        const iv = randomBytes(IV_LENGTH);
+        const cipher = createCipheriv(ALGORITHM, this.key, iv);
+        const data = Buffer.concat([cipher.update(text, 'utf-8'), cipher.final()]);
+        return SEALED_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), data]).toString('base64');
+    }
+
+    /**
+     * Decrypt a sealed line
+     * Throws if the key is wrong or the data was modified
+     */
+    open(sealed: string): string {
+        const raw = Buffer.from(sealed.slice(SEALED_PREFIX.length).trim(), 'base64');
+        if (raw.length < IV_LENGTH + TAG_LENGTH) {
+            throw new Error('Encrypted data is truncated');
+        }
+
+        const decipher = createDecipheriv(ALGORITHM, this.key, raw.subarray(0, IV_LENGTH));
+        decipher.setAuthTag(raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+        return Buffer.concat([decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf-8');
+    }
+}
+
+/**
+ * Check if stored text was written encrypted
+ */
+export function isSealed(text: string): boolean {
+    return text.startsWith(SEALED_PREFIX);
+}
+
+/**
+ * Prepare text for writing: encrypted with a cipher, unchanged without one
+ */
+export function encodeStored(text: string, cipher?: FileCipher): string {
+    return cipher ? cipher.seal(text) : text;
+}
+
+/**
+ * Read back stored text, which must match the configured encryption
+ * @param name File name used in error messages
+ */
+export function decodeStored(text: string, cipher: FileCipher | undefined, name: string): string {
+    if (!isSealed(text)) {
+        if (cipher) {
+            throw new Error(`${name} is not encrypted; run "brain-mcp rotate-key" without the current key to encrypt existing storage`);
+        }
+        return text;
+    }
+
+    if (!cipher) {
+        throw new Error(`${name} is encrypted; set encryptionKey or encryptionKeyFile`);
+    }
+
+    try {
+        return cipher.open(text);
+    } catch {
+        throw new Error(`Cannot decrypt ${name}: wrong encryption key or damaged file`);
+    }
+}
+
+/**
+ * Parse a key given as 64 hex characters or as base64 of 32 bytes
+ */
+export function parseKey(raw: string): MCPResponse<Buffer> {
+    const value = raw.trim();
+    const hex = /^[0-9a-f]{64}$/i.test(value);
+    const key = Buffer.from(value, hex ? 'hex' : 'base64');
+
+    // Buffer.from skips invalid base64 characters, so check the round trip
+    if (key.length !== KEY_LENGTH || (!hex && key.toString('base64') !== value)) {
+        return {
+            success: false,
+            error: `Encryption key must be ${KEY_LENGTH} bytes, given as 64 hex characters or base64`,
+        };
+    }
+
+    return {
+        success: true,
+        data: key,
+    };
+}
+
+/**
+ * Build the cipher for the configured key (encryptionKey, or else encryptionKeyFile)
+ * Returns undefined when encryption is not configured
+ */
+export async function loadCipher(
+    config: Pick<MemoryConfig, 'encryptionKey' | 'encryptionKeyFile'>
+): Promise<MCPResponse<FileCipher | undefined>> {
+    let raw = config.encryptionKey;
+
+    if (!raw && config.encryptionKeyFile) {
+        try {
+            raw = await fs.readFile(config.encryptionKeyFile, 'utf-8');
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to read encryption key file ${config.encryptionKeyFile}: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    if (!raw) {
+        return {
+            success: true,
+            data: undefined,
+        };
+    }
+
+    const keyResult = parseKey(raw);
+    if (!keyResult.success) {
+        return keyResult;
+    }
+
+    return {
+        success: true,
+        data: new FileCipher(keyResult.data),
+    };
+}
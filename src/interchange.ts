@@ -0,0 +1,913 @@
+/**
+ * Memory Interchange
+ * Portable export/import formats for the long-term memory graph
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { DEFAULT_RELATION } from './long-term-memory.js';
+import {
+    AssociationEdge,
+    ExportFile,
+    ExportFormat,
+    LongTermMemoryMetadata,
+    LongTermMemoryNode,
+    PropertyValue,
+} from './types.js';
+
+const JSONL_FILE = 'memories.jsonl';
+const GRAPHML_FILE = 'memories.graphml';
+const CSV_NODES_FILE = 'nodes.csv';
+const CSV_EDGES_FILE = 'edges.csv';
+
+// Heading of the generated link list in Markdown notes (not part of the memory text)
+const ASSOCIATIONS_HEADING = '## Associations';
+
+/**
+ * Formats written as a directory of files rather than a single file
+ */
+export function isDirectoryFormat(format: ExportFormat): boolean {
+    return format === 'markdown' || format === 'csv';
+}
+
+/**
+ * File name used for inline import content
+ */
+export function defaultFileName(format: ExportFormat): string {
+    switch (format) {
+        case 'jsonl':
+            return JSONL_FILE;
+        case 'graphml':
+            return GRAPHML_FILE;
+        case 'csv':
+            return CSV_NODES_FILE;
+        case 'markdown':
+            return 'memory.md';
+    }
+}
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+/**
+ * Outgoing edges of a node with attributes (plain associations get defaults)
+ */
+function outgoingEdges(node: LongTermMemoryNode): [string, AssociationEdge][] {
+    return node.associations.map((targetId) => [
+        targetId,
+        node.edges?.[targetId] ?? {
+            relation: DEFAULT_RELATION,
+            weight: 1,
+            createdAt: node.metadata.createdAt,
+        },
+    ]);
+}
+
+/**
+ * Fill in missing metadata fields of an imported node
+ */
+function completeMetadata(metadata: Partial<LongTermMemoryMetadata> = {}): LongTermMemoryMetadata {
+    const now = new Date().toISOString();
+    return {
+        ...metadata,
+        createdAt: metadata.createdAt ?? now,
+        lastAccessed: metadata.lastAccessed ?? metadata.createdAt ?? now,
+        accessCount: metadata.accessCount ?? 0,
+    };
+}
+
+function buildNode(
+    id: string,
+    text: string,
+    edges: Record<string, AssociationEdge>,
+    extra: {
+        tags?: string[];
+        properties?: Record<string, PropertyValue>;
+        metadata?: Partial<LongTermMemoryMetadata>;
+    } = {}
+): LongTermMemoryNode {
+    return {
+        id,
+        text,
+        associations: Object.keys(edges),
+        edges,
+        tags: extra.tags ?? [],
+        properties: extra.properties ?? {},
+        metadata: completeMetadata(extra.metadata),
+    };
+}
+
+function toEdge(value: Partial<AssociationEdge>, fallbackDate: string): AssociationEdge {
+    const edge: AssociationEdge = {
+        relation: value.relation || DEFAULT_RELATION,
+        weight: typeof value.weight === 'number' && !Number.isNaN(value.weight) ? value.weight : 1,
+        createdAt: value.createdAt && !Number.isNaN(Date.parse(value.createdAt)) ? value.createdAt : fallbackDate,
+    };
+    if (value.symmetric) {
+        edge.symmetric = true;
+    }
+    return edge;
+}
+
+// ============================================================================
+// Field validation
+// Imported records are untrusted: every field is checked before it reaches a node
+// ============================================================================
+
+type UnknownRecord = Record<string, unknown>;
+
+const METADATA_TIME_FIELDS = ['createdAt', 'lastAccessed', 'archivedAt', 'updatedAt', 'occurredAt'] as const;
+
+function isRecord(value: unknown): value is UnknownRecord {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readRecord(value: unknown, field: string): UnknownRecord {
+    if (value === undefined || value === null) {
+        return {};
+    }
+    if (!isRecord(value)) {
+        throw new Error(`${field} must be an object`);
+    }
+    return value;
+}
+
+function readString(value: unknown, field: string): string | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value !== 'string') {
+        throw new Error(`${field} must be a string`);
+    }
+    return value;
+}
+
+/**
+ * ISO 8601 time; YAML timestamps parsed into dates are accepted too
+ */
+function readTime(value: unknown, field: string): string | undefined {
+    if (value instanceof Date) {
+        value = value.toISOString();
+    }
+    const text = readString(value, field);
+    if (text !== undefined && Number.isNaN(Date.parse(text))) {
+        throw new Error(`${field} is not a valid time: ${text}`);
+    }
+    return text;
+}
+
+function readNumber(value: unknown, field: string): number | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`${field} must be a number`);
+    }
+    return value;
+}
+
+function readBoolean(value: unknown, field: string): boolean | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value !== 'boolean') {
+        throw new Error(`${field} must be true or false`);
+    }
+    return value;
+}
+
+function readStringList(value: unknown, field: string): string[] {
+    if (value === undefined || value === null) {
+        return [];
+    }
+    if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+        throw new Error(`${field} must be a list of strings`);
+    }
+    return value;
+}
+
+function readProperties(value: unknown): Record<string, PropertyValue> {
+    const record = readRecord(value, 'properties');
+    for (const [key, item] of Object.entries(record)) {
+        if (!['string', 'number', 'boolean'].includes(typeof item)) {
+            throw new Error(`properties.${key} must be a string, number or boolean`);
+        }
+    }
+    return record as Record<string, PropertyValue>;
+}
+
+function readMetadata(value: unknown): Partial<LongTermMemoryMetadata> {
+    const record = readRecord(value, 'metadata');
+    const metadata: Partial<LongTermMemoryMetadata> = {};
+
+    for (const field of METADATA_TIME_FIELDS) {
+        const time = readTime(record[field], `metadata.${field}`);
+        if (time !== undefined) {
+            metadata[field] = time;
+        }
+    }
+
+    const accessCount = readNumber(record.accessCount, 'metadata.accessCount');
+    if (accessCount !== undefined) {
+        if (accessCount < 0 || !Number.isInteger(accessCount)) {
+            throw new Error('metadata.accessCount must be a non-negative integer');
+        }
+        metadata.accessCount = accessCount;
+    }
+
+    if (record.sourceTimestamps !== undefined && record.sourceTimestamps !== null) {
+        const timestamps = record.sourceTimestamps;
+        if (!Array.isArray(timestamps) || !timestamps.every((item) => typeof item === 'number' && Number.isFinite(item))) {
+            throw new Error('metadata.sourceTimestamps must be a list of numbers');
+        }
+        metadata.sourceTimestamps = timestamps;
+    }
+
+    const archived = readBoolean(record.archived, 'metadata.archived');
+    if (archived !== undefined) {
+        metadata.archived = archived;
+    }
+    const updatedBy = readString(record.updatedBy, 'metadata.updatedBy');
+    if (updatedBy !== undefined) {
+        metadata.updatedBy = updatedBy;
+    }
+
+    return metadata;
+}
+
+/**
+ * Edge attributes of an imported edge record (the target is read by the caller)
+ */
+function readEdge(value: unknown, field: string): Partial<AssociationEdge> {
+    const record = readRecord(value, field);
+    return {
+        relation: readString(record.relation, `${field}.relation`),
+        weight: readNumber(record.weight, `${field}.weight`),
+        symmetric: readBoolean(record.symmetric, `${field}.symmetric`),
+        createdAt: readTime(record.createdAt, `${field}.createdAt`),
+    };
+}
+
+// ============================================================================
+// JSON Lines
+// ============================================================================
+
+function exportJsonl(nodes: LongTermMemoryNode[]): ExportFile[] {
+    const lines = nodes.map((node) =>
+        JSON.stringify({
+            id: node.id,
+            text: node.text,
+            tags: node.tags ?? [],
+            properties: node.properties ?? {},
+            metadata: node.metadata,
+            edges: outgoingEdges(node).map(([target, edge]) => ({ target, ...edge })),
+        })
+    );
+    return [{ name: JSONL_FILE, content: lines.join('\n') + (lines.length > 0 ? '\n' : '') }];
+}
+
+/**
+ * Node from one JSON Lines record (throws on fields of the wrong type)
+ */
+function parseJsonlRecord(record: UnknownRecord): LongTermMemoryNode {
+    const metadata = completeMetadata(readMetadata(record.metadata));
+    const edges: Record<string, AssociationEdge> = {};
+
+    // Raw memory.brain nodes (edge map plus association list) are accepted too
+    if (Array.isArray(record.edges)) {
+        record.edges.forEach((value: unknown, i) => {
+            const target = readString(readRecord(value, `edges[${i}]`).target, `edges[${i}].target`);
+            if (!target) {
+                throw new Error(`edges[${i}].target is required`);
+            }
+            edges[target] = toEdge(readEdge(value, `edges[${i}]`), metadata.createdAt);
+        });
+    } else {
+        for (const [target, value] of Object.entries(readRecord(record.edges, 'edges'))) {
+            edges[target] = toEdge(readEdge(value, `edges.${target}`), metadata.createdAt);
+        }
+    }
+    for (const targetId of readStringList(record.associations, 'associations')) {
+        edges[targetId] ??= toEdge({}, metadata.createdAt);
+    }
+
+    const id = record.id === undefined || record.id === null ? uuidv4() : String(record.id);
+    return buildNode(id, readString(record.text, 'text') ?? '', edges, {
+        tags: readStringList(record.tags, 'tags'),
+        properties: readProperties(record.properties),
+        metadata,
+    });
+}
+
+function importJsonl(files: ExportFile[]): LongTermMemoryNode[] {
+    const nodes: LongTermMemoryNode[] = [];
+
+    for (const file of files) {
+        file.content.split(/\r?\n/).forEach((line, i) => {
+            if (line.trim().length === 0) {
+                return;
+            }
+
+            let record: UnknownRecord;
+            try {
+                record = readRecord(JSON.parse(line), 'record');
+                nodes.push(parseJsonlRecord(record));
+            } catch (error) {
+                throw new Error(`${file.name}:${i + 1}: ${(error as Error).message}`);
+            }
+        });
+    }
+
+    return nodes;
+}
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+/**
+ * File-system and wiki-link safe note name: start of the text plus a short ID
+ */
+export function noteName(node: LongTermMemoryNode): string {
+    const slug = Array.from(node.text.replace(/[\\/:*?"<>|#^[\]\s]+/g, '-'))
+        .slice(0, 48)
+        .join('')
+        .replace(/^-+|-+$/g, '');
+    const shortId = node.id.replace(/-/g, '').substring(0, 8);
+    return slug ? `${slug}-${shortId}` : shortId;
+}
+
+/**
+ * Render a node as a Markdown note with YAML front matter and wiki-links
+ * @param names Note names by node ID, used to render links
+ */
+export function nodeToMarkdown(node: LongTermMemoryNode, names: Map<string, string>): string {
+    const edges = outgoingEdges(node);
+    const frontMatter = {
+        id: node.id,
+        tags: node.tags ?? [],
+        properties: node.properties ?? {},
+        metadata: node.metadata,
+        associations: edges.map(([id, edge]) => ({ id, ...edge })),
+    };
+
+    let content = `---\n${stringifyYaml(frontMatter)}---\n\n${node.text}\n`;
+
+    if (edges.length > 0) {
+        const links = edges.map(([id, edge]) => `- ${edge.relation}: [[${names.get(id) ?? id}]]`);
+        content += `\n${ASSOCIATIONS_HEADING}\n\n${links.join('\n')}\n`;
+    }
+
+    return content;
+}
+
+export interface NoteLink {
+    name: string; // Note name or memory ID inside [[...]]
+    relation: string;
+    generated: boolean; // Found in the generated association list rather than the text
+}
+
+export interface ParsedNote {
+    node: LongTermMemoryNode;
+    links: NoteLink[];
+    hasId: boolean; // False when the note had no ID and was given a new one
+    hasAssociationList: boolean; // Front matter lists associations explicitly
+}
+
+/**
+ * Parse a Markdown note written by `nodeToMarkdown` or by hand
+ * Notes without an ID get a new one; the text is the body without the generated link list
+ */
+export function parseMarkdownNote(content: string, fileName: string): ParsedNote {
+    let frontMatter: UnknownRecord = {};
+    let body = content.replace(/^\uFEFF/, '');
+
+    const match = body.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+    if (match) {
+        try {
+            frontMatter = readRecord(parseYaml(match[1]), 'front matter');
+        } catch (error) {
+            throw new Error(`${fileName}: invalid front matter: ${(error as Error).message}`);
+        }
+        body = body.slice(match[0].length);
+    }
+
+    const headingIndex = body.indexOf(`\n${ASSOCIATIONS_HEADING}`);
+    const linkSection = headingIndex >= 0 ? body.slice(headingIndex) : '';
+    const text = (headingIndex >= 0 ? body.slice(0, headingIndex) : body).trim();
+
+    let metadata: LongTermMemoryMetadata;
+    let properties: Record<string, PropertyValue>;
+    const edges: Record<string, AssociationEdge> = {};
+    try {
+        metadata = completeMetadata(readMetadata(frontMatter.metadata));
+        properties = readProperties(frontMatter.properties);
+
+        const associations = frontMatter.associations ?? [];
+        if (!Array.isArray(associations)) {
+            throw new Error('associations must be a list');
+        }
+        associations.forEach((value: unknown, i) => {
+            const association = readRecord(value, `associations[${i}]`);
+            if (association.id !== undefined && association.id !== null && association.id !== '') {
+                edges[String(association.id)] = toEdge(readEdge(association, `associations[${i}]`), metadata.createdAt);
+            }
+        });
+    } catch (error) {
+        throw new Error(`${fileName}: invalid front matter: ${(error as Error).message}`);
+    }
+
+    const links: NoteLink[] = [];
+    const collectLinks = (section: string, generated: boolean) => {
+        for (const line of section.split('\n')) {
+            const relation = line.match(/^\s*-\s*([\w-]+)::?\s*\[\[/)?.[1] ?? DEFAULT_RELATION;
+            for (const link of line.matchAll(/\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]/g)) {
+                links.push({ name: link[1].trim(), relation, generated });
+            }
+        }
+    };
+    collectLinks(text, false);
+    collectLinks(linkSection, true);
+
+    // Hand-written notes may list tags as plain words
+    const tags = Array.isArray(frontMatter.tags)
+        ? frontMatter.tags.map(String)
+        : typeof frontMatter.tags === 'string'
+          ? frontMatter.tags.split(/[,\s]+/).filter(Boolean)
+          : [];
+
+    return {
+        node: buildNode(String(frontMatter.id ?? uuidv4()), text, edges, {
+            tags,
+            properties,
+            metadata,
+        }),
+        links,
+        hasId: frontMatter.id !== undefined && frontMatter.id !== null,
+        hasAssociationList: Array.isArray(frontMatter.associations),
+    };
+}
+
+/**
+ * Turn a note's wiki-links into associations
+ * Links written into the text always count; the generated list only matters when the
+ * front matter has no association list (e.g. the list was written by hand)
+ * @param resolve Maps a link name to a memory ID (undefined drops the link)
+ */
+export function applyNoteLinks(note: ParsedNote, resolve: (name: string) => string | undefined): void {
+    const node = note.node;
+
+    for (const link of note.links) {
+        if (link.generated && note.hasAssociationList) {
+            continue;
+        }
+
+        const targetId = resolve(link.name);
+        if (targetId && targetId !== node.id && !node.edges![targetId]) {
+            node.edges![targetId] = toEdge({ relation: link.relation }, node.metadata.createdAt);
+            node.associations.push(targetId);
+        }
+    }
+}
+
+function exportMarkdown(nodes: LongTermMemoryNode[]): ExportFile[] {
+    const names = new Map(nodes.map((node) => [node.id, noteName(node)]));
+    return nodes.map((node) => ({
+        name: `${names.get(node.id)}.md`,
+        content: nodeToMarkdown(node, names),
+    }));
+}
+
+function importMarkdown(files: ExportFile[]): LongTermMemoryNode[] {
+    const notes = files.map((file) => ({
+        name: path.basename(file.name).replace(/\.md$/i, ''),
+        ...parseMarkdownNote(file.content, file.name),
+    }));
+
+    // Wiki-links may name a note or an ID
+    const idsByName = new Map<string, string>();
+    for (const note of notes) {
+        idsByName.set(note.name.toLowerCase(), note.node.id);
+        idsByName.set(note.node.id.toLowerCase(), note.node.id);
+    }
+
+    for (const note of notes) {
+        applyNoteLinks(note, (name) => idsByName.get(name.toLowerCase()) ?? name);
+    }
+
+    return notes.map((note) => note.node);
+}
+
+// ============================================================================
+// GraphML
+// ============================================================================
+
+const GRAPHML_NODE_KEYS = ['text', 'tags', 'properties', 'metadata'];
+const GRAPHML_EDGE_KEYS: [string, string][] = [
+    ['relation', 'string'],
+    ['weight', 'double'],
+    ['symmetric', 'boolean'],
+    ['createdAt', 'string'],
+];
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+    return text
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&amp;/g, '&');
+}
+
+function parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of text.matchAll(/([\w.:-]+)\s*=\s*"([^"]*)"/g)) {
+        attributes[match[1]] = unescapeXml(match[2]);
+    }
+    return attributes;
+}
+
+function exportGraphml(nodes: LongTermMemoryNode[]): ExportFile[] {
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+        ...GRAPHML_NODE_KEYS.map(
+            (key) => `  <key id="${key}" for="node" attr.name="${key}" attr.type="string"/>`
+        ),
+        ...GRAPHML_EDGE_KEYS.map(
+            ([key, type]) => `  <key id="${key}" for="edge" attr.name="${key}" attr.type="${type}"/>`
+        ),
+        '  <graph id="memories" edgedefault="directed">',
+    ];
+
+    for (const node of nodes) {
+        lines.push(`    <node id="${escapeXml(node.id)}">`);
+        lines.push(`      <data key="text">${escapeXml(node.text)}</data>`);
+        lines.push(`      <data key="tags">${escapeXml(JSON.stringify(node.tags ?? []))}</data>`);
+        lines.push(`      <data key="properties">${escapeXml(JSON.stringify(node.properties ?? {}))}</data>`);
+        lines.push(`      <data key="metadata">${escapeXml(JSON.stringify(node.metadata))}</data>`);
+        lines.push('    </node>');
+    }
+
+    for (const node of nodes) {
+        for (const [targetId, edge] of outgoingEdges(node)) {
+            lines.push(`    <edge source="${escapeXml(node.id)}" target="${escapeXml(targetId)}">`);
+            lines.push(`      <data key="relation">${escapeXml(edge.relation)}</data>`);
+            lines.push(`      <data key="weight">${edge.weight}</data>`);
+            lines.push(`      <data key="symmetric">${edge.symmetric === true}</data>`);
+            lines.push(`      <data key="createdAt">${escapeXml(edge.createdAt)}</data>`);
+            lines.push('    </edge>');
+        }
+    }
+
+    lines.push('  </graph>', '</graphml>');
+    return [{ name: GRAPHML_FILE, content: lines.join('\n') + '\n' }];
+}
+
+/**
+ * Parse GraphML written by `exportGraphml` or by tools such as Gephi and yEd
+ * Data keys are matched by attribute name; nodes without text fall back to their label
+ */
+function importGraphml(files: ExportFile[]): LongTermMemoryNode[] {
+    const nodes: LongTermMemoryNode[] = [];
+
+    for (const file of files) {
+        const keyNames = new Map<string, string>();
+        for (const match of file.content.matchAll(/<key\b([^>]*?)\/?>/g)) {
+            const attributes = parseAttributes(match[1]);
+            if (attributes.id) {
+                keyNames.set(attributes.id, attributes['attr.name'] ?? attributes.id);
+            }
+        }
+
+        const readData = (inner: string): Record<string, string> => {
+            const data: Record<string, string> = {};
+            for (const match of inner.matchAll(/<data\b([^>]*)>([\s\S]*?)<\/data>/g)) {
+                const key = parseAttributes(match[1]).key;
+                data[keyNames.get(key) ?? key] = unescapeXml(match[2]);
+            }
+            return data;
+        };
+
+        const parseJson = (value: string | undefined, field: string): unknown => {
+            if (!value) {
+                return undefined;
+            }
+            try {
+                return JSON.parse(value);
+            } catch {
+                throw new Error(`${file.name}: invalid JSON in node ${field}`);
+            }
+        };
+
+        const byId = new Map<string, LongTermMemoryNode>();
+        for (const match of file.content.matchAll(/<node\b([^>]*?)(?:\/>|>([\s\S]*?)<\/node>)/g)) {
+            const id = parseAttributes(match[1]).id;
+            const data = readData(match[2] ?? '');
+            let node: LongTermMemoryNode;
+            try {
+                node = buildNode(id, (data.text ?? data.label ?? data.name ?? id).trim(), {}, {
+                    tags: readStringList(parseJson(data.tags, 'tags'), 'tags'),
+                    properties: readProperties(parseJson(data.properties, 'properties')),
+                    metadata: readMetadata(parseJson(data.metadata, 'metadata')),
+                });
+            } catch (error) {
+                throw new Error(`${file.name}: node ${id}: ${(error as Error).message}`);
+            }
+            byId.set(id, node);
+            nodes.push(node);
+        }
+
+        for (const match of file.content.matchAll(/<edge\b([^>]*?)(?:\/>|>([\s\S]*?)<\/edge>)/g)) {
+            const attributes = parseAttributes(match[1]);
+            const source = byId.get(attributes.source);
+            if (!source) {
+                continue;
+            }
+
+            const data = readData(match[2] ?? '');
+            source.edges![attributes.target] = toEdge(
+                {
+                    relation: data.relation ?? data.label,
+                    weight: data.weight !== undefined ? Number(data.weight) : undefined,
+                    symmetric: data.symmetric === 'true',
+                    createdAt: data.createdAt,
+                },
+                source.metadata.createdAt
+            );
+            if (!source.associations.includes(attributes.target)) {
+                source.associations.push(attributes.target);
+            }
+        }
+    }
+
+    return nodes;
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function csvRow(values: string[]): string {
+    return values.map(csvField).join(',');
+}
+
+/**
+ * Parse RFC 4180 CSV into records keyed by the header row
+ */
+function parseCsv(content: string): Record<string, string>[] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field.length > 0 || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    const [header, ...records] = rows.filter((r) => r.some((value) => value.length > 0));
+    if (!header) {
+        return [];
+    }
+
+    return records.map((values) =>
+        Object.fromEntries(header.map((name, i) => [name.trim(), values[i] ?? '']))
+    );
+}
+
+function exportCsv(nodes: LongTermMemoryNode[]): ExportFile[] {
+    const nodeRows = [
+        csvRow(['id', 'text', 'tags', 'properties', 'createdAt', 'lastAccessed', 'accessCount']),
+        ...nodes.map((node) =>
+            csvRow([
+                node.id,
+                node.text,
+                (node.tags ?? []).join(';'),
+                JSON.stringify(node.properties ?? {}),
+                node.metadata.createdAt,
+                node.metadata.lastAccessed,
+                String(node.metadata.accessCount),
+            ])
+        ),
+    ];
+
+    const edgeRows = [csvRow(['source', 'target', 'relation', 'weight', 'symmetric', 'createdAt'])];
+    for (const node of nodes) {
+        for (const [targetId, edge] of outgoingEdges(node)) {
+            edgeRows.push(
+                csvRow([
+                    node.id,
+                    targetId,
+                    edge.relation,
+                    String(edge.weight),
+                    String(edge.symmetric === true),
+                    edge.createdAt,
+                ])
+            );
+        }
+    }
+
+    return [
+        { name: CSV_NODES_FILE, content: nodeRows.join('\n') + '\n' },
+        { name: CSV_EDGES_FILE, content: edgeRows.join('\n') + '\n' },
+    ];
+}
+
+function importCsv(files: ExportFile[]): LongTermMemoryNode[] {
+    const nodesFile = files.find((file) => path.basename(file.name) !== CSV_EDGES_FILE);
+    const edgesFile = files.find((file) => path.basename(file.name) === CSV_EDGES_FILE);
+    if (!nodesFile) {
+        throw new Error(`CSV import needs a ${CSV_NODES_FILE} file`);
+    }
+
+    const byId = new Map<string, LongTermMemoryNode>();
+    for (const record of parseCsv(nodesFile.content)) {
+        let properties: Record<string, PropertyValue> = {};
+        if (record.properties) {
+            try {
+                properties = readProperties(JSON.parse(record.properties));
+            } catch (error) {
+                throw new Error(`${nodesFile.name}: invalid properties for node ${record.id}: ${(error as Error).message}`);
+            }
+        }
+
+        let metadata: Partial<LongTermMemoryMetadata>;
+        try {
+            metadata = readMetadata({
+                createdAt: record.createdAt || undefined,
+                lastAccessed: record.lastAccessed || undefined,
+                accessCount: record.accessCount ? Number(record.accessCount) : undefined,
+            });
+        } catch (error) {
+            throw new Error(`${nodesFile.name}: node ${record.id}: ${(error as Error).message}`);
+        }
+
+        const node = buildNode(record.id || uuidv4(), (record.text ?? '').trim(), {}, {
+            tags: record.tags ? record.tags.split(';') : [],
+            properties,
+            metadata,
+        });
+        byId.set(node.id, node);
+    }
+
+    for (const record of edgesFile ? parseCsv(edgesFile.content) : []) {
+        const source = byId.get(record.source);
+        if (!source || !record.target) {
+            continue;
+        }
+
+        source.edges![record.target] = toEdge(
+            {
+                relation: record.relation,
+                weight: record.weight ? Number(record.weight) : undefined,
+                symmetric: record.symmetric === 'true',
+                createdAt: record.createdAt,
+            },
+            source.metadata.createdAt
+        );
+        if (!source.associations.includes(record.target)) {
+            source.associations.push(record.target);
+        }
+    }
+
+    return Array.from(byId.values());
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Serialize nodes in the given format
+ */
+export function exportNodes(nodes: LongTermMemoryNode[], format: ExportFormat): ExportFile[] {
+    switch (format) {
+        case 'jsonl':
+            return exportJsonl(nodes);
+        case 'markdown':
+            return exportMarkdown(nodes);
+        case 'graphml':
+            return exportGraphml(nodes);
+        case 'csv':
+            return exportCsv(nodes);
+    }
+}
+
+/**
+ * Parse exported files back into nodes (throws on malformed input)
+ */
+export function parseImport(files: ExportFile[], format: ExportFormat): LongTermMemoryNode[] {
+    switch (format) {
+        case 'jsonl':
+            return importJsonl(files);
+        case 'markdown':
+            return importMarkdown(files);
+        case 'graphml':
+            return importGraphml(files);
+        case 'csv':
+            return importCsv(files);
+    }
+}
+
+/**
+ * Write exported files: into a directory for markdown/csv, otherwise to the given file path
+ */
+export async function writeExportFiles(
+    files: ExportFile[],
+    format: ExportFormat,
+    outputPath: string
+): Promise<string[]> {
+    if (!isDirectoryFormat(format)) {
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.writeFile(outputPath, files[0].content, 'utf-8');
+        return [outputPath];
+    }
+
+    await fs.mkdir(outputPath, { recursive: true });
+    const written: string[] = [];
+    for (const file of files) {
+        const filePath = path.join(outputPath, file.name);
+        await fs.writeFile(filePath, file.content, 'utf-8');
+        written.push(filePath);
+    }
+    return written;
+}
+
+/**
+ * Read files to import: a directory (markdown notes, csv node/edge lists) or a single file
+ */
+export async function readImportFiles(inputPath: string, format: ExportFormat): Promise<ExportFile[]> {
+    const stats = await fs.stat(inputPath);
+    if (!stats.isDirectory()) {
+        return [{ name: path.basename(inputPath), content: await fs.readFile(inputPath, 'utf-8') }];
+    }
+
+    const extension = format === 'markdown' ? '.md' : format === 'csv' ? '.csv' : `.${format}`;
+    const files: ExportFile[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+        for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory() && !entry.name.startsWith('.')) {
+                await walk(entryPath);
+            } else if (entry.isFile() && entry.name.toLowerCase().endsWith(extension)) {
+                files.push({
+                    name: path.relative(inputPath, entryPath),
+                    content: await fs.readFile(entryPath, 'utf-8'),
+                });
+            }
+        }
+    };
+    await walk(inputPath);
+
+    return files;
+}
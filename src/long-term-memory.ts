@@ -12,16 +12,160 @@ import {
     SearchOptions,
     GetMemoryOptions,
     MemoryWithAssociations,
+    AssociationEdge,
+    GraphEdge,
+    LinkOptions,
+    EdgeDirection,
+    TraversalOptions,
+    MemoryPath,
+    MemorySubgraph,
+    AddMemoryOptions,
+    UpdateMemoryFields,
+    PropertyValue,
+    MemoryFilter,
+    ListOptions,
+    MemoryPage,
+    ImportStrategy,
+    ImportReport,
+    MemoryRevision,
+    MemoryHistory,
+    RevertResult,
+    DuplicateMatch,
+    DuplicateGroup,
+    MergeOptions,
+    MergeResult,
+    MemoryConflict,
+    TimeField,
+    ListSortField,
+    TimelineOptions,
+    Timeline,
+    TimelineEntry,
+    TimelineGroup,
 } from './types.js';
+import { InvertedIndex } from './search-index.js';
+
+/**
+ * Normalize text for duplicate comparison (case, surrounding and repeated whitespace)
+ */
+export function normalizeText(text: string): string {
+    return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Relation used for plain associations without an explicit label
+ */
+export const DEFAULT_RELATION = 'related';
+
+/**
+ * Relation between two memories that cannot both be true; always symmetric
+ */
+export const CONTRADICTS_RELATION = 'contradicts';
+
+/**
+ * Relation from a newer memory to the one it replaces; the older one is hidden from search
+ */
+export const SUPERSEDES_RELATION = 'supersedes';
+
+/**
+ * Normalize tags: trimmed, lowercase, unique, non-empty
+ */
+export function normalizeTags(tags: string[]): string[] {
+    return Array.from(
+        new Set(tags.map((tag) => tag.trim().toLowerCase()).filter((tag) => tag.length > 0))
+    );
+}
+
+/**
+ * Key used by the property index
+ */
+function propertyKey(key: string, value: PropertyValue): string {
+    return `${key}=${JSON.stringify(value)}`;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a date or ISO 8601 timestamp to epoch milliseconds (undefined if invalid)
+ */
+function parseDate(value: string): number | undefined {
+    const time = Date.parse(value.trim());
+    return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Parse a time range bound; a plain date as upper bound includes that whole day
+ */
+function parseBound(value: string, end: boolean): number {
+    const time = parseDate(value);
+    if (time === undefined) {
+        throw new Error(`Invalid date: ${value}`);
+    }
+    return end && /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? time + DAY : time;
+}
+
+/**
+ * Timestamp of a node for a time field; event time falls back to creation time
+ */
+export function timeOf(node: LongTermMemoryNode, field: TimeField): string {
+    switch (field) {
+        case 'createdAt':
+            return node.metadata.createdAt;
+        case 'lastAccessed':
+            return node.metadata.lastAccessed;
+        default:
+            return node.metadata.occurredAt ?? node.metadata.createdAt;
+    }
+}
+
+/**
+ * Value a node is sorted by
+ */
+function sortValue(node: LongTermMemoryNode, field: ListSortField): string | number {
+    switch (field) {
+        case 'text':
+            return node.text.toLowerCase();
+        case 'accessCount':
+            return node.metadata.accessCount;
+        default:
+            return timeOf(node, field);
+    }
+}
+
+/**
+ * First day (YYYY-MM-DD, UTC) of the day or Monday-based week containing a time
+ */
+function periodStart(time: string, groupBy: 'day' | 'week'): string {
+    const date = new Date(time);
+    if (groupBy === 'week') {
+        date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    }
+    return date.toISOString().slice(0, 10);
+}
 
 export class LongTermMemory {
     private nodes: Map<string, LongTermMemoryNode> = new Map();
+    private incoming: Map<string, Set<string>> = new Map(); // target ID -> source IDs
+    private index: InvertedIndex = new InvertedIndex();
+    private tagIndex: Map<string, Set<string>> = new Map(); // tag -> node IDs
+    private propertyIndex: Map<string, Set<string>> = new Map(); // key=value -> node IDs
+    private maxAssociationDepth: number;
+    private historyLimit: number; // Earlier versions kept per node
     private isDirty: boolean = false; // Track if data needs saving
+    private changedIds: Set<string> = new Set(); // Nodes added, changed or deleted since last save
+
+    constructor(maxAssociationDepth: number = 3, historyLimit: number = 20) {
+        this.maxAssociationDepth = maxAssociationDepth;
+        this.historyLimit = historyLimit;
+    }
 
     /**
      * Add a new node to long-term memory
      */
-    add(text: string, associations: string[] = []): MCPResponse<string> {
+    add(
+        text: string,
+        associations: string[] = [],
+        options: AddMemoryOptions = {}
+    ): MCPResponse<string> {
         try {
             if (!text || text.trim().length === 0) {
                 return {
@@ -40,6 +184,14 @@ export class LongTermMemory {
                 }
             }
 
+            const occurredAt = options.occurredAt !== undefined ? parseDate(options.occurredAt) : undefined;
+            if (options.occurredAt !== undefined && occurredAt === undefined) {
+                return {
+                    success: false,
+                    error: `Invalid occurredAt date: ${options.occurredAt}`,
+                };
+            }
+
             const id = uuidv4();
             const now = new Date().toISOString();
 
@@ -47,17 +199,29 @@ export class LongTermMemory {
                 createdAt: now,
                 lastAccessed: now,
                 accessCount: 0,
+                ...options.metadata,
             };
+            if (occurredAt !== undefined) {
+                metadata.occurredAt = new Date(occurredAt).toISOString();
+            }
 
             const node: LongTermMemoryNode = {
                 id,
                 text: text.trim(),
-                associations: [...associations], // Copy array
+                associations: [],
+                edges: {},
+                tags: normalizeTags(options.tags ?? []),
+                properties: { ...options.properties },
                 metadata,
             };
 
             this.nodes.set(id, node);
-            this.isDirty = true;
+            this.indexAttributes(node);
+            for (const assocId of new Set(associations)) {
+                this.setEdge(node, assocId, { relation: DEFAULT_RELATION, weight: 1, createdAt: now });
+            }
+            this.index.add(id, node.text);
+            this.markChanged(id);
 
             return {
                 success: true,
@@ -84,12 +248,14 @@ export class LongTermMemory {
                 };
             }
 
-            // Update access metadata
+            // Update access metadata; recalling an archived memory brings it back
             node.metadata.lastAccessed = new Date().toISOString();
             node.metadata.accessCount++;
-            this.isDirty = true;
+            delete node.metadata.archived;
+            delete node.metadata.archivedAt;
+            this.markChanged(id);
 
-            const depth = Math.min(options.depth ?? 1, 3); // Max depth 3 for safety
+            const depth = Math.min(options.depth ?? 1, this.maxAssociationDepth);
             const associations = this.getAssociatedNodes(id, depth);
 
             return {
@@ -108,9 +274,15 @@ export class LongTermMemory {
     }
 
     /**
-     * Search memories by keyword
+     * Search memories by keyword using the inverted index
+     * Results are ranked by BM25 relevance (best first); "quoted phrases" must match verbatim
+     * @param boost Optional multiplier applied to each node's score before ranking
      */
-    search(keyword: string, options: SearchOptions = {}): MCPResponse<SearchResult[]> {
+    search(
+        keyword: string,
+        options: SearchOptions = {},
+        boost?: (node: LongTermMemoryNode) => number
+    ): MCPResponse<SearchResult[]> {
         try {
             if (!keyword || keyword.trim().length === 0) {
                 return {
@@ -121,28 +293,42 @@ export class LongTermMemory {
 
             const limit = options.limit ?? 10;
             const caseSensitive = options.caseSensitive ?? false;
-            const searchTerm = caseSensitive ? keyword : keyword.toLowerCase();
+            const operator = options.operator ?? 'and';
 
-            const results: SearchResult[] = [];
+            // The index is case-insensitive, so check exact casing afterwards
+            const rawTerms = keyword
+                .match(/"[^"]*"|\S+/g)
+                ?.map((term) => term.replace(/"/g, ''))
+                .filter((term) => term.length > 0) ?? [];
 
-            for (const node of this.nodes.values()) {
-                const text = caseSensitive ? node.text : node.text.toLowerCase();
+            const results: SearchResult[] = [];
 
-                if (text.includes(searchTerm)) {
-                    results.push({
-                        id: node.id,
-                        text: node.text,
-                    });
+            for (const match of this.index.search(keyword, { operator })) {
+                const node = this.nodes.get(match.id);
+                if (!node || !this.matchesFilters(node, options)) {
+                    continue;
+                }
 
-                    if (results.length >= limit) {
-                        break;
+                if (caseSensitive) {
+                    const found = rawTerms.map((term) => node.text.includes(term));
+                    const accepted = operator === 'and' ? found.every(Boolean) : found.some(Boolean);
+                    if (!accepted) {
+                        continue;
                     }
                 }
+
+                results.push({
+                    id: node.id,
+                    text: node.text,
+                    relevance: boost ? match.score * boost(node) : match.score,
+                });
             }
 
             return {
                 success: true,
-                data: results,
+                data: results
+                    .sort((a, b) => (b.relevance ?? 0) - (a.relevance ?? 0))
+                    .slice(0, limit),
             };
         } catch (error) {
             return {
@@ -153,172 +339,351 @@ export class LongTermMemory {
     }
 
     /**
-     * Update an existing node
+     * Check whether a node passes the non-text search filters
      */
-    update(id: string, newText?: string, newAssociations?: string[]): MCPResponse<void> {
-        try {
-            const node = this.nodes.get(id);
-            if (!node) {
-                return {
-                    success: false,
-                    error: `Memory not found: ${id}`,
-                };
-            }
+    matchesFilters(node: LongTermMemoryNode, filter: MemoryFilter = {}): boolean {
+        if (node.metadata.archived && !filter.includeArchived) {
+            return false;
+        }
 
-            // Update text if provided
-            if (newText !== undefined) {
-                if (newText.trim().length === 0) {
-                    return {
-                        success: false,
-                        error: 'Memory text cannot be empty',
-                    };
-                }
-                node.text = newText.trim();
-            }
+        if (!filter.includeSuperseded && this.isSuperseded(node.id)) {
+            return false;
+        }
 
-            // Update associations if provided
-            if (newAssociations !== undefined) {
-                // Validate all associations exist
-                for (const assocId of newAssociations) {
-                    if (!this.nodes.has(assocId)) {
-                        return {
-                            success: false,
-                            error: `Associated node not found: ${assocId}`,
-                        };
-                    }
-                }
-                node.associations = [...newAssociations];
+        if (filter.from !== undefined || filter.to !== undefined) {
+            const time = Date.parse(timeOf(node, filter.timeField ?? 'occurredAt'));
+            if (filter.from !== undefined && !(time >= parseBound(filter.from, false))) {
+                return false;
+            }
+            if (filter.to !== undefined && !(time < parseBound(filter.to, true))) {
+                return false;
             }
+        }
 
-            node.metadata.lastAccessed = new Date().toISOString();
-            this.isDirty = true;
+        if (filter.tags && filter.tags.length > 0) {
+            const wanted = normalizeTags(filter.tags);
+            const nodeTags = new Set(node.tags ?? []);
+            const matched = filter.tagMode === 'any'
+                ? wanted.some((tag) => nodeTags.has(tag))
+                : wanted.every((tag) => nodeTags.has(tag));
+            if (!matched) {
+                return false;
+            }
+        }
 
-            return {
-                success: true,
-                data: undefined,
-            };
-        } catch (error) {
-            return {
-                success: false,
-                error: `Failed to update memory: ${(error as Error).message}`,
-            };
+        for (const [key, value] of Object.entries(filter.properties ?? {})) {
+            if (node.properties?.[key] !== value) {
+                return false;
+            }
         }
+
+        return true;
     }
 
     /**
-     * Delete a node and remove it from all associations
+     * List memories matching the filters with sorting and pagination
      */
-    delete(id: string): MCPResponse<void> {
+    list(options: ListOptions = {}): MCPResponse<MemoryPage> {
         try {
-            if (!this.nodes.has(id)) {
+            const offset = options.offset ?? 0;
+            const limit = options.limit ?? 10;
+
+            if (offset < 0 || limit < 1) {
                 return {
                     success: false,
-                    error: `Memory not found: ${id}`,
+                    error: 'Offset must be non-negative and limit at least 1',
                 };
             }
 
-            // Remove this ID from all other nodes' associations
-            for (const node of this.nodes.values()) {
-                const index = node.associations.indexOf(id);
-                if (index > -1) {
-                    node.associations.splice(index, 1);
-                }
-            }
+            const sortBy = options.sortBy ?? 'createdAt';
+            const direction = options.order === 'asc' ? 1 : -1;
 
-            this.nodes.delete(id);
-            this.isDirty = true;
+            const matches = this.candidateIds(options)
+                .map((id) => this.nodes.get(id))
+                .filter((node): node is LongTermMemoryNode =>
+                    node !== undefined && this.matchesFilters(node, options)
+                );
+
+            matches.sort((a, b) => {
+                const va = sortValue(a, sortBy);
+                const vb = sortValue(b, sortBy);
+                return va < vb ? -direction : va > vb ? direction : 0;
+            });
 
             return {
                 success: true,
-                data: undefined,
+                data: {
+                    items: matches.slice(offset, offset + limit),
+                    total: matches.length,
+                    offset,
+                    limit,
+                },
             };
         } catch (error) {
             return {
                 success: false,
-                error: `Failed to delete memory: ${(error as Error).message}`,
+                error: `Failed to list memories: ${(error as Error).message}`,
             };
         }
     }
 
     /**
-     * Get all direct associations of a node
+     * Sort search results by a node field instead of relevance
+     * @param order Default: 'desc'
      */
-    getAssociations(id: string): MCPResponse<string[]> {
+    sortResults(results: SearchResult[], sortBy: ListSortField, order: 'asc' | 'desc' = 'desc'): SearchResult[] {
+        const direction = order === 'asc' ? 1 : -1;
+        const values = new Map(results.map((result) => [result.id, sortValue(this.nodes.get(result.id)!, sortBy)]));
+
+        return [...results].sort((a, b) => {
+            const va = values.get(a.id)!;
+            const vb = values.get(b.id)!;
+            return va < vb ? -direction : va > vb ? direction : 0;
+        });
+    }
+
+    /**
+     * List memories in time order, grouped by day or week
+     */
+    timeline(options: TimelineOptions = {}): MCPResponse<Timeline> {
         try {
-            const node = this.nodes.get(id);
-            if (!node) {
+            const limit = options.limit ?? 10;
+            if (limit < 1) {
                 return {
                     success: false,
-                    error: `Memory not found: ${id}`,
+                    error: 'Limit must be at least 1',
                 };
             }
 
+            const field = options.timeField ?? 'occurredAt';
+            const direction = options.order === 'desc' ? -1 : 1;
+
+            const entries: TimelineEntry[] = this.candidateIds(options)
+                .map((id) => this.nodes.get(id))
+                .filter((node): node is LongTermMemoryNode =>
+                    node !== undefined && this.matchesFilters(node, options)
+                )
+                .map((node) => ({
+                    id: node.id,
+                    text: node.text,
+                    time: timeOf(node, field),
+                    ...(node.tags && node.tags.length > 0 ? { tags: node.tags } : {}),
+                }))
+                .sort((a, b) => direction * (Date.parse(a.time) - Date.parse(b.time)));
+
+            // Entries are in time order, so each period is one run of entries
+            const groups: TimelineGroup[] = [];
+            for (const entry of entries.slice(0, limit)) {
+                const start = periodStart(entry.time, options.groupBy ?? 'day');
+                let group = groups.at(-1);
+                if (group?.start !== start) {
+                    group = { start, entries: [] };
+                    groups.push(group);
+                }
+                group.entries.push(entry);
+            }
+
             return {
                 success: true,
-                data: [...node.associations],
+                data: {
+                    groups,
+                    total: entries.length,
+                },
             };
         } catch (error) {
             return {
                 success: false,
-                error: `Failed to get associations: ${(error as Error).message}`,
+                error: `Failed to build timeline: ${(error as Error).message}`,
             };
         }
     }
 
     /**
-     * Get associated nodes recursively up to specified depth
+     * Get all tags with the number of memories carrying each
+     */
+    getTags(): Record<string, number> {
+        const counts: Record<string, number> = {};
+        for (const [tag, ids] of this.tagIndex) {
+            counts[tag] = ids.size;
+        }
+        return counts;
+    }
+
+    /**
+     * Narrow the node IDs to scan using the tag and property indexes
      * @private
      */
-    private getAssociatedNodes(id: string, depth: number): LongTermMemoryNode[] {
-        const visited = new Set<string>();
-        const result: LongTermMemoryNode[] = [];
+    private candidateIds(filter: MemoryFilter): string[] {
+        const sets: Set<string>[] = [];
 
-        const traverse = (currentId: string, currentDepth: number) => {
-            if (currentDepth > depth || visited.has(currentId)) {
-                return;
+        if (filter.tags && filter.tags.length > 0) {
+            const tagSets = normalizeTags(filter.tags).map((tag) => this.tagIndex.get(tag) ?? new Set<string>());
+            if (filter.tagMode === 'any') {
+                sets.push(new Set(tagSets.flatMap((ids) => [...ids])));
+            } else {
+                sets.push(...tagSets);
             }
+        }
 
-            visited.add(currentId);
-            const node = this.nodes.get(currentId);
+        for (const [key, value] of Object.entries(filter.properties ?? {})) {
+            sets.push(this.propertyIndex.get(propertyKey(key, value)) ?? new Set<string>());
+        }
 
-            if (!node) {
-                return;
-            }
+        if (sets.length === 0) {
+            return Array.from(this.nodes.keys());
+        }
 
-            // Don't include the root node itself
-            if (currentId !== id) {
-                result.push(node);
-            }
+        // Start from the smallest set
+        sets.sort((a, b) => a.size - b.size);
+        return [...sets[0]].filter((id) => sets.every((ids) => ids.has(id)));
+    }
 
-            // Traverse associations
-            for (const assocId of node.associations) {
-                traverse(assocId, currentDepth + 1);
+    /**
+     * Add a node's tags and properties to the indexes
+     * @private
+     */
+    private indexAttributes(node: LongTermMemoryNode): void {
+        const addTo = (index: Map<string, Set<string>>, key: string) => {
+            let ids = index.get(key);
+            if (!ids) {
+                ids = new Set();
+                index.set(key, ids);
             }
+            ids.add(node.id);
         };
 
-        traverse(id, 0);
-        return result;
+        for (const tag of node.tags ?? []) {
+            addTo(this.tagIndex, tag);
+        }
+        for (const [key, value] of Object.entries(node.properties ?? {})) {
+            addTo(this.propertyIndex, propertyKey(key, value));
+        }
     }
 
     /**
-     * Get all nodes (for export/persistence)
+     * Remove a node's tags and properties from the indexes
+     * @private
      */
-    getAllNodes(): Map<string, LongTermMemoryNode> {
-        return new Map(this.nodes);
+    private unindexAttributes(node: LongTermMemoryNode): void {
+        const removeFrom = (index: Map<string, Set<string>>, key: string) => {
+            const ids = index.get(key);
+            ids?.delete(node.id);
+            if (ids && ids.size === 0) {
+                index.delete(key);
+            }
+        };
+
+        for (const tag of node.tags ?? []) {
+            removeFrom(this.tagIndex, tag);
+        }
+        for (const [key, value] of Object.entries(node.properties ?? {})) {
+            removeFrom(this.propertyIndex, propertyKey(key, value));
+        }
     }
 
     /**
-     * Load nodes from external source (for import/persistence)
+     * Update an existing node
      */
-    loadNodes(nodes: Record<string, LongTermMemoryNode>): MCPResponse<void> {
+    update(
+        id: string,
+        newText?: string,
+        newAssociations?: string[],
+        fields: UpdateMemoryFields = {}
+    ): MCPResponse<void> {
         try {
-            this.nodes.clear();
+            const node = this.nodes.get(id);
+            if (!node) {
+                return {
+                    success: false,
+                    error: `Memory not found: ${id}`,
+                };
+            }
 
-            for (const [id, node] of Object.entries(nodes)) {
-                this.nodes.set(id, node);
+            // Validate everything before changing anything
+            if (newText !== undefined && newText.trim().length === 0) {
+                return {
+                    success: false,
+                    error: 'Memory text cannot be empty',
+                };
             }
 
-            this.isDirty = false;
+            for (const assocId of newAssociations ?? []) {
+                if (!this.nodes.has(assocId)) {
+                    return {
+                        success: false,
+                        error: `Associated node not found: ${assocId}`,
+                    };
+                }
+            }
+
+            const occurredAt = fields.occurredAt ? parseDate(fields.occurredAt) : undefined;
+            if (fields.occurredAt && occurredAt === undefined) {
+                return {
+                    success: false,
+                    error: `Invalid occurredAt date: ${fields.occurredAt}`,
+                };
+            }
+
+            const previous = this.toRevision(node);
+
+            // Update text if provided
+            if (newText !== undefined) {
+                node.text = newText.trim();
+                this.index.add(id, node.text);
+            }
+
+            // Update associations if provided
+            if (newAssociations !== undefined) {
+                const keep = new Set(newAssociations);
+                for (const targetId of [...node.associations]) {
+                    if (!keep.has(targetId)) {
+                        this.removeEdge(node, targetId);
+                    }
+                }
+
+                const now = new Date().toISOString();
+                for (const targetId of keep) {
+                    if (!node.edges?.[targetId]) {
+                        this.setEdge(node, targetId, { relation: DEFAULT_RELATION, weight: 1, createdAt: now });
+                    }
+                }
+
+                // Preserve the requested order
+                node.associations = Array.from(keep);
+            }
+
+            // Update tags and properties if provided
+            if (fields.tags !== undefined || fields.properties !== undefined) {
+                this.unindexAttributes(node);
+
+                if (fields.tags !== undefined) {
+                    node.tags = normalizeTags(fields.tags);
+                }
+
+                if (fields.properties !== undefined) {
+                    const properties = { ...node.properties };
+                    for (const [key, value] of Object.entries(fields.properties)) {
+                        if (value === null) {
+                            delete properties[key];
+                        } else {
+                            properties[key] = value;
+                        }
+                    }
+                    node.properties = properties;
+                }
+
+                this.indexAttributes(node);
+            }
+
+            if (occurredAt !== undefined) {
+                node.metadata.occurredAt = new Date(occurredAt).toISOString();
+            } else if (fields.occurredAt === null) {
+                delete node.metadata.occurredAt;
+            }
+
+            this.recordRevision(node, previous, fields.author);
+            node.metadata.lastAccessed = new Date().toISOString();
+            this.markChanged(id);
 
             return {
                 success: true,
@@ -327,30 +692,1256 @@ export class LongTermMemory {
         } catch (error) {
             return {
                 success: false,
-                error: `Failed to load nodes: ${(error as Error).message}`,
+                error: `Failed to update memory: ${(error as Error).message}`,
             };
         }
     }
 
     /**
-     * Get total count of nodes
+     * Get the versions of a node, oldest first, ending with the current one
      */
-    getCount(): number {
-        return this.nodes.size;
-    }
+    getHistory(id: string): MCPResponse<MemoryHistory> {
+        const node = this.nodes.get(id);
+        if (!node) {
+            return {
+                success: false,
+                error: `Memory not found: ${id}`,
+            };
+        }
 
-    /**
-     * Check if data has been modified since last save
-     */
-    checkIsDirty(): boolean {
-        return this.isDirty;
+        return {
+            success: true,
+            data: {
+                id,
+                revisions: [...(node.history ?? []), this.toRevision(node)],
+            },
+        };
     }
 
     /**
-     * Mark data as clean (after save)
+     * Restore the text, associations, tags and properties of an earlier version
+     * The restored content becomes a new revision, so a revert can itself be reverted;
+     * associations to memories deleted since are dropped
      */
-    markClean(): void {
-        this.isDirty = false;
+    revert(id: string, revision: number, author?: string): MCPResponse<RevertResult> {
+        try {
+            const node = this.nodes.get(id);
+            if (!node) {
+                return {
+                    success: false,
+                    error: `Memory not found: ${id}`,
+                };
+            }
+
+            const previous = this.toRevision(node);
+            const target = node.history?.find((entry) => entry.revision === revision);
+            if (!target) {
+                return {
+                    success: false,
+                    error:
+                        revision === previous.revision
+                            ? `Revision ${revision} is the current version of memory ${id}`
+                            : `Revision ${revision} not found for memory ${id}`,
+                };
+            }
+
+            node.text = target.text;
+            this.index.add(id, node.text);
+
+            const droppedAssociations = target.associations.filter((targetId) => !this.nodes.has(targetId));
+            const keep = target.associations.filter((targetId) => this.nodes.has(targetId) && targetId !== id);
+            for (const targetId of [...node.associations]) {
+                if (!keep.includes(targetId)) {
+                    this.removeEdge(node, targetId);
+                }
+            }
+            for (const targetId of keep) {
+                this.setEdge(node, targetId, {
+                    ...(target.edges?.[targetId] ?? {
+                        relation: DEFAULT_RELATION,
+                        weight: 1,
+                        createdAt: target.savedAt,
+                    }),
+                });
+            }
+            node.associations = keep;
+
+            this.unindexAttributes(node);
+            node.tags = [...(target.tags ?? [])];
+            node.properties = { ...target.properties };
+            this.indexAttributes(node);
+
+            this.recordRevision(node, previous, author);
+            node.metadata.lastAccessed = new Date().toISOString();
+            this.markChanged(id);
+
+            return {
+                success: true,
+                data: {
+                    revision: this.toRevision(node).revision,
+                    droppedAssociations,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to revert memory: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Delete a node and remove it from all associations
+     */
+    delete(id: string): MCPResponse<void> {
+        try {
+            const node = this.nodes.get(id);
+            if (!node) {
+                return {
+                    success: false,
+                    error: `Memory not found: ${id}`,
+                };
+            }
+
+            // Remove this ID from all other nodes' associations
+            for (const sourceId of [...(this.incoming.get(id) ?? [])]) {
+                const source = this.nodes.get(sourceId);
+                if (source) {
+                    this.removeEdge(source, id);
+                }
+            }
+
+            // Drop this node's outgoing edges from the reverse index
+            for (const targetId of [...node.associations]) {
+                this.removeEdge(node, targetId);
+            }
+
+            this.unindexAttributes(node);
+            this.incoming.delete(id);
+            this.nodes.delete(id);
+            this.index.remove(id);
+            this.markChanged(id);
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to delete memory: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Archive a node: it stays in the graph but is hidden from search
+     */
+    archive(id: string): MCPResponse<void> {
+        try {
+            const node = this.nodes.get(id);
+            if (!node) {
+                return {
+                    success: false,
+                    error: `Memory not found: ${id}`,
+                };
+            }
+
+            node.metadata.archived = true;
+            node.metadata.archivedAt = new Date().toISOString();
+            this.markChanged(node.id);
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to archive memory: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Check whether a newer node supersedes this one
+     */
+    isSuperseded(id: string): boolean {
+        for (const sourceId of this.incoming.get(id) ?? []) {
+            if (this.nodes.get(sourceId)?.edges?.[id]?.relation === SUPERSEDES_RELATION) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * List pairs of contradicting nodes, oldest contradiction first
+     * A contradiction is resolved once either node has been superseded
+     */
+    getConflicts(includeResolved: boolean = false): MemoryConflict[] {
+        const conflicts: MemoryConflict[] = [];
+
+        for (const node of this.nodes.values()) {
+            for (const targetId of node.associations) {
+                const edge = node.edges?.[targetId];
+                const target = this.nodes.get(targetId);
+                // Symmetric edges come in pairs; report each pair once
+                if (edge?.relation !== CONTRADICTS_RELATION || !target) {
+                    continue;
+                }
+                if (target.edges?.[node.id]?.relation === CONTRADICTS_RELATION && targetId < node.id) {
+                    continue;
+                }
+
+                const resolved = this.isSuperseded(node.id) || this.isSuperseded(targetId);
+                if (resolved && !includeResolved) {
+                    continue;
+                }
+
+                conflicts.push({
+                    memories: [
+                        { id: node.id, text: node.text },
+                        { id: target.id, text: target.text },
+                    ],
+                    createdAt: edge.createdAt,
+                    resolved,
+                });
+            }
+        }
+
+        return conflicts.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    /**
+     * Check whether a node has any incoming or outgoing associations
+     */
+    isLinked(id: string): boolean {
+        const node = this.nodes.get(id);
+        return (node?.associations.length ?? 0) > 0 || (this.incoming.get(id)?.size ?? 0) > 0;
+    }
+
+    /**
+     * Find a node whose normalized text equals the given text
+     */
+    findByText(text: string): LongTermMemoryNode | undefined {
+        const target = normalizeText(text);
+
+        for (const node of this.nodes.values()) {
+            if (normalizeText(node.text) === target) {
+                return node;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Find nodes with nearly the same text, most similar first
+     * @param minSimilarity Lowest similarity returned (0-1)
+     */
+    findSimilar(text: string, minSimilarity: number): DuplicateMatch[] {
+        return this.index.similar(text, minSimilarity).map((match) => ({
+            id: match.id,
+            text: this.nodes.get(match.id)!.text,
+            similarity: match.score,
+        }));
+    }
+
+    /**
+     * Group nodes whose texts are near-duplicates of each other
+     * Groups are chained: A and C end up together when both are similar to B
+     */
+    findDuplicates(minSimilarity: number): DuplicateGroup[] {
+        const groups: DuplicateGroup[] = [];
+        const grouped = new Set<string>();
+
+        for (const node of this.nodes.values()) {
+            if (grouped.has(node.id)) {
+                continue;
+            }
+
+            const best = new Map<string, number>([[node.id, 0]]); // id -> best similarity in the group
+            const queue = [node.id];
+            while (queue.length > 0) {
+                const id = queue.shift()!;
+                for (const match of this.index.similar(this.nodes.get(id)!.text, minSimilarity)) {
+                    if (match.id === id) {
+                        continue;
+                    }
+                    if (!best.has(match.id)) {
+                        queue.push(match.id);
+                    }
+                    best.set(id, Math.max(best.get(id)!, match.score));
+                    best.set(match.id, Math.max(best.get(match.id) ?? 0, match.score));
+                }
+            }
+
+            for (const id of best.keys()) {
+                grouped.add(id);
+            }
+            if (best.size > 1) {
+                groups.push({
+                    memories: Array.from(best, ([id, similarity]) => ({
+                        id,
+                        text: this.nodes.get(id)!.text,
+                        similarity,
+                    })),
+                });
+            }
+        }
+
+        const topSimilarity = (group: DuplicateGroup) => Math.max(...group.memories.map((m) => m.similarity));
+        return groups.sort((a, b) => topSimilarity(b) - topSimilarity(a));
+    }
+
+    /**
+     * Merge nodes into the first one and delete the others
+     * Tags, properties (earlier nodes win conflicts), associations and access counts are
+     * combined, and links from other nodes to the merged ones are moved to the first node
+     */
+    merge(ids: string[], options: MergeOptions = {}): MCPResponse<MergeResult> {
+        try {
+            const unique = Array.from(new Set(ids));
+            if (unique.length < 2) {
+                return {
+                    success: false,
+                    error: 'At least two different memories are needed to merge',
+                };
+            }
+
+            for (const id of unique) {
+                if (!this.nodes.has(id)) {
+                    return {
+                        success: false,
+                        error: `Memory not found: ${id}`,
+                    };
+                }
+            }
+
+            if (options.text !== undefined && options.text.trim().length === 0) {
+                return {
+                    success: false,
+                    error: 'Memory text cannot be empty',
+                };
+            }
+
+            const mergedIds = new Set(unique);
+            const target = this.nodes.get(unique[0])!;
+            const sources = unique.slice(1).map((id) => this.nodes.get(id)!);
+            const previous = this.toRevision(target);
+
+            if (options.text !== undefined) {
+                target.text = options.text.trim();
+                this.index.add(target.id, target.text);
+            }
+
+            this.unindexAttributes(target);
+            const properties: Record<string, PropertyValue> = {};
+            for (const node of [target, ...sources].reverse()) {
+                Object.assign(properties, node.properties);
+            }
+            target.tags = normalizeTags([target, ...sources].flatMap((node) => node.tags ?? []));
+            target.properties = properties;
+            this.indexAttributes(target);
+
+            // Links among the merged nodes would become self-links
+            for (const targetId of [...target.associations]) {
+                if (mergedIds.has(targetId)) {
+                    this.removeEdge(target, targetId);
+                }
+            }
+
+            let rewired = 0;
+            for (const source of sources) {
+                for (const targetId of source.associations) {
+                    if (!mergedIds.has(targetId) && !target.edges?.[targetId]) {
+                        this.setEdge(target, targetId, { ...this.edgeOf(source, targetId) });
+                    }
+                }
+
+                for (const linkerId of this.incoming.get(source.id) ?? []) {
+                    const linker = this.nodes.get(linkerId);
+                    if (linker && !mergedIds.has(linkerId) && !linker.edges?.[target.id]) {
+                        this.setEdge(linker, target.id, { ...this.edgeOf(linker, source.id) });
+                        rewired++;
+                    }
+                }
+            }
+
+            const all = [target, ...sources];
+            const metadata = target.metadata;
+            metadata.accessCount = all.reduce((sum, node) => sum + node.metadata.accessCount, 0);
+            metadata.createdAt = all.map((node) => node.metadata.createdAt).sort()[0];
+            metadata.lastAccessed = all.map((node) => node.metadata.lastAccessed).sort().at(-1)!;
+
+            const timestamps = new Set(all.flatMap((node) => node.metadata.sourceTimestamps ?? []));
+            if (timestamps.size > 0) {
+                metadata.sourceTimestamps = Array.from(timestamps).sort((a, b) => a - b);
+            }
+
+            // The merged memory stays archived only if all of its parts were
+            if (!all.every((node) => node.metadata.archived)) {
+                delete metadata.archived;
+                delete metadata.archivedAt;
+            }
+
+            for (const source of sources) {
+                this.delete(source.id);
+            }
+
+            this.recordRevision(target, previous, options.author);
+            this.markChanged(target.id);
+
+            return {
+                success: true,
+                data: {
+                    id: target.id,
+                    merged: sources.map((node) => node.id),
+                    rewired,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to merge memories: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Record short-term timestamps a node was consolidated from
+     */
+    addSourceTimestamps(id: string, timestamps: number[]): MCPResponse<void> {
+        try {
+            const node = this.nodes.get(id);
+            if (!node) {
+                return {
+                    success: false,
+                    error: `Memory not found: ${id}`,
+                };
+            }
+
+            const merged = new Set([...(node.metadata.sourceTimestamps ?? []), ...timestamps]);
+            node.metadata.sourceTimestamps = Array.from(merged).sort((a, b) => a - b);
+            this.markChanged(node.id);
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to record source timestamps: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Get all direct associations of a node
+     */
+    getAssociations(id: string): MCPResponse<string[]> {
+        try {
+            const node = this.nodes.get(id);
+            if (!node) {
+                return {
+                    success: false,
+                    error: `Memory not found: ${id}`,
+                };
+            }
+
+            return {
+                success: true,
+                data: [...node.associations],
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to get associations: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Link two nodes with a typed, weighted edge
+     * Re-linking an existing pair replaces the edge attributes
+     */
+    link(sourceId: string, targetId: string, options: LinkOptions = {}): MCPResponse<GraphEdge> {
+        try {
+            const source = this.nodes.get(sourceId);
+            if (!source) {
+                return {
+                    success: false,
+                    error: `Memory not found: ${sourceId}`,
+                };
+            }
+
+            const target = this.nodes.get(targetId);
+            if (!target) {
+                return {
+                    success: false,
+                    error: `Associated node not found: ${targetId}`,
+                };
+            }
+
+            if (sourceId === targetId) {
+                return {
+                    success: false,
+                    error: 'Cannot link a memory to itself',
+                };
+            }
+
+            const weight = options.weight ?? 1;
+            if (weight < 0 || weight > 1) {
+                return {
+                    success: false,
+                    error: 'Weight must be between 0 and 1',
+                };
+            }
+
+            const relation = options.relation?.trim() || DEFAULT_RELATION;
+            const edge: AssociationEdge = {
+                relation,
+                weight,
+                createdAt: new Date().toISOString(),
+            };
+
+            if (
+                relation === SUPERSEDES_RELATION &&
+                (options.symmetric || target.edges?.[sourceId]?.relation === SUPERSEDES_RELATION)
+            ) {
+                return {
+                    success: false,
+                    error: 'Two memories cannot supersede each other',
+                };
+            }
+
+            if (options.symmetric || relation === CONTRADICTS_RELATION) {
+                edge.symmetric = true;
+                this.setEdge(target, sourceId, { ...edge });
+            } else if (source.edges?.[targetId]?.symmetric) {
+                // Downgrading a symmetric edge drops its mirror
+                this.removeEdge(target, sourceId);
+            }
+
+            this.setEdge(source, targetId, edge);
+            this.markChanged(sourceId);
+
+            return {
+                success: true,
+                data: { source: sourceId, target: targetId, ...edge },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to link memories: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Remove the edge between two nodes (and its mirror if symmetric)
+     */
+    unlink(sourceId: string, targetId: string): MCPResponse<void> {
+        try {
+            const source = this.nodes.get(sourceId);
+            if (!source) {
+                return {
+                    success: false,
+                    error: `Memory not found: ${sourceId}`,
+                };
+            }
+
+            const edge = source.edges?.[targetId];
+            if (!edge) {
+                return {
+                    success: false,
+                    error: `No association from ${sourceId} to ${targetId}`,
+                };
+            }
+
+            this.removeEdge(source, targetId);
+
+            const target = this.nodes.get(targetId);
+            if (edge.symmetric && target) {
+                this.removeEdge(target, sourceId);
+            }
+
+            this.markChanged(sourceId);
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to unlink memories: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Get typed edges of a node, optionally filtered by direction and relation
+     */
+    getEdges(
+        id: string,
+        direction: EdgeDirection = 'both',
+        relation?: string
+    ): MCPResponse<GraphEdge[]> {
+        try {
+            const node = this.nodes.get(id);
+            if (!node) {
+                return {
+                    success: false,
+                    error: `Memory not found: ${id}`,
+                };
+            }
+
+            const edges: GraphEdge[] = [];
+
+            if (direction !== 'incoming') {
+                for (const targetId of node.associations) {
+                    edges.push(this.toGraphEdge(node, targetId));
+                }
+            }
+
+            if (direction !== 'outgoing') {
+                for (const sourceId of this.incoming.get(id) ?? []) {
+                    const source = this.nodes.get(sourceId);
+                    if (source) {
+                        edges.push(this.toGraphEdge(source, id));
+                    }
+                }
+            }
+
+            return {
+                success: true,
+                data: relation ? edges.filter((edge) => edge.relation === relation) : edges,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to get edges: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Add or replace an outgoing edge and keep the reverse index in sync
+     * @private
+     */
+    private setEdge(source: LongTermMemoryNode, targetId: string, edge: AssociationEdge): void {
+        if (!source.edges) {
+            source.edges = {};
+        }
+        if (!source.associations.includes(targetId)) {
+            source.associations.push(targetId);
+        }
+        source.edges[targetId] = edge;
+        this.changedIds.add(source.id);
+
+        let sources = this.incoming.get(targetId);
+        if (!sources) {
+            sources = new Set();
+            this.incoming.set(targetId, sources);
+        }
+        sources.add(source.id);
+    }
+
+    /**
+     * Remove an outgoing edge and keep the reverse index in sync
+     * @private
+     */
+    private removeEdge(source: LongTermMemoryNode, targetId: string): void {
+        const index = source.associations.indexOf(targetId);
+        if (index > -1) {
+            source.associations.splice(index, 1);
+        }
+        if (source.edges) {
+            delete source.edges[targetId];
+        }
+        this.changedIds.add(source.id);
+        this.incoming.get(targetId)?.delete(source.id);
+    }
+
+    /**
+     * Attributes of an outgoing edge (plain associations get default attributes)
+     * @private
+     */
+    private edgeOf(source: LongTermMemoryNode, targetId: string): AssociationEdge {
+        return (
+            source.edges?.[targetId] ?? {
+                relation: DEFAULT_RELATION,
+                weight: 1,
+                createdAt: source.metadata.createdAt,
+            }
+        );
+    }
+
+    /**
+     * Build the public edge representation
+     * @private
+     */
+    private toGraphEdge(source: LongTermMemoryNode, targetId: string): GraphEdge {
+        return { source: source.id, target: targetId, ...this.edgeOf(source, targetId) };
+    }
+
+    /**
+     * Find the shortest path between two nodes (fewest hops)
+     */
+    findPath(fromId: string, toId: string, options: TraversalOptions = {}): MCPResponse<MemoryPath> {
+        try {
+            for (const id of [fromId, toId]) {
+                if (!this.nodes.has(id)) {
+                    return {
+                        success: false,
+                        error: `Memory not found: ${id}`,
+                    };
+                }
+            }
+
+            const maxDepth = Math.min(options.maxDepth ?? this.maxAssociationDepth, this.maxAssociationDepth);
+            const direction = options.direction ?? 'both';
+            const previous = new Map<string, { id: string; edge: GraphEdge } | null>([[fromId, null]]);
+            let frontier = [fromId];
+
+            for (let depth = 0; depth < maxDepth && !previous.has(toId) && frontier.length > 0; depth++) {
+                const next: string[] = [];
+                for (const currentId of frontier) {
+                    for (const { id, edge } of this.neighbors(currentId, direction, options.relations)) {
+                        if (!previous.has(id)) {
+                            previous.set(id, { id: currentId, edge });
+                            next.push(id);
+                        }
+                    }
+                }
+                frontier = next;
+            }
+
+            if (!previous.has(toId)) {
+                return {
+                    success: false,
+                    error: `No path found between ${fromId} and ${toId} within ${maxDepth} hops`,
+                };
+            }
+
+            const nodes: LongTermMemoryNode[] = [];
+            const edges: GraphEdge[] = [];
+            let step: string | undefined = toId;
+
+            while (step !== undefined) {
+                nodes.unshift(this.nodes.get(step)!);
+                const link = previous.get(step);
+                if (link) {
+                    edges.unshift(link.edge);
+                }
+                step = link?.id;
+            }
+
+            return {
+                success: true,
+                data: {
+                    nodes,
+                    edges,
+                    length: edges.length,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to find path: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Get the nodes within a number of hops, with their distance and the edges between them
+     */
+    getNeighborhood(id: string, options: TraversalOptions = {}): MCPResponse<MemorySubgraph> {
+        try {
+            if (!this.nodes.has(id)) {
+                return {
+                    success: false,
+                    error: `Memory not found: ${id}`,
+                };
+            }
+
+            const maxDepth = Math.min(options.maxDepth ?? 1, this.maxAssociationDepth);
+            const distances = this.traverse(id, maxDepth, options.direction ?? 'both', options.relations);
+
+            const nodes = Array.from(distances, ([nodeId, distance]) => ({
+                node: this.nodes.get(nodeId)!,
+                distance,
+            }));
+
+            return {
+                success: true,
+                data: {
+                    nodes,
+                    edges: this.edgesBetween(new Set(distances.keys()), options.relations),
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to get neighborhood: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Export the given nodes and the edges among them
+     */
+    getSubgraph(ids: string[], relations?: string[]): MCPResponse<MemorySubgraph> {
+        try {
+            for (const id of ids) {
+                if (!this.nodes.has(id)) {
+                    return {
+                        success: false,
+                        error: `Memory not found: ${id}`,
+                    };
+                }
+            }
+
+            const included = new Set(ids);
+
+            return {
+                success: true,
+                data: {
+                    nodes: Array.from(included, (id) => ({ node: this.nodes.get(id)! })),
+                    edges: this.edgesBetween(included, relations),
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to export subgraph: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Adjacent nodes reachable over one edge, honoring direction and relation filters
+     * @private
+     */
+    private neighbors(
+        id: string,
+        direction: EdgeDirection,
+        relations?: string[]
+    ): { id: string; edge: GraphEdge }[] {
+        const node = this.nodes.get(id);
+        if (!node) {
+            return [];
+        }
+
+        const result: { id: string; edge: GraphEdge }[] = [];
+        const accepts = (edge: GraphEdge) =>
+            !relations || relations.length === 0 || relations.includes(edge.relation);
+
+        if (direction !== 'incoming') {
+            for (const targetId of node.associations) {
+                const edge = this.toGraphEdge(node, targetId);
+                if (this.nodes.has(targetId) && accepts(edge)) {
+                    result.push({ id: targetId, edge });
+                }
+            }
+        }
+
+        if (direction !== 'outgoing') {
+            for (const sourceId of this.incoming.get(id) ?? []) {
+                const source = this.nodes.get(sourceId);
+                if (!source) {
+                    continue;
+                }
+                const edge = this.toGraphEdge(source, id);
+                if (accepts(edge)) {
+                    result.push({ id: sourceId, edge });
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Breadth-first traversal returning each reached node with its hop distance
+     * @private
+     */
+    private traverse(
+        id: string,
+        maxDepth: number,
+        direction: EdgeDirection,
+        relations?: string[]
+    ): Map<string, number> {
+        const distances = new Map<string, number>([[id, 0]]);
+        let frontier = [id];
+
+        for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+            const next: string[] = [];
+            for (const currentId of frontier) {
+                for (const neighbor of this.neighbors(currentId, direction, relations)) {
+                    if (!distances.has(neighbor.id)) {
+                        distances.set(neighbor.id, depth);
+                        next.push(neighbor.id);
+                    }
+                }
+            }
+            frontier = next;
+        }
+
+        return distances;
+    }
+
+    /**
+     * Edges whose endpoints are both in the given set
+     * @private
+     */
+    private edgesBetween(ids: Set<string>, relations?: string[]): GraphEdge[] {
+        const edges: GraphEdge[] = [];
+
+        for (const id of ids) {
+            for (const { id: targetId, edge } of this.neighbors(id, 'outgoing', relations)) {
+                if (ids.has(targetId)) {
+                    edges.push(edge);
+                }
+            }
+        }
+
+        return edges;
+    }
+
+    /**
+     * Get associated nodes (outgoing) up to specified depth, nearest first
+     * @private
+     */
+    private getAssociatedNodes(id: string, depth: number): LongTermMemoryNode[] {
+        const result: LongTermMemoryNode[] = [];
+
+        for (const nodeId of this.traverse(id, depth, 'outgoing').keys()) {
+            // Don't include the root node itself
+            if (nodeId !== id) {
+                result.push(this.nodes.get(nodeId)!);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Get all nodes (for export/persistence)
+     */
+    getAllNodes(): Map<string, LongTermMemoryNode> {
+        return new Map(this.nodes);
+    }
+
+    /**
+     * Load nodes from external source (for import/persistence)
+     */
+    loadNodes(nodes: Record<string, LongTermMemoryNode>): MCPResponse<void> {
+        try {
+            this.nodes.clear();
+            this.incoming.clear();
+            this.index.clear();
+            this.tagIndex.clear();
+            this.propertyIndex.clear();
+
+            for (const [id, node] of Object.entries(nodes)) {
+                this.nodes.set(id, node);
+                this.index.add(id, node.text);
+                this.indexAttributes(node);
+            }
+
+            // Fill in edge attributes for legacy plain associations and build the reverse index
+            for (const node of this.nodes.values()) {
+                const edges = node.edges ?? {};
+                const targets = Array.from(new Set(node.associations));
+                node.associations = [];
+                node.edges = {};
+                for (const targetId of targets) {
+                    this.setEdge(
+                        node,
+                        targetId,
+                        edges[targetId] ?? {
+                            relation: DEFAULT_RELATION,
+                            weight: 1,
+                            createdAt: node.metadata.createdAt,
+                        }
+                    );
+                }
+            }
+
+            this.isDirty = false;
+            this.changedIds.clear();
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to load nodes: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Merge externally produced nodes into memory, keeping their IDs where possible
+     * Existing IDs are skipped, overwritten or given a new ID depending on the strategy;
+     * edges are remapped to the final IDs and dropped if their target is unknown
+     */
+    importNodes(
+        nodes: LongTermMemoryNode[],
+        strategy: ImportStrategy = 'skip'
+    ): MCPResponse<ImportReport> {
+        try {
+            const seen = new Set<string>();
+            for (const node of nodes) {
+                if (!node.id || !node.text || node.text.trim().length === 0) {
+                    return {
+                        success: false,
+                        error: `Imported memory ${node.id || '(without id)'} has no text`,
+                    };
+                }
+                if (seen.has(node.id)) {
+                    return {
+                        success: false,
+                        error: `Duplicate memory ID in import: ${node.id}`,
+                    };
+                }
+                seen.add(node.id);
+            }
+
+            const report: ImportReport = {
+                created: 0,
+                overwritten: 0,
+                skipped: 0,
+                renamed: 0,
+                edges: 0,
+                droppedEdges: 0,
+                idMap: {},
+            };
+
+            // Decide the final ID of every imported node first so edges can be remapped
+            const finalIds = new Map<string, string>();
+            const written: { source: LongTermMemoryNode; node: LongTermMemoryNode }[] = [];
+            const replaced = new Map<string, MemoryRevision>(); // Overwritten ID -> previous version
+            const now = new Date().toISOString();
+
+            for (const source of nodes) {
+                const existing = this.nodes.get(source.id);
+                let id = source.id;
+                let history = source.history;
+
+                if (existing && strategy === 'skip') {
+                    finalIds.set(source.id, source.id);
+                    report.skipped++;
+                    continue;
+                }
+
+                if (existing && strategy === 'rename') {
+                    id = uuidv4();
+                    report.idMap[source.id] = id;
+                    report.renamed++;
+                } else if (existing) {
+                    // Overwrite: keep edges pointing at the node, replace everything else;
+                    // without a history of its own, the import becomes the node's next version
+                    if (!history) {
+                        history = existing.history;
+                        replaced.set(id, this.toRevision(existing));
+                    }
+                    for (const targetId of [...existing.associations]) {
+                        this.removeEdge(existing, targetId);
+                    }
+                    this.unindexAttributes(existing);
+                    this.index.remove(id);
+                    report.overwritten++;
+                } else {
+                    report.created++;
+                }
+
+                const node: LongTermMemoryNode = {
+                    id,
+                    text: source.text.trim(),
+                    associations: [],
+                    edges: {},
+                    tags: normalizeTags(source.tags ?? []),
+                    properties: { ...source.properties },
+                    metadata: {
+                        createdAt: now,
+                        lastAccessed: now,
+                        accessCount: 0,
+                        ...(source.metadata as Partial<LongTermMemoryMetadata>),
+                    },
+                };
+                if (history) {
+                    node.history = history;
+                }
+
+                this.nodes.set(id, node);
+                this.indexAttributes(node);
+                this.index.add(id, node.text);
+                finalIds.set(source.id, id);
+                written.push({ source, node });
+            }
+
+            for (const { source, node } of written) {
+                for (const targetId of new Set(source.associations)) {
+                    const finalTarget =
+                        finalIds.get(targetId) ?? (this.nodes.has(targetId) ? targetId : undefined);
+                    if (!finalTarget || finalTarget === node.id) {
+                        report.droppedEdges++;
+                        continue;
+                    }
+
+                    this.setEdge(
+                        node,
+                        finalTarget,
+                        source.edges?.[targetId] ?? {
+                            relation: DEFAULT_RELATION,
+                            weight: 1,
+                            createdAt: node.metadata.createdAt,
+                        }
+                    );
+                    report.edges++;
+                }
+            }
+
+            for (const [id, previous] of replaced) {
+                this.recordRevision(this.nodes.get(id)!, previous);
+            }
+
+            for (const { node } of written) {
+                this.markChanged(node.id);
+            }
+
+            return {
+                success: true,
+                data: report,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to import memories: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Get total count of nodes
+     */
+    getCount(): number {
+        return this.nodes.size;
+    }
+
+    /**
+     * Check if data has been modified since last save
+     */
+    checkIsDirty(): boolean {
+        return this.isDirty;
+    }
+
+    /**
+     * Mark data as clean (after save)
+     */
+    markClean(): void {
+        this.isDirty = false;
+        this.changedIds.clear();
+    }
+
+    /**
+     * Take the IDs of nodes added, changed or deleted since the last save and mark them clean
+     * Changes made while the save is in progress are collected anew
+     */
+    takeChangedIds(): string[] {
+        const ids = Array.from(this.changedIds);
+        this.markClean();
+        return ids;
+    }
+
+    /**
+     * Mark nodes as unsaved (after a failed save, or when they were replaced wholesale)
+     */
+    restoreChangedIds(ids: string[]): void {
+        for (const id of ids) {
+            this.markChanged(id);
+        }
+    }
+
+    /**
+     * IDs of nodes added, changed or deleted since the last save
+     */
+    getUnsavedIds(): Set<string> {
+        return new Set(this.changedIds);
+    }
+
+    /**
+     * Mark nodes as saved without writing them (e.g. changes read back from storage)
+     */
+    markSaved(ids: string[]): void {
+        for (const id of ids) {
+            this.changedIds.delete(id);
+        }
+        this.isDirty = this.changedIds.size > 0;
+    }
+
+    /**
+     * The current version of a node as a history entry
+     * @private
+     */
+    private toRevision(node: LongTermMemoryNode): MemoryRevision {
+        const edges: Record<string, AssociationEdge> = {};
+        for (const [targetId, edge] of Object.entries(node.edges ?? {})) {
+            edges[targetId] = { ...edge };
+        }
+
+        const revision: MemoryRevision = {
+            revision: (node.history?.at(-1)?.revision ?? 0) + 1,
+            text: node.text,
+            associations: [...node.associations],
+            edges,
+            tags: [...(node.tags ?? [])],
+            properties: { ...node.properties },
+            savedAt: node.metadata.updatedAt ?? node.metadata.createdAt,
+        };
+        if (node.metadata.updatedBy) {
+            revision.author = node.metadata.updatedBy;
+        }
+        return revision;
+    }
+
+    /**
+     * Move the previous version into the node's history if the content or associations changed
+     * @private
+     */
+    private recordRevision(node: LongTermMemoryNode, previous: MemoryRevision, author?: string): void {
+        const content = (revision: MemoryRevision) =>
+            JSON.stringify([revision.text, revision.associations, revision.edges, revision.tags, revision.properties]);
+        if (content(previous) === content(this.toRevision(node))) {
+            return;
+        }
+
+        if (this.historyLimit > 0) {
+            node.history = [...(node.history ?? []), previous].slice(-this.historyLimit);
+        }
+
+        node.metadata.updatedAt = new Date().toISOString();
+        if (author) {
+            node.metadata.updatedBy = author;
+        } else {
+            delete node.metadata.updatedBy;
+        }
+    }
+
+    /**
+     * Mark a node as needing to be saved
+     * @private
+     */
+    private markChanged(id: string): void {
+        this.isDirty = true;
+        this.changedIds.add(id);
     }
 
     /**
@@ -0,0 +1,657 @@
+/**
+ * Markdown Vault Storage
+ * Stores each long-term memory as a Markdown note with YAML front matter and
+ * wiki-links, so the storage directory can be browsed and edited as a notes vault
+ */
+
+import * as fs from 'fs/promises';
+import { watch, FSWatcher } from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { SNAPSHOTS_DIRECTORY, SPACES_DIRECTORY, STORAGE_VERSION, VAULT_FILES } from './config.js';
+import { applyNoteLinks, nodeToMarkdown, noteName, parseMarkdownNote, ParsedNote } from './interchange.js';
+import { StorageBackend, StorageChange } from './storage.js';
+import {
+    LongTermMemoryNode,
+    MemoryGraph,
+    MCPResponse,
+    MemoryRevision,
+    ShortTermMemoryEntry,
+    ThinkingState,
+    VectorStore,
+} from './types.js';
+
+// Delay before handling file events, so one editor save arrives as one change
+const WATCH_DEBOUNCE = 200;
+
+type AccessStats = { lastAccessed: string; accessCount: number };
+
+/**
+ * Server state kept outside the notes (`.brain/state.json`)
+ * Access statistics change on every read, so they stay out of the front matter;
+ * earlier revisions would clutter the notes
+ */
+interface VaultState {
+    version: number;
+    access: Record<string, AccessStats>;
+    history?: Record<string, MemoryRevision[]>;
+    notes?: Record<string, string>; // Note path -> memory ID, for notes without an ID in their front matter
+    thinking?: ThinkingState;
+    shortTerm?: ShortTermMemoryEntry[];
+}
+
+// A note as last read from or written to disk
+interface NoteFile {
+    id: string;
+    content: string;
+    rendered: string; // The note as the server would write it; the note is rewritten only when this changes
+}
+
+/**
+ * Render a memory as a note; access statistics are kept in the server state instead
+ */
+function renderNote(node: LongTermMemoryNode, names: Map<string, string>): string {
+    const { lastAccessed, accessCount, ...metadata } = node.metadata;
+    return nodeToMarkdown({ ...node, metadata } as LongTermMemoryNode, names);
+}
+
+export class MarkdownVaultStorage implements StorageBackend {
+    private vaultPath: string;
+    private stateFilePath: string;
+    private vectorFilePath: string;
+    private files: Map<string, NoteFile> = new Map(); // Path relative to the vault -> note
+    private access: Record<string, AccessStats> = {};
+    private autoSaveTimer?: NodeJS.Timeout;
+    private pendingSave: boolean = false;
+    private watcher?: FSWatcher;
+    private watchTimer?: NodeJS.Timeout;
+    private changedPaths: Set<string> = new Set();
+    private queue: Promise<unknown> = Promise.resolve(); // Serializes saves and reloads
+
+    constructor(vaultPath: string) {
+        this.vaultPath = vaultPath;
+        this.stateFilePath = path.join(vaultPath, VAULT_FILES.directory, VAULT_FILES.state);
+        this.vectorFilePath = path.join(vaultPath, VAULT_FILES.directory, VAULT_FILES.vectors);
+    }
+
+    /**
+     * Initialize storage (create the vault and state directories if needed)
+     */
+    async init(): Promise<MCPResponse<void>> {
+        try {
+            await fs.mkdir(path.join(this.vaultPath, VAULT_FILES.directory), { recursive: true });
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to initialize vault: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Load every note in the vault
+     * Notes are left as they are until their memory changes; notes that cannot be parsed
+     * are skipped and reported
+     */
+    async load(): Promise<MCPResponse<MemoryGraph>> {
+        try {
+            const state = await this.readState();
+            this.access = state.access;
+            this.files.clear();
+
+            const notes: ParsedNote[] = [];
+            let assigned = false; // Whether a note without an ID was given a new one
+            for (const relPath of await this.listNotes()) {
+                try {
+                    const content = await fs.readFile(path.join(this.vaultPath, relPath), 'utf-8');
+                    const note = this.parseNote(relPath, content, state.notes?.[relPath]);
+                    if (note) {
+                        assigned ||= !note.hasId && note.node.id !== state.notes?.[relPath];
+                        notes.push(note);
+                        this.files.set(relPath, { id: note.node.id, content, rendered: '' });
+                    }
+                } catch (error) {
+                    console.error(`Skipping note ${relPath}: ${(error as Error).message}`);
+                }
+            }
+
+            this.linkNotes(notes);
+
+            // New IDs are recorded right away, so they stay the same until the note is written
+            if (assigned) {
+                await this.writeState({ ...state, notes: this.noteIds() });
+            }
+
+            // Notes changed while watching arrive without history, so the change becomes a new revision
+            const memories: Record<string, LongTermMemoryNode> = {};
+            for (const note of notes) {
+                memories[note.node.id] = note.node;
+                if (state.history?.[note.node.id]) {
+                    note.node.history = state.history[note.node.id];
+                }
+            }
+
+            return {
+                success: true,
+                data: {
+                    version: STORAGE_VERSION,
+                    memories,
+                    thinking: state.thinking,
+                    shortTerm: state.shortTerm,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to load vault: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Write changed notes, remove notes of deleted memories and save the server state
+     * Saves run one at a time; overlapping runs would each remove the notes the other one wrote
+     */
+    save(graph: MemoryGraph): Promise<MCPResponse<void>> {
+        const result = this.queue.then(() => this.writeVault(graph));
+        this.queue = result;
+        return result;
+    }
+
+    /**
+     * Write the notes and the server state of a graph
+     * @private
+     */
+    private async writeVault(graph: MemoryGraph): Promise<MCPResponse<void>> {
+        try {
+            await this.writeNotes(graph.memories);
+
+            this.access = {};
+            const history: Record<string, MemoryRevision[]> = {};
+            for (const node of Object.values(graph.memories)) {
+                this.access[node.id] = {
+                    lastAccessed: node.metadata.lastAccessed,
+                    accessCount: node.metadata.accessCount,
+                };
+                if (node.history) {
+                    history[node.id] = node.history;
+                }
+            }
+
+            await this.writeState({
+                version: STORAGE_VERSION,
+                access: this.access,
+                history,
+                notes: this.noteIds(),
+                thinking: graph.thinking,
+                shortTerm: graph.shortTerm,
+            });
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to save vault: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Load the vector index from the state directory
+     * Returns null when no vector file exists yet
+     */
+    async loadVectors(): Promise<MCPResponse<VectorStore | null>> {
+        try {
+            let data: string;
+            try {
+                data = await fs.readFile(this.vectorFilePath, 'utf-8');
+            } catch {
+                return {
+                    success: true,
+                    data: null,
+                };
+            }
+
+            const parsed = JSON.parse(data) as VectorStore;
+            if (!parsed.vectors || typeof parsed.vectors !== 'object') {
+                throw new Error('Invalid vector file structure');
+            }
+
+            return {
+                success: true,
+                data: parsed,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to load vectors: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Save the vector index
+     */
+    async saveVectors(store: VectorStore): Promise<MCPResponse<void>> {
+        try {
+            await fs.writeFile(this.vectorFilePath, JSON.stringify(store), 'utf-8');
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to save vectors: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Start auto-save timer
+     */
+    startAutoSave(
+        interval: number,
+        saveCallback: () => Promise<MCPResponse<void>>
+    ): void {
+        this.stopAutoSave();
+
+        this.autoSaveTimer = setInterval(async () => {
+            if (!this.pendingSave) {
+                this.pendingSave = true;
+                await saveCallback();
+                this.pendingSave = false;
+            }
+        }, interval);
+    }
+
+    /**
+     * Stop auto-save timer
+     */
+    stopAutoSave(): void {
+        if (this.autoSaveTimer) {
+            clearInterval(this.autoSaveTimer);
+            this.autoSaveTimer = undefined;
+        }
+    }
+
+    /**
+     * Watch the vault for notes added, edited, moved or deleted by other programs
+     * Events caused by our own writes are ignored because the content is unchanged.
+     * Saving does not look for such changes, so nothing is reported unless live
+     */
+    watch(onChange: (change: StorageChange) => void, live: boolean): void {
+        if (!live || this.watcher) {
+            return;
+        }
+
+        try {
+            this.watcher = watch(this.vaultPath, { recursive: true }, (_event, fileName) => {
+                const relPath = fileName?.toString();
+                if (!relPath || !this.isVaultPath(relPath)) {
+                    return;
+                }
+
+                this.changedPaths.add(relPath);
+                clearTimeout(this.watchTimer);
+                this.watchTimer = setTimeout(() => {
+                    // Queued behind saves, so our own writes are complete before notes are read
+                    const run = async (): Promise<void> => {
+                        try {
+                            const change = await this.readChanges();
+                            if (change.upserted.length > 0 || change.deleted.length > 0) {
+                                onChange(change);
+                            }
+                        } catch (error) {
+                            console.error(`Failed to read changes in ${this.vaultPath}: ${(error as Error).message}`);
+                        }
+                    };
+                    this.queue = this.queue.then(run);
+                }, WATCH_DEBOUNCE);
+            });
+
+            this.watcher.on('error', (error) => {
+                console.error(`Stopped watching ${this.vaultPath}: ${error.message}`);
+                this.stopWatching();
+            });
+        } catch (error) {
+            console.error(`Cannot watch ${this.vaultPath}: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Copy the notes and server state into another directory
+     */
+    async copyTo(targetPath: string): Promise<MCPResponse<void>> {
+        try {
+            const files = [
+                ...(await this.listNotes()),
+                path.join(VAULT_FILES.directory, VAULT_FILES.state),
+                path.join(VAULT_FILES.directory, VAULT_FILES.vectors),
+            ];
+
+            for (const relPath of files) {
+                const target = path.join(targetPath, relPath);
+                await fs.mkdir(path.dirname(target), { recursive: true });
+                try {
+                    await fs.copyFile(path.join(this.vaultPath, relPath), target);
+                } catch {
+                    // File not written yet
+                }
+            }
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to copy vault: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Clean up resources
+     */
+    async cleanup(): Promise<void> {
+        this.stopAutoSave();
+        this.stopWatching();
+        await this.queue;
+    }
+
+    // =========================================================================
+    // Notes
+    // =========================================================================
+
+    /**
+     * Parse a note, or return null for notes without text
+     * @param previousId ID the note had before, kept if the front matter lost it
+     * @private
+     */
+    private parseNote(relPath: string, content: string, previousId?: string): ParsedNote | null {
+        const note = parseMarkdownNote(content, relPath);
+        if (!note.node.text) {
+            return null;
+        }
+
+        if (!note.hasId && previousId) {
+            note.node.id = previousId;
+        }
+
+        // A copied note keeps the front matter of the original; the copy becomes a new memory
+        const owner = this.pathOf(note.node.id);
+        if (owner && owner !== relPath) {
+            note.node.id = uuidv4();
+        }
+
+        Object.assign(note.node.metadata, this.access[note.node.id]);
+
+        return note;
+    }
+
+    /**
+     * Resolve wiki-links by note name or memory ID; links to unknown notes are dropped
+     * Also records how each note would be rendered, to tell later whether its memory changed
+     * @private
+     */
+    private linkNotes(notes: ParsedNote[]): void {
+        const idsByName = new Map<string, string>();
+        for (const [relPath, file] of this.files) {
+            idsByName.set(path.basename(relPath, path.extname(relPath)).toLowerCase(), file.id);
+            idsByName.set(file.id.toLowerCase(), file.id);
+        }
+
+        for (const note of notes) {
+            applyNoteLinks(note, (name) =>
+                idsByName.get(path.basename(name).replace(/\.md$/i, '').toLowerCase())
+            );
+        }
+
+        const names = new Map<string, string>();
+        for (const [relPath, file] of this.files) {
+            names.set(file.id, path.basename(relPath, path.extname(relPath)));
+        }
+        for (const note of notes) {
+            const relPath = this.pathOf(note.node.id);
+            if (relPath) {
+                this.files.get(relPath)!.rendered = renderNote(note.node, names);
+            }
+        }
+    }
+
+    /**
+     * Render every memory and write the notes of memories that changed
+     * Existing notes keep their path; new memories get a note named after their text.
+     * A note is compared with how the server would have written it when it was read, so
+     * hand-written notes keep their formatting until their memory changes
+     * @private
+     */
+    private async writeNotes(memories: Record<string, LongTermMemoryNode>): Promise<void> {
+        const paths = new Map<string, string>(); // ID -> relative path
+        for (const [relPath, file] of this.files) {
+            if (memories[file.id] && !paths.has(file.id)) {
+                paths.set(file.id, relPath);
+            }
+        }
+
+        for (const node of Object.values(memories)) {
+            if (!paths.has(node.id)) {
+                const name = noteName(node);
+                paths.set(node.id, this.files.has(`${name}.md`) ? `${name}-${node.id}.md` : `${name}.md`);
+            }
+        }
+
+        const names = new Map<string, string>();
+        for (const [id, relPath] of paths) {
+            names.set(id, path.basename(relPath, path.extname(relPath)));
+        }
+
+        for (const [id, relPath] of paths) {
+            const content = renderNote(memories[id], names);
+            const file = this.files.get(relPath);
+
+            if (file?.rendered !== content) {
+                const filePath = path.join(this.vaultPath, relPath);
+                await fs.mkdir(path.dirname(filePath), { recursive: true });
+                await fs.writeFile(filePath, content, 'utf-8');
+                this.files.set(relPath, { id, content, rendered: content });
+            }
+        }
+
+        // Notes of deleted memories
+        for (const [relPath, file] of this.files) {
+            if (paths.get(file.id) !== relPath) {
+                await fs.rm(path.join(this.vaultPath, relPath), { force: true });
+                this.files.delete(relPath);
+            }
+        }
+    }
+
+    /**
+     * Read the notes touched since the last batch of file events
+     * A note moved to another path shows up as a deletion plus an upsert with the same
+     * ID, so deletions of IDs that still exist are dropped
+     * @private
+     */
+    private async readChanges(): Promise<StorageChange> {
+        const changed = Array.from(this.changedPaths);
+        this.changedPaths.clear();
+
+        // Directory events stand for every note below the directory
+        const candidates = new Set<string>();
+        for (const relPath of changed) {
+            if (/\.md$/i.test(relPath)) {
+                candidates.add(relPath);
+                continue;
+            }
+            for (const known of this.files.keys()) {
+                if (known.startsWith(relPath + path.sep)) {
+                    candidates.add(known);
+                }
+            }
+            for (const note of await this.listNotes(relPath)) {
+                candidates.add(note);
+            }
+        }
+
+        const contents = new Map<string, string>();
+        const deleted: string[] = [];
+        for (const relPath of candidates) {
+            try {
+                contents.set(relPath, await fs.readFile(path.join(this.vaultPath, relPath), 'utf-8'));
+            } catch {
+                const file = this.files.get(relPath);
+                if (file) {
+                    deleted.push(file.id);
+                    this.files.delete(relPath);
+                }
+            }
+        }
+
+        const notes: ParsedNote[] = [];
+        for (const [relPath, content] of contents) {
+            const previous = this.files.get(relPath);
+            if (previous?.content === content) {
+                continue;
+            }
+
+            try {
+                const note = this.parseNote(relPath, content, previous?.id);
+                if (note) {
+                    notes.push(note);
+                    this.files.set(relPath, { id: note.node.id, content, rendered: '' });
+                }
+            } catch (error) {
+                // Half-written front matter; the next save of the note triggers another event
+                console.error(`Skipping note ${relPath}: ${(error as Error).message}`);
+            }
+        }
+
+        this.linkNotes(notes);
+
+        const upserted = new Set(notes.map((note) => note.node.id));
+        return {
+            upserted: notes.map((note) => note.node),
+            deleted: deleted.filter((id) => !upserted.has(id) && !this.pathOf(id)),
+        };
+    }
+
+    /**
+     * Find the note path of a memory
+     * @private
+     */
+    private pathOf(id: string): string | undefined {
+        for (const [relPath, file] of this.files) {
+            if (file.id === id) {
+                return relPath;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * List note paths (relative to the vault) below a directory of the vault
+     * @private
+     */
+    private async listNotes(directory: string = ''): Promise<string[]> {
+        let entries;
+        try {
+            entries = await fs.readdir(path.join(this.vaultPath, directory), { withFileTypes: true });
+        } catch {
+            return [];
+        }
+
+        const notes: string[] = [];
+        for (const entry of entries) {
+            const relPath = path.join(directory, entry.name);
+            if (!this.isVaultPath(relPath)) {
+                continue;
+            }
+            if (entry.isDirectory()) {
+                notes.push(...(await this.listNotes(relPath)));
+            } else if (entry.isFile() && /\.md$/i.test(entry.name)) {
+                notes.push(relPath);
+            }
+        }
+        return notes;
+    }
+
+    /**
+     * Hidden directories (editor settings, server state), snapshots and other memory spaces are not notes
+     * @private
+     */
+    private isVaultPath(relPath: string): boolean {
+        const segments = relPath.split(path.sep);
+        return (
+            segments[0] !== SPACES_DIRECTORY &&
+            segments[0] !== SNAPSHOTS_DIRECTORY &&
+            !segments.some((segment) => segment.startsWith('.'))
+        );
+    }
+
+    /**
+     * Read the server state, starting empty for new vaults
+     * @private
+     */
+    private async readState(): Promise<VaultState> {
+        let data: string;
+        try {
+            data = await fs.readFile(this.stateFilePath, 'utf-8');
+        } catch {
+            return {
+                version: STORAGE_VERSION,
+                access: {},
+            };
+        }
+
+        const state = JSON.parse(data) as VaultState;
+        return {
+            ...state,
+            access: state.access ?? {},
+        };
+    }
+
+    /**
+     * Write the server state file
+     * @private
+     */
+    private async writeState(state: VaultState): Promise<void> {
+        await fs.writeFile(this.stateFilePath, JSON.stringify(state, null, 2), 'utf-8');
+    }
+
+    /**
+     * Memory ID of every note by path
+     * Hand-written notes keep their text until their memory changes, so their IDs live in the state
+     * @private
+     */
+    private noteIds(): Record<string, string> {
+        const ids: Record<string, string> = {};
+        for (const [relPath, file] of this.files) {
+            ids[relPath] = file.id;
+        }
+        return ids;
+    }
+
+    /**
+     * Stop watching the vault
+     * @private
+     */
+    private stopWatching(): void {
+        clearTimeout(this.watchTimer);
+        this.watchTimer = undefined;
+        this.changedPaths.clear();
+        this.watcher?.close();
+        this.watcher = undefined;
+    }
+}
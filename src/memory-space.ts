@@ -0,0 +1,1538 @@
+/**
+ * Memory Space
+ * One isolated memory: short-term buffer, long-term graph and thought chains
+ * sharing a single storage directory
+ */
+
+import * as path from 'path';
+import { ShortTermMemory } from './short-term-memory.js';
+import { LongTermMemory, normalizeText } from './long-term-memory.js';
+import { StorageBackend, StorageChange, createStorageBackend } from './storage.js';
+import { ThinkingProcess } from './thinking-process.js';
+import { VectorIndex } from './vector-index.js';
+import { createEmbeddingProvider } from './embeddings.js';
+import { DecayPolicy, computeStrength, decayPolicyFromConfig } from './decay.js';
+import { SnapshotStore } from './snapshots.js';
+import { FileCipher } from './encryption.js';
+import { DEFAULT_CONFIG, SNAPSHOTS_DIRECTORY } from './config.js';
+import {
+    exportNodes,
+    parseImport,
+    writeExportFiles,
+    readImportFiles,
+    defaultFileName,
+} from './interchange.js';
+import {
+    MemoryConfig,
+    MemoryGraph,
+    MCPResponse,
+    MemoryStats,
+    ShortTermMemoryEntry,
+    SearchResult,
+    SearchOptions,
+    SemanticSearchOptions,
+    GetMemoryOptions,
+    MemoryWithAssociations,
+    GraphEdge,
+    LinkOptions,
+    EdgeDirection,
+    TraversalOptions,
+    MemoryPath,
+    MemorySubgraph,
+    ThoughtType,
+    CognitiveMode,
+    ConsolidationOptions,
+    ConsolidationResult,
+    ConsolidatedMemory,
+    ForgetOptions,
+    ForgetReport,
+    ForgetCandidate,
+    LongTermMemoryNode,
+    AddMemoryOptions,
+    UpdateMemoryFields,
+    MemoryFilter,
+    ListOptions,
+    MemoryPage,
+    ExportFile,
+    ExportOptions,
+    ExportResult,
+    ImportOptions,
+    ImportReport,
+    SnapshotInfo,
+    SnapshotReason,
+    SnapshotDiff,
+    RestoreReport,
+    MemoryHistory,
+    RevertResult,
+    DuplicateGroup,
+    MergeOptions,
+    MergeResult,
+    MemoryConflict,
+    TimelineOptions,
+    Timeline,
+    CompleteThoughtOptions,
+    ThoughtConclusion,
+} from './types.js';
+
+export class MemorySpace {
+    readonly name: string;
+    private shortTermMemory: ShortTermMemory;
+    private longTermMemory: LongTermMemory;
+    private storage: StorageBackend;
+    private thinkingProcess: ThinkingProcess;
+    private vectorIndex: VectorIndex;
+    private decayPolicy: DecayPolicy;
+    private snapshots: SnapshotStore;
+    private lastSnapshotAt: number = 0;
+    private changedSinceSnapshot: boolean = false;
+    private savingIds: string[][] = []; // Changed IDs of saves in progress
+    private lastSave?: Promise<MCPResponse<void>>;
+    private config: MemoryConfig;
+    private forgetTimer?: NodeJS.Timeout;
+    private initialized: boolean = false;
+
+    constructor(name: string, config: MemoryConfig, cipher?: FileCipher) {
+        this.name = name;
+        this.config = config;
+        this.shortTermMemory = new ShortTermMemory(
+            this.config.shortTermCapacity,
+            this.config.shortTermTTL
+        );
+        this.longTermMemory = new LongTermMemory(this.config.maxAssociationDepth, this.config.historyLimit);
+        this.thinkingProcess = new ThinkingProcess(this.longTermMemory);
+        this.vectorIndex = new VectorIndex(createEmbeddingProvider(this.config));
+        this.decayPolicy = decayPolicyFromConfig(this.config);
+        this.storage = createStorageBackend(this.config, cipher);
+        this.snapshots = new SnapshotStore(
+            path.join(this.config.storagePath, SNAPSHOTS_DIRECTORY),
+            {
+                count: this.config.snapshotCount,
+                maxAge: this.config.snapshotMaxAge,
+            },
+            cipher
+        );
+    }
+
+    // =========================================================================
+    // Lifecycle
+    // =========================================================================
+
+    /**
+     * Initialize the memory space (load from storage and start timers)
+     */
+    async init(): Promise<MCPResponse<void>> {
+        try {
+            if (this.initialized) {
+                return {
+                    success: false,
+                    error: `Memory space already initialized: ${this.name}`,
+                };
+            }
+
+            // Initialize storage
+            const storageInit = await this.storage.init();
+            if (!storageInit.success) {
+                return storageInit;
+            }
+
+            // Load existing memories
+            const loadResult = await this.storage.load();
+            if (!loadResult.success) {
+                return {
+                    success: false,
+                    error: loadResult.error,
+                };
+            }
+
+            // Load into long-term memory
+            const nodes = loadResult.data.memories;
+            await this.longTermMemory.loadNodes(nodes);
+
+            // Restore thought chains, thoughts and cognitive mode
+            if (loadResult.data.thinking) {
+                const thinkingResult = this.thinkingProcess.loadState(loadResult.data.thinking);
+                if (!thinkingResult.success) {
+                    return thinkingResult;
+                }
+            }
+
+            // Restore the short-term buffer when persistence is enabled
+            if (this.config.persistShortTermMemory && loadResult.data.shortTerm) {
+                const shortTermResult = this.shortTermMemory.loadEntries(loadResult.data.shortTerm);
+                if (!shortTermResult.success) {
+                    return shortTermResult;
+                }
+            }
+
+            // Load stored vectors; they are derived data, so a broken file is simply rebuilt
+            const vectorResult = await this.storage.loadVectors();
+            if (vectorResult.success && vectorResult.data) {
+                this.vectorIndex.loadStore(vectorResult.data);
+            }
+
+            // Scheduled snapshots continue from the newest existing one
+            const snapshotList = await this.snapshots.list();
+            if (snapshotList.success && snapshotList.data.length > 0) {
+                this.lastSnapshotAt = new Date(snapshotList.data[0].createdAt).getTime();
+            }
+
+            // Start auto-save (which also compacts the journal and takes scheduled snapshots)
+            this.storage.startAutoSave(this.config.autoSaveInterval, async () => {
+                return this.checkpoint();
+            });
+
+            // Start scheduled forgetting
+            if (this.config.forgetInterval > 0) {
+                this.forgetTimer = setInterval(() => {
+                    this.forgetMemories();
+                }, this.config.forgetInterval);
+            }
+
+            this.initialized = true;
+
+            // Merge changes other programs or servers make to the stored files
+            if (this.storage.watch) {
+                this.storage.watch((change) => this.applyExternalChange(change), this.config.watchStorage);
+            }
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to initialize memory space ${this.name}: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Manually save memory to disk
+     */
+    save(): Promise<MCPResponse<void>> {
+        const result = this.writeChanges();
+        this.lastSave = result;
+        return result;
+    }
+
+    /**
+     * Run an operation and wait for the save it started, if any
+     * A failed save (e.g. storage locked by another process) is reported as an error, so
+     * the client knows the change is only kept in memory until a later save succeeds
+     */
+    async persist<T>(
+        operation: (space: MemorySpace) => MCPResponse<T> | Promise<MCPResponse<T>>
+    ): Promise<MCPResponse<T>> {
+        const previousSave = this.lastSave;
+        const result = await operation(this);
+
+        if (!result.success || !this.lastSave || this.lastSave === previousSave) {
+            return result;
+        }
+
+        const saveResult = await this.lastSave;
+        if (saveResult.success) {
+            return result;
+        }
+
+        return {
+            success: false,
+            error: `Change applied but not saved: ${saveResult.error}. It is kept in memory and saved with the next successful save`,
+            details: saveResult.details,
+            data: result.data,
+        };
+    }
+
+    /**
+     * Write pending changes to storage
+     * @private
+     */
+    private async writeChanges(): Promise<MCPResponse<void>> {
+        try {
+            if (!this.initialized) {
+                return {
+                    success: false,
+                    error: `Memory space not initialized: ${this.name}`,
+                };
+            }
+
+            // Only save if data has changed
+            const shortTermDirty =
+                this.config.persistShortTermMemory && this.shortTermMemory.checkIsDirty();
+            const memoryDirty =
+                this.longTermMemory.checkIsDirty() ||
+                this.thinkingProcess.checkIsDirty() ||
+                shortTermDirty;
+
+            if (memoryDirty) {
+                // Clear the flags before writing so changes made during the save stay pending
+                const graph = this.currentGraph();
+                const changedIds = this.longTermMemory.takeChangedIds();
+                const thinkingDirty = this.thinkingProcess.checkIsDirty();
+                this.thinkingProcess.markClean();
+                this.shortTermMemory.markClean();
+
+                this.savingIds.push(changedIds);
+                const result = await this.storage
+                    .save(graph, changedIds)
+                    .finally(() => this.savingIds.splice(this.savingIds.indexOf(changedIds), 1));
+
+                if (!result.success) {
+                    this.longTermMemory.restoreChangedIds(changedIds);
+                    if (thinkingDirty) {
+                        this.thinkingProcess.markDirty();
+                    }
+                    if (shortTermDirty) {
+                        this.shortTermMemory.markDirty();
+                    }
+                    return result;
+                }
+
+                this.changedSinceSnapshot = true;
+            }
+
+            if (this.vectorIndex.checkIsDirty()) {
+                const store = this.vectorIndex.exportStore();
+                this.vectorIndex.markClean();
+                const result = await this.storage.saveVectors(store);
+                if (!result.success) {
+                    this.vectorIndex.markDirty();
+                    return result;
+                }
+            }
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to save memory: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Save pending changes, fold the storage journal (if any) into a new snapshot
+     * file and take a scheduled snapshot when one is due
+     */
+    async checkpoint(): Promise<MCPResponse<void>> {
+        const saveResult = await this.save();
+        if (!saveResult.success) {
+            return saveResult;
+        }
+
+        if (this.storage.compact) {
+            const compactResult = await this.storage.compact(this.currentGraph());
+            if (!compactResult.success) {
+                return compactResult;
+            }
+        }
+
+        const due =
+            this.config.snapshotInterval > 0 &&
+            this.changedSinceSnapshot &&
+            Date.now() - this.lastSnapshotAt >= this.config.snapshotInterval;
+        if (due) {
+            const snapshotResult = await this.createSnapshot(undefined, 'auto');
+            if (!snapshotResult.success) {
+                return snapshotResult;
+            }
+        }
+
+        return {
+            success: true,
+            data: undefined,
+        };
+    }
+
+    /**
+     * Re-encrypt the stored memory and its snapshots with another key
+     * @param cipher New key (without one the files are stored unencrypted)
+     */
+    async rotateEncryptionKey(cipher?: FileCipher): Promise<MCPResponse<void>> {
+        try {
+            if (!this.storage.rekey) {
+                return {
+                    success: false,
+                    error: `The ${this.config.storageBackend} storage backend does not support encryption`,
+                };
+            }
+
+            const saveResult = await this.save();
+            if (!saveResult.success) {
+                return saveResult;
+            }
+
+            const storageResult = await this.storage.rekey(cipher);
+            if (!storageResult.success) {
+                return storageResult;
+            }
+
+            return this.snapshots.rekey(cipher);
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to rotate encryption key of ${this.name}: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Get memory statistics
+     */
+    getStats(): MCPResponse<MemoryStats> {
+        try {
+            const nodes = this.longTermMemory.getAllNodes();
+            const nodeArray = Array.from(nodes.values());
+
+            let oldestMemory: string | undefined;
+            let newestMemory: string | undefined;
+
+            if (nodeArray.length > 0) {
+                const sorted = nodeArray.sort(
+                    (a, b) =>
+                        new Date(a.metadata.createdAt).getTime() -
+                        new Date(b.metadata.createdAt).getTime()
+                );
+                oldestMemory = sorted[0].metadata.createdAt;
+                newestMemory = sorted[sorted.length - 1].metadata.createdAt;
+            }
+
+            const stats: MemoryStats = {
+                space: this.name,
+                shortTermCount: this.shortTermMemory.getCount(),
+                longTermCount: this.longTermMemory.getCount(),
+                totalAssociations: this.longTermMemory.getTotalAssociations(),
+                oldestMemory,
+                newestMemory,
+                cacheSize: this.estimateCacheSize(),
+            };
+
+            return {
+                success: true,
+                data: stats,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to get stats: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Shutdown the memory space gracefully
+     */
+    async shutdown(): Promise<MCPResponse<void>> {
+        try {
+            // Save any pending changes
+            await this.checkpoint();
+
+            // Stop scheduled forgetting, auto-save and cleanup
+            if (this.forgetTimer) {
+                clearInterval(this.forgetTimer);
+                this.forgetTimer = undefined;
+            }
+            await this.storage.cleanup();
+
+            this.initialized = false;
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to shutdown: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Apply memories changed outside the server to the graph
+     * Changed memories replace the loaded ones (keeping edges that point at them);
+     * memories changed here and not saved yet keep the local version
+     */
+    private applyExternalChange(change: StorageChange): void {
+        if (!this.initialized) {
+            return;
+        }
+
+        const unsaved = this.longTermMemory.getUnsavedIds();
+        const local = new Set([...unsaved, ...this.savingIds.flat()]);
+        const nodes = this.longTermMemory.getAllNodes();
+
+        const upserted = change.upserted.filter(
+            (node) => !local.has(node.id) && JSON.stringify(node) !== JSON.stringify(nodes.get(node.id))
+        );
+
+        let deleted = change.deleted;
+        if (change.complete) {
+            const stored = new Set(change.upserted.map((node) => node.id));
+            deleted = Array.from(nodes.keys()).filter((id) => !stored.has(id));
+        }
+        deleted = deleted.filter((id) => !local.has(id) && nodes.has(id));
+
+        if (upserted.length > 0) {
+            const result = this.longTermMemory.importNodes(upserted, 'overwrite');
+            if (!result.success) {
+                console.error(`Failed to apply external changes to ${this.name}: ${result.error}`);
+                return;
+            }
+        }
+
+        for (const id of deleted) {
+            this.longTermMemory.delete(id);
+        }
+
+        if (change.stored) {
+            // Already in storage; only local changes still need saving
+            const applied = Array.from(this.longTermMemory.getUnsavedIds()).filter((id) => !unsaved.has(id));
+            this.longTermMemory.markSaved(applied);
+            return;
+        }
+
+        // 自动保存到本地存储
+        this.save();
+    }
+
+    // =========================================================================
+    // Short-Term Memory Operations
+    // =========================================================================
+
+    addShortTermMemory(text: string, ttl?: number): MCPResponse<void> {
+        const result = this.shortTermMemory.add(text, ttl);
+        if (result.success && this.config.persistShortTermMemory) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    getShortTermMemory(): MCPResponse<ShortTermMemoryEntry[]> {
+        return this.shortTermMemory.getAll();
+    }
+
+    clearShortTermMemory(): MCPResponse<void> {
+        const result = this.shortTermMemory.clear();
+        if (result.success && this.config.persistShortTermMemory) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    /**
+     * Promote short-term entries into long-term memory
+     * Entries with the same normalized text become a single node, and texts that
+     * already exist in long-term memory are merged into the existing node
+     */
+    consolidateShortTermMemory(
+        options: ConsolidationOptions = {}
+    ): MCPResponse<ConsolidationResult> {
+        try {
+            const bufferResult = this.shortTermMemory.getAll();
+            if (!bufferResult.success) {
+                return bufferResult;
+            }
+
+            const buffer = bufferResult.data;
+            const minOccurrences = options.minOccurrences ?? 1;
+
+            if (minOccurrences < 1) {
+                return {
+                    success: false,
+                    error: 'minOccurrences must be at least 1',
+                };
+            }
+
+            let selected: ShortTermMemoryEntry[] = buffer;
+            if (options.indices !== undefined) {
+                for (const index of options.indices) {
+                    if (!Number.isInteger(index) || index < 0 || index >= buffer.length) {
+                        return {
+                            success: false,
+                            error: `Short-term memory index out of range: ${index}`,
+                        };
+                    }
+                }
+                selected = Array.from(new Set(options.indices)).map((index) => buffer[index]);
+            }
+
+            // Count occurrences across the whole buffer
+            const occurrences = new Map<string, number>();
+            for (const entry of buffer) {
+                const key = normalizeText(entry.text);
+                occurrences.set(key, (occurrences.get(key) ?? 0) + 1);
+            }
+
+            // Group selected entries by normalized text, oldest first
+            const selectedSet = new Set(selected);
+            const groups = new Map<string, ShortTermMemoryEntry[]>();
+            for (const entry of [...buffer].reverse().filter((e) => selectedSet.has(e))) {
+                const key = normalizeText(entry.text);
+                if ((occurrences.get(key) ?? 0) < minOccurrences) {
+                    continue;
+                }
+                const group = groups.get(key) ?? [];
+                group.push(entry);
+                groups.set(key, group);
+            }
+
+            const consolidated: ConsolidatedMemory[] = [];
+            const promoted: ShortTermMemoryEntry[] = [];
+
+            for (const group of groups.values()) {
+                const text = group[0].text;
+                const timestamps = group.map((entry) => entry.timestamp);
+                const existingNode = this.longTermMemory.findByText(text);
+
+                if (existingNode) {
+                    const result = this.longTermMemory.addSourceTimestamps(existingNode.id, timestamps);
+                    if (!result.success) {
+                        return result;
+                    }
+                    consolidated.push({ id: existingNode.id, text: existingNode.text, timestamps, existing: true });
+                } else {
+                    const result = this.longTermMemory.add(text, [], {
+                        metadata: { sourceTimestamps: timestamps },
+                    });
+                    if (!result.success) {
+                        return result;
+                    }
+                    consolidated.push({ id: result.data, text, timestamps, existing: false });
+                }
+
+                promoted.push(...group);
+            }
+
+            // Link promoted nodes to each other
+            if (options.linkTogether && consolidated.length > 1) {
+                for (let i = 0; i < consolidated.length; i++) {
+                    for (let j = i + 1; j < consolidated.length; j++) {
+                        const result = this.longTermMemory.link(consolidated[i].id, consolidated[j].id, {
+                            symmetric: true,
+                        });
+                        if (!result.success) {
+                            return result;
+                        }
+                    }
+                }
+            }
+
+            if (options.removeFromBuffer) {
+                this.shortTermMemory.remove(promoted);
+            }
+
+            if (consolidated.length > 0) {
+                // 自动保存到本地存储
+                this.save();
+            }
+
+            const created = consolidated.filter((item) => !item.existing).length;
+
+            return {
+                success: true,
+                data: {
+                    consolidated,
+                    created,
+                    deduplicated: consolidated.length - created,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to consolidate short-term memory: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    // =========================================================================
+    // Long-Term Memory Operations
+    // =========================================================================
+
+    /**
+     * Add a memory, reporting near-duplicates (see duplicateThreshold) in details.duplicates;
+     * with rejectDuplicate the memory is not added when candidates exist
+     */
+    addLongTermMemory(
+        text: string,
+        associations: string[] = [],
+        options: AddMemoryOptions = {}
+    ): MCPResponse<string> {
+        const threshold = this.config.duplicateThreshold;
+        const duplicates = threshold > 0 && text ? this.longTermMemory.findSimilar(text, threshold) : [];
+        if (duplicates.length > 0 && options.rejectDuplicate) {
+            return {
+                success: false,
+                error: `Similar memory already exists: ${duplicates[0].id}. Update or merge it instead`,
+                details: { duplicates },
+            };
+        }
+
+        const result = this.longTermMemory.add(text, associations, options);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+            if (duplicates.length > 0) {
+                return { ...result, details: { duplicates } };
+            }
+        }
+        return result;
+    }
+
+    getLongTermMemory(
+        id: string,
+        options: GetMemoryOptions = {}
+    ): MCPResponse<MemoryWithAssociations> {
+        return this.longTermMemory.get(id, options);
+    }
+
+    async searchLongTermMemory(
+        keyword: string,
+        options: SearchOptions = {}
+    ): Promise<MCPResponse<SearchResult[]>> {
+        const limit = options.limit ?? this.config.searchLimit;
+        const mode = options.mode ?? 'keyword';
+
+        // Sorting by another field ranks every match, not only the most relevant ones
+        if (options.sortBy && options.sortBy !== 'relevance') {
+            const result = await this.searchLongTermMemory(keyword, {
+                ...options,
+                sortBy: 'relevance',
+                limit: Math.max(this.longTermMemory.getCount(), 1),
+            });
+            if (!result.success) {
+                return result;
+            }
+
+            return {
+                success: true,
+                data: this.longTermMemory.sortResults(result.data, options.sortBy, options.order).slice(0, limit),
+            };
+        }
+
+        if (mode === 'semantic') {
+            return this.semanticSearchLongTermMemory(keyword, {
+                ...this.filterOf(options),
+                limit,
+            });
+        }
+
+        if (mode === 'keyword') {
+            return this.longTermMemory.search(keyword, { ...options, limit }, (node) =>
+                this.rankingBoost(node)
+            );
+        }
+
+        return this.hybridSearch(keyword, { ...options, limit });
+    }
+
+    /**
+     * Search memories by meaning using the vector index
+     */
+    async semanticSearchLongTermMemory(
+        query: string,
+        options: SemanticSearchOptions = {}
+    ): Promise<MCPResponse<SearchResult[]>> {
+        try {
+            if (!query || query.trim().length === 0) {
+                return {
+                    success: false,
+                    error: 'Search query cannot be empty',
+                };
+            }
+
+            const limit = options.limit ?? this.config.searchLimit;
+            const nodes = this.longTermMemory.getAllNodes();
+
+            // Embed any nodes added or changed since the last search
+            await this.vectorIndex.sync(nodes);
+            const matches = await this.vectorIndex.search(query, nodes.size, options.minScore ?? 0);
+
+            const results: SearchResult[] = [];
+            for (const match of matches) {
+                const node = nodes.get(match.id);
+                if (node && this.longTermMemory.matchesFilters(node, options)) {
+                    results.push({ id: node.id, text: node.text, relevance: match.score * this.rankingBoost(node) });
+                }
+            }
+
+            return {
+                success: true,
+                data: results
+                    .sort((a, b) => (b.relevance ?? 0) - (a.relevance ?? 0))
+                    .slice(0, limit),
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to run semantic search: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    updateLongTermMemory(
+        id: string,
+        newText?: string,
+        newAssociations?: string[],
+        fields: UpdateMemoryFields = {}
+    ): MCPResponse<void> {
+        const result = this.longTermMemory.update(id, newText, newAssociations, fields);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    getMemoryHistory(id: string): MCPResponse<MemoryHistory> {
+        return this.longTermMemory.getHistory(id);
+    }
+
+    revertMemory(id: string, revision: number, author?: string): MCPResponse<RevertResult> {
+        const result = this.longTermMemory.revert(id, revision, author);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    listLongTermMemory(options: ListOptions = {}): MCPResponse<MemoryPage> {
+        return this.longTermMemory.list({
+            ...options,
+            limit: options.limit ?? this.config.searchLimit,
+        });
+    }
+
+    getTimeline(options: TimelineOptions = {}): MCPResponse<Timeline> {
+        return this.longTermMemory.timeline({
+            ...options,
+            limit: options.limit ?? this.config.searchLimit,
+        });
+    }
+
+    getMemoryTags(): MCPResponse<Record<string, number>> {
+        return {
+            success: true,
+            data: this.longTermMemory.getTags(),
+        };
+    }
+
+    /**
+     * Group memories with near-duplicate texts
+     * @param threshold Lowest similarity (default: duplicateThreshold)
+     */
+    findDuplicateMemories(threshold?: number): MCPResponse<DuplicateGroup[]> {
+        try {
+            const minSimilarity = threshold ?? (this.config.duplicateThreshold || DEFAULT_CONFIG.duplicateThreshold);
+            return {
+                success: true,
+                data: this.longTermMemory.findDuplicates(minSimilarity),
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to find duplicate memories: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * List contradicting memories that still need review
+     * @param includeResolved Also list contradictions resolved by superseding one side
+     */
+    getConflicts(includeResolved: boolean = false): MCPResponse<MemoryConflict[]> {
+        try {
+            return {
+                success: true,
+                data: this.longTermMemory.getConflicts(includeResolved),
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to get conflicts: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    mergeMemories(ids: string[], options: MergeOptions = {}): MCPResponse<MergeResult> {
+        const result = this.longTermMemory.merge(ids, options);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    deleteLongTermMemory(id: string): MCPResponse<void> {
+        const result = this.longTermMemory.delete(id);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    getAssociations(id: string): MCPResponse<string[]> {
+        return this.longTermMemory.getAssociations(id);
+    }
+
+    linkMemories(
+        sourceId: string,
+        targetId: string,
+        options: LinkOptions = {}
+    ): MCPResponse<GraphEdge> {
+        const result = this.longTermMemory.link(sourceId, targetId, options);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    unlinkMemories(sourceId: string, targetId: string): MCPResponse<void> {
+        const result = this.longTermMemory.unlink(sourceId, targetId);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    getMemoryEdges(
+        id: string,
+        direction: EdgeDirection = 'both',
+        relation?: string
+    ): MCPResponse<GraphEdge[]> {
+        return this.longTermMemory.getEdges(id, direction, relation);
+    }
+
+    findMemoryPath(
+        fromId: string,
+        toId: string,
+        options: TraversalOptions = {}
+    ): MCPResponse<MemoryPath> {
+        return this.longTermMemory.findPath(fromId, toId, options);
+    }
+
+    getMemoryNeighborhood(
+        id: string,
+        options: TraversalOptions = {}
+    ): MCPResponse<MemorySubgraph> {
+        return this.longTermMemory.getNeighborhood(id, options);
+    }
+
+    exportSubgraph(ids: string[], relations?: string[]): MCPResponse<MemorySubgraph> {
+        return this.longTermMemory.getSubgraph(ids, relations);
+    }
+
+    // =========================================================================
+    // Import and Export
+    // =========================================================================
+
+    /**
+     * Export long-term memories in a portable format
+     * Files are returned inline unless an output path is given
+     */
+    async exportMemory(options: ExportOptions): Promise<MCPResponse<ExportResult>> {
+        try {
+            const nodes = this.longTermMemory.getAllNodes();
+            let selected: LongTermMemoryNode[];
+
+            if (options.ids) {
+                selected = [];
+                for (const id of options.ids) {
+                    const node = nodes.get(id);
+                    if (!node) {
+                        return {
+                            success: false,
+                            error: `Memory not found: ${id}`,
+                        };
+                    }
+                    selected.push(node);
+                }
+            } else {
+                selected = Array.from(nodes.values());
+            }
+
+            const files = exportNodes(selected, options.format);
+            const result: ExportResult = {
+                format: options.format,
+                count: selected.length,
+            };
+
+            if (options.outputPath) {
+                result.written = await writeExportFiles(files, options.format, options.outputPath);
+            } else {
+                result.files = files;
+            }
+
+            return {
+                success: true,
+                data: result,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to export memories: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Import memories from a file, directory or inline content
+     */
+    async importMemory(options: ImportOptions): Promise<MCPResponse<ImportReport>> {
+        try {
+            let files: ExportFile[];
+            if (options.inputPath) {
+                files = await readImportFiles(options.inputPath, options.format);
+            } else if (options.files) {
+                files = options.files;
+            } else if (options.content !== undefined) {
+                files = [{ name: defaultFileName(options.format), content: options.content }];
+            } else {
+                return {
+                    success: false,
+                    error: 'One of inputPath, files or content is required',
+                };
+            }
+
+            const nodes = parseImport(files, options.format);
+            const result = this.longTermMemory.importNodes(nodes, options.strategy ?? 'skip');
+            if (result.success) {
+                await this.save();
+            }
+            return result;
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to import memories: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    // =========================================================================
+    // Snapshots
+    // =========================================================================
+
+    /**
+     * Take a snapshot of the whole space (memories, thought chains and short-term buffer)
+     */
+    async createSnapshot(
+        label?: string,
+        reason: SnapshotReason = 'manual'
+    ): Promise<MCPResponse<SnapshotInfo>> {
+        const result = await this.snapshots.create(this.currentGraph(), reason, label);
+        if (result.success) {
+            this.lastSnapshotAt = Date.now();
+            this.changedSinceSnapshot = false;
+        }
+        return result;
+    }
+
+    async listSnapshots(): Promise<MCPResponse<SnapshotInfo[]>> {
+        return this.snapshots.list();
+    }
+
+    /**
+     * Compare the long-term memories of a snapshot with the current ones
+     */
+    async diffSnapshot(snapshotId: string): Promise<MCPResponse<SnapshotDiff>> {
+        try {
+            const snapshotResult = await this.snapshots.read(snapshotId);
+            if (!snapshotResult.success) {
+                return snapshotResult;
+            }
+
+            const before = snapshotResult.data.memories;
+            const current = this.longTermMemory.getAllNodes();
+            const diff: SnapshotDiff = {
+                snapshot: snapshotId,
+                added: [],
+                removed: [],
+                changed: [],
+            };
+
+            for (const node of current.values()) {
+                const old = before[node.id];
+                if (!old) {
+                    diff.added.push({ id: node.id, text: node.text });
+                    continue;
+                }
+
+                const fields = this.changedFields(old, node);
+                if (fields.length > 0) {
+                    diff.changed.push({ id: node.id, text: node.text, fields });
+                }
+            }
+
+            for (const old of Object.values(before)) {
+                if (!current.has(old.id)) {
+                    diff.removed.push({ id: old.id, text: old.text });
+                }
+            }
+
+            return {
+                success: true,
+                data: diff,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to diff snapshot: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Restore long-term memories from a snapshot
+     * Without ids the whole graph is replaced; with ids only those memories are written
+     * back (with their outgoing associations to memories that still exist).
+     * A snapshot of the current state is taken first, so a restore can be undone
+     */
+    async restoreMemory(snapshotId: string, ids?: string[]): Promise<MCPResponse<RestoreReport>> {
+        try {
+            const snapshotResult = await this.snapshots.read(snapshotId);
+            if (!snapshotResult.success) {
+                return snapshotResult;
+            }
+            const memories = snapshotResult.data.memories;
+
+            const safety = await this.createSnapshot(`Before restoring ${snapshotId}`, 'pre-restore');
+            if (!safety.success) {
+                return safety;
+            }
+
+            const report: RestoreReport = {
+                snapshot: snapshotId,
+                restored: 0,
+                removed: 0,
+                notFound: [],
+                safetySnapshot: safety.data.id,
+            };
+
+            if (ids) {
+                const nodes: LongTermMemoryNode[] = [];
+                for (const id of new Set(ids)) {
+                    if (memories[id]) {
+                        nodes.push(memories[id]);
+                    } else {
+                        report.notFound.push(id);
+                    }
+                }
+
+                const importResult = this.longTermMemory.importNodes(nodes, 'overwrite');
+                if (!importResult.success) {
+                    return importResult;
+                }
+                report.restored = nodes.length;
+            } else {
+                const previousIds = Array.from(this.longTermMemory.getAllNodes().keys());
+                report.removed = previousIds.filter((id) => !memories[id]).length;
+
+                const loadResult = this.longTermMemory.loadNodes(memories);
+                if (!loadResult.success) {
+                    return loadResult;
+                }
+                this.longTermMemory.restoreChangedIds([...previousIds, ...Object.keys(memories)]);
+                report.restored = Object.keys(memories).length;
+            }
+
+            const saveResult = await this.save();
+            if (!saveResult.success) {
+                return saveResult;
+            }
+
+            return {
+                success: true,
+                data: report,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to restore memory: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    // =========================================================================
+    // Thinking Process Operations
+    // =========================================================================
+
+    startThoughtProcess(goal: string, context?: string): MCPResponse<string> {
+        const result = this.thinkingProcess.startThoughtProcess(goal, context);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    addThought(
+        chainId: string,
+        thought: string,
+        type: ThoughtType,
+        parentThoughtId?: string,
+        confidence: number = 0.7
+    ): MCPResponse<string> {
+        const result = this.thinkingProcess.addThought(chainId, thought, type, parentThoughtId, confidence);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    branchThought(
+        thoughtId: string,
+        newThought: string,
+        type: ThoughtType = 'hypothesis',
+        confidence: number = 0.6
+    ): MCPResponse<string> {
+        const result = this.thinkingProcess.branchThought(thoughtId, newThought, type, confidence);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    mergeBranch(
+        branchChainId: string,
+        conclusion: string,
+        type: ThoughtType = 'analysis',
+        confidence: number = 0.7
+    ): MCPResponse<string> {
+        const result = this.thinkingProcess.mergeBranch(branchChainId, conclusion, type, confidence);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    evaluateThought(thoughtId: string, confidence: number, reasoning: string): MCPResponse<void> {
+        const result = this.thinkingProcess.evaluateThought(thoughtId, confidence, reasoning);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    completeThoughtProcess(
+        chainId: string,
+        conclusion: string,
+        options: CompleteThoughtOptions = {}
+    ): MCPResponse<ThoughtConclusion> {
+        const result = this.thinkingProcess.completeThoughtProcess(chainId, conclusion, options);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    getCurrentThoughtChain(chainId: string) {
+        return this.thinkingProcess.getCurrentThoughtChain(chainId);
+    }
+
+    getThoughtTree(chainId: string) {
+        return this.thinkingProcess.getThoughtTree(chainId);
+    }
+
+    pauseThinking(chainId: string, reason: string): MCPResponse<void> {
+        const result = this.thinkingProcess.pauseThinking(chainId, reason);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    resumeThinking(chainId: string): MCPResponse<void> {
+        const result = this.thinkingProcess.resumeThinking(chainId);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    switchCognitiveMode(mode: CognitiveMode, chainId?: string): MCPResponse<void> {
+        const result = this.thinkingProcess.switchCognitiveMode(mode, chainId);
+        if (result.success) {
+            // 自动保存到本地存储
+            this.save();
+        }
+        return result;
+    }
+
+    getOptimalModeForTask(taskType: string): MCPResponse<CognitiveMode> {
+        return this.thinkingProcess.getOptimalModeForTask(taskType);
+    }
+
+    getThinkingProgress(chainId: string) {
+        return this.thinkingProcess.getThinkingProgress(chainId);
+    }
+
+    getActiveChains() {
+        return this.thinkingProcess.getActiveChains();
+    }
+
+    getThinkingStats() {
+        return this.thinkingProcess.getThinkingStats();
+    }
+
+    // =========================================================================
+    // Utility Methods
+    // =========================================================================
+
+    /**
+     * Blend keyword (BM25) and vector scores, each normalized to 0-1
+     * Terms default to OR here so paraphrases sharing only some words still qualify
+     */
+    private async hybridSearch(
+        keyword: string,
+        options: SearchOptions & { limit: number }
+    ): Promise<MCPResponse<SearchResult[]>> {
+        try {
+            const weight = options.semanticWeight ?? 0.5;
+            if (weight < 0 || weight > 1) {
+                return {
+                    success: false,
+                    error: 'semanticWeight must be between 0 and 1',
+                };
+            }
+
+            // Over-fetch from both sides so the blend has enough candidates
+            const poolSize = options.limit * 5;
+            const keywordResult = this.longTermMemory.search(
+                keyword,
+                { ...options, operator: options.operator ?? 'or', limit: poolSize },
+                (node) => this.rankingBoost(node)
+            );
+            if (!keywordResult.success) {
+                return keywordResult;
+            }
+
+            const semanticResult = await this.semanticSearchLongTermMemory(keyword, {
+                ...this.filterOf(options),
+                limit: poolSize,
+            });
+            if (!semanticResult.success) {
+                return semanticResult;
+            }
+
+            const blended = new Map<string, SearchResult>();
+            const addScores = (results: SearchResult[], share: number) => {
+                const max = Math.max(...results.map((r) => r.relevance ?? 0), 0);
+                for (const result of results) {
+                    const normalized = max > 0 ? (result.relevance ?? 0) / max : 0;
+                    const entry = blended.get(result.id) ?? { id: result.id, text: result.text, relevance: 0 };
+                    entry.relevance = (entry.relevance ?? 0) + share * normalized;
+                    blended.set(result.id, entry);
+                }
+            };
+
+            addScores(keywordResult.data, 1 - weight);
+            addScores(semanticResult.data, weight);
+
+            const results = Array.from(blended.values())
+                .sort((a, b) => (b.relevance ?? 0) - (a.relevance ?? 0))
+                .slice(0, options.limit);
+
+            return {
+                success: true,
+                data: results,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to run hybrid search: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    // =========================================================================
+    // Decay and Forgetting
+    // =========================================================================
+
+    /**
+     * Find weak, unlinked memories and archive or delete them
+     * With dryRun, only reports what would be forgotten
+     */
+    forgetMemories(options: ForgetOptions = {}): MCPResponse<ForgetReport> {
+        try {
+            const threshold = options.threshold ?? this.config.forgetThreshold;
+            const action = options.action ?? this.config.forgetAction;
+            const dryRun = options.dryRun ?? false;
+
+            if (threshold < 0 || threshold > 1) {
+                return {
+                    success: false,
+                    error: 'Threshold must be between 0 and 1',
+                };
+            }
+
+            const now = Date.now();
+            const candidates: ForgetCandidate[] = [];
+
+            for (const node of this.longTermMemory.getAllNodes().values()) {
+                if (node.metadata.archived || this.longTermMemory.isLinked(node.id)) {
+                    continue;
+                }
+
+                const strength = computeStrength(node.metadata, this.decayPolicy, now);
+                if (strength < threshold) {
+                    candidates.push({
+                        id: node.id,
+                        text: node.text,
+                        strength,
+                        lastAccessed: node.metadata.lastAccessed,
+                        accessCount: node.metadata.accessCount,
+                    });
+                }
+            }
+
+            candidates.sort((a, b) => a.strength - b.strength);
+
+            if (!dryRun && candidates.length > 0) {
+                for (const candidate of candidates) {
+                    const result = action === 'delete'
+                        ? this.longTermMemory.delete(candidate.id)
+                        : this.longTermMemory.archive(candidate.id);
+                    if (!result.success) {
+                        return result;
+                    }
+                }
+
+                // 自动保存到本地存储
+                this.save();
+            }
+
+            return {
+                success: true,
+                data: {
+                    candidates,
+                    action,
+                    applied: !dryRun,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to forget memories: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Search score multiplier blending in memory strength
+     * With decayRankingWeight w, a memory at strength s scores (1 - w + w * s) of its raw relevance
+     */
+    private rankingBoost(node: LongTermMemoryNode): number {
+        const weight = this.config.decayRankingWeight;
+        if (weight <= 0) {
+            return 1;
+        }
+        return 1 - weight + weight * computeStrength(node.metadata, this.decayPolicy);
+    }
+
+    /**
+     * Extract the shared memory filter from search options
+     */
+    private filterOf(options: MemoryFilter): MemoryFilter {
+        return {
+            tags: options.tags,
+            tagMode: options.tagMode,
+            properties: options.properties,
+            includeArchived: options.includeArchived,
+            includeSuperseded: options.includeSuperseded,
+            from: options.from,
+            to: options.to,
+            timeField: options.timeField,
+        };
+    }
+
+    /**
+     * Names of the fields that differ between two versions of a memory
+     */
+    private changedFields(before: LongTermMemoryNode, after: LongTermMemoryNode): string[] {
+        const sortedJson = (value: Record<string, unknown>) =>
+            JSON.stringify(Object.keys(value).sort().map((key) => [key, value[key]]));
+        const fields: string[] = [];
+
+        if (before.text !== after.text) {
+            fields.push('text');
+        }
+        if (JSON.stringify([...(before.tags ?? [])].sort()) !== JSON.stringify([...(after.tags ?? [])].sort())) {
+            fields.push('tags');
+        }
+        if (sortedJson(before.properties ?? {}) !== sortedJson(after.properties ?? {})) {
+            fields.push('properties');
+        }
+        const edges = (node: LongTermMemoryNode) =>
+            sortedJson(Object.fromEntries(node.associations.map((id) => [id, node.edges?.[id]?.relation])));
+        if (edges(before) !== edges(after)) {
+            fields.push('associations');
+        }
+        if (Boolean(before.metadata.archived) !== Boolean(after.metadata.archived)) {
+            fields.push('archived');
+        }
+
+        return fields;
+    }
+
+    /**
+     * Everything the storage persists
+     */
+    private currentGraph(): MemoryGraph {
+        return {
+            memories: Object.fromEntries(this.longTermMemory.getAllNodes()),
+            thinking: this.thinkingProcess.exportState(),
+            shortTerm: this.config.persistShortTermMemory
+                ? this.shortTermMemory.exportEntries()
+                : undefined,
+        };
+    }
+
+    /**
+     * Estimate cache size in bytes (rough approximation)
+     */
+    private estimateCacheSize(): number {
+        const nodes = this.longTermMemory.getAllNodes();
+        let size = 0;
+
+        for (const node of nodes.values()) {
+            size += JSON.stringify(node).length * 2; // Rough estimate (UTF-16)
+        }
+
+        return size;
+    }
+
+    /**
+     * Check if initialized
+     */
+    isInitialized(): boolean {
+        return this.initialized;
+    }
+
+    /**
+     * Copy this space's stored files into another directory (saves first)
+     */
+    async copyTo(targetPath: string): Promise<MCPResponse<void>> {
+        const saveResult = await this.save();
+        if (!saveResult.success) {
+            return saveResult;
+        }
+        return this.storage.copyTo(targetPath);
+    }
+}
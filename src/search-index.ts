@@ -0,0 +1,318 @@
+/**
+ * Search Index
+ * Tokenized inverted index with BM25 scoring for long-term memory search
+ */
+
+// BM25 tuning parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// CJK ideographs, kana and hangul are written without spaces between words
+const CJK_RANGES = '\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uac00-\\ud7af\\uf900-\\ufaff';
+const CJK_CHAR = new RegExp(`[${CJK_RANGES}]`);
+const TOKEN_RUN = new RegExp(`[${CJK_RANGES}]+|(?:(?![${CJK_RANGES}])[\\p{L}\\p{N}_])+`, 'gu');
+
+export type QueryOperator = 'and' | 'or';
+
+export interface IndexSearchOptions {
+    operator?: QueryOperator;
+}
+
+export interface IndexMatch {
+    id: string;
+    score: number;
+}
+
+interface ParsedQuery {
+    terms: string[]; // Tokens of all free terms and phrases
+    clauses: string[][]; // Tokens per clause (a free term or a phrase)
+    phrases: string[]; // Normalized phrase strings that must appear verbatim
+}
+
+/**
+ * Tokenize text for indexing or querying
+ * Latin text is split into words; CJK runs are split into bigrams, plus unigrams
+ * when indexing so single-character queries still match
+ */
+export function tokenize(text: string, forQuery: boolean = false): string[] {
+    const tokens: string[] = [];
+    const runs = text.toLowerCase().match(TOKEN_RUN) ?? [];
+
+    for (const run of runs) {
+        if (!CJK_CHAR.test(run)) {
+            tokens.push(run);
+            continue;
+        }
+
+        const chars = Array.from(run);
+        if (chars.length === 1) {
+            tokens.push(chars[0]);
+            continue;
+        }
+
+        if (!forQuery) {
+            tokens.push(...chars);
+        }
+
+        for (let i = 0; i < chars.length - 1; i++) {
+            tokens.push(chars[i] + chars[i + 1]);
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Normalize text for phrase comparison (case and whitespace)
+ */
+function normalizePhrase(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Split a query into free terms and "quoted phrases"
+ */
+function parseQuery(query: string): ParsedQuery {
+    const clauses: string[][] = [];
+    const phrases: string[] = [];
+
+    const remainder = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+        const tokens = tokenize(phrase, true);
+        if (tokens.length > 0) {
+            clauses.push(tokens);
+            phrases.push(normalizePhrase(phrase));
+        }
+        return ' ';
+    });
+
+    for (const word of remainder.split(/\s+/)) {
+        const tokens = tokenize(word, true);
+        if (tokens.length > 0) {
+            clauses.push(tokens);
+        }
+    }
+
+    return {
+        terms: Array.from(new Set(clauses.flat())),
+        clauses,
+        phrases,
+    };
+}
+
+export class InvertedIndex {
+    private postings: Map<string, Map<string, number>> = new Map(); // term -> (id -> term frequency)
+    private docTerms: Map<string, string[]> = new Map(); // id -> distinct terms
+    private docLengths: Map<string, number> = new Map();
+    private docTexts: Map<string, string> = new Map(); // id -> normalized text for phrase checks
+    private totalLength: number = 0;
+
+    /**
+     * Add or replace a document
+     */
+    add(id: string, text: string): void {
+        this.remove(id);
+
+        const tokens = tokenize(text);
+        const frequencies = new Map<string, number>();
+        for (const token of tokens) {
+            frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+        }
+
+        for (const [term, frequency] of frequencies) {
+            let posting = this.postings.get(term);
+            if (!posting) {
+                posting = new Map();
+                this.postings.set(term, posting);
+            }
+            posting.set(id, frequency);
+        }
+
+        this.docTerms.set(id, Array.from(frequencies.keys()));
+        this.docLengths.set(id, tokens.length);
+        this.docTexts.set(id, normalizePhrase(text));
+        this.totalLength += tokens.length;
+    }
+
+    /**
+     * Remove a document
+     */
+    remove(id: string): void {
+        const terms = this.docTerms.get(id);
+        if (!terms) {
+            return;
+        }
+
+        for (const term of terms) {
+            const posting = this.postings.get(term);
+            if (!posting) {
+                continue;
+            }
+            posting.delete(id);
+            if (posting.size === 0) {
+                this.postings.delete(term);
+            }
+        }
+
+        this.totalLength -= this.docLengths.get(id) ?? 0;
+        this.docTerms.delete(id);
+        this.docLengths.delete(id);
+        this.docTexts.delete(id);
+    }
+
+    /**
+     * Remove all documents
+     */
+    clear(): void {
+        this.postings.clear();
+        this.docTerms.clear();
+        this.docLengths.clear();
+        this.docTexts.clear();
+        this.totalLength = 0;
+    }
+
+    /**
+     * Search the index, returning matches sorted by BM25 score (best first)
+     * Free terms are combined with the given operator; quoted phrases must
+     * always appear verbatim
+     */
+    search(query: string, options: IndexSearchOptions = {}): IndexMatch[] {
+        const operator = options.operator ?? 'and';
+        const parsed = parseQuery(query);
+
+        if (parsed.clauses.length === 0) {
+            return [];
+        }
+
+        // Resolve each query term to the indexed terms it covers
+        const expansions = new Map<string, string[]>();
+        for (const term of parsed.terms) {
+            expansions.set(term, this.expandTerm(term));
+        }
+
+        // Documents matching each clause (all of its tokens present)
+        const clauseMatches = parsed.clauses.map((tokens) => {
+            let matches: Set<string> | undefined;
+            for (const token of tokens) {
+                const docs = this.docsForTerms(expansions.get(token) ?? []);
+                matches = matches ? new Set([...matches].filter((id) => docs.has(id))) : docs;
+            }
+            return matches ?? new Set<string>();
+        });
+
+        let candidates: Set<string>;
+        if (operator === 'and') {
+            candidates = clauseMatches.reduce(
+                (acc, docs) => new Set([...acc].filter((id) => docs.has(id)))
+            );
+        } else {
+            candidates = new Set(clauseMatches.flatMap((docs) => [...docs]));
+        }
+
+        // Phrases are hard constraints regardless of operator
+        if (parsed.phrases.length > 0) {
+            candidates = new Set(
+                [...candidates].filter((id) => {
+                    const text = this.docTexts.get(id) ?? '';
+                    return parsed.phrases.every((phrase) => text.includes(phrase));
+                })
+            );
+        }
+
+        const matches: IndexMatch[] = [];
+        for (const id of candidates) {
+            matches.push({ id, score: this.score(id, parsed.terms, expansions) });
+        }
+
+        return matches.sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Find documents with nearly the same words as a text, most similar first
+     * Similarity is the Jaccard index of the indexed terms, so case, punctuation
+     * and spacing are ignored
+     * @param minSimilarity Lowest similarity returned (0-1)
+     */
+    similar(text: string, minSimilarity: number): IndexMatch[] {
+        const terms = new Set(tokenize(text));
+        const shared = new Map<string, number>(); // id -> terms in common
+        for (const term of terms) {
+            for (const id of this.postings.get(term)?.keys() ?? []) {
+                shared.set(id, (shared.get(id) ?? 0) + 1);
+            }
+        }
+
+        const matches: IndexMatch[] = [];
+        for (const [id, count] of shared) {
+            const score = count / (terms.size + (this.docTerms.get(id)?.length ?? 0) - count);
+            if (score >= minSimilarity) {
+                matches.push({ id, score });
+            }
+        }
+
+        return matches.sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Compute the BM25 score of a document for the given query terms
+     * @private
+     */
+    private score(id: string, terms: string[], expansions: Map<string, string[]>): number {
+        const docCount = this.docLengths.size;
+        const avgLength = docCount > 0 ? this.totalLength / docCount : 0;
+        const length = this.docLengths.get(id) ?? 0;
+        let score = 0;
+
+        for (const term of terms) {
+            for (const indexed of expansions.get(term) ?? []) {
+                const posting = this.postings.get(indexed);
+                const frequency = posting?.get(id);
+                if (!posting || !frequency) {
+                    continue;
+                }
+
+                const idf = Math.log(1 + (docCount - posting.size + 0.5) / (posting.size + 0.5));
+                const norm = 1 - BM25_B + BM25_B * (avgLength > 0 ? length / avgLength : 1);
+                score += idf * ((frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * norm));
+            }
+        }
+
+        return score;
+    }
+
+    /**
+     * Exact term if indexed, otherwise indexed terms it is a prefix of
+     * Keeps partial-word queries working as they did with substring search
+     * @private
+     */
+    private expandTerm(term: string): string[] {
+        if (this.postings.has(term)) {
+            return [term];
+        }
+
+        if (CJK_CHAR.test(term)) {
+            return [];
+        }
+
+        const expanded: string[] = [];
+        for (const indexed of this.postings.keys()) {
+            if (indexed.startsWith(term)) {
+                expanded.push(indexed);
+            }
+        }
+        return expanded;
+    }
+
+    /**
+     * Union of documents containing any of the given indexed terms
+     * @private
+     */
+    private docsForTerms(terms: string[]): Set<string> {
+        const docs = new Set<string>();
+        for (const term of terms) {
+            for (const id of this.postings.get(term)?.keys() ?? []) {
+                docs.add(id);
+            }
+        }
+        return docs;
+    }
+}
@@ -0,0 +1,74 @@
+/**
+ * Brain Session
+ * Per-client state on top of a shared BrainMCP instance
+ */
+
+import { BrainMCP } from './brain-mcp.js';
+import { MemorySpace } from './memory-space.js';
+import { DEFAULT_SPACE } from './config.js';
+import { MCPResponse, MemorySpaceInfo } from './types.js';
+
+export class BrainSession {
+    private brain: BrainMCP;
+    private activeSpace: string = DEFAULT_SPACE; // Used by tool calls that do not name a space
+
+    constructor(brain: BrainMCP) {
+        this.brain = brain;
+    }
+
+    /**
+     * Run an operation against the named space, or the session's active space
+     */
+    inSpace<T>(
+        name: string | undefined,
+        operation: (space: MemorySpace) => MCPResponse<T> | Promise<MCPResponse<T>>
+    ): Promise<MCPResponse<T>> {
+        return this.brain.inSpace(name ?? this.activeSpace, operation);
+    }
+
+    /**
+     * Select the space used by tool calls that do not name one
+     */
+    async useSpace(name: string): Promise<MCPResponse<void>> {
+        const spaceResult = await this.brain.getSpace(name);
+        if (!spaceResult.success) {
+            return spaceResult;
+        }
+
+        this.activeSpace = name;
+
+        return {
+            success: true,
+            data: undefined,
+        };
+    }
+
+    /**
+     * List all memory spaces, marking this session's active space
+     */
+    listSpaces(): MCPResponse<MemorySpaceInfo[]> {
+        return this.brain.listSpaces(this.activeSpace);
+    }
+
+    /**
+     * Rename a space, following it if it is the active one
+     */
+    async renameSpace(name: string, newName: string): Promise<MCPResponse<void>> {
+        const result = await this.brain.renameSpace(name, newName);
+        if (result.success && this.activeSpace === name) {
+            this.activeSpace = newName;
+        }
+        return result;
+    }
+
+    /**
+     * Delete a space, falling back to the default space if it was the active one
+     */
+    async deleteSpace(name: string): Promise<MCPResponse<void>> {
+        const result = await this.brain.deleteSpace(name);
+        if (result.success && this.activeSpace === name) {
+            this.activeSpace = DEFAULT_SPACE;
+        }
+        return result;
+    }
+}
@@ -1,6 +1,6 @@
 /**
  * Short-Term Memory Manager
- * Implements a FIFO-based temporary memory cache
+ * Implements a FIFO-based temporary memory cache with optional TTL expiry
  */
 
 import { ShortTermMemoryEntry, MCPResponse } from './types.js';
@@ -8,16 +8,20 @@ import { ShortTermMemoryEntry, MCPResponse } from './types.js';
 export class ShortTermMemory {
     private memories: ShortTermMemoryEntry[] = [];
     private capacity: number;
+    private defaultTTL: number;
+    private isDirty: boolean = false; // Track if data needs saving
 
-    constructor(capacity: number = 100) {
+    constructor(capacity: number = 100, defaultTTL: number = 0) {
         this.capacity = capacity;
+        this.defaultTTL = defaultTTL;
     }
 
     /**
      * Add a new entry to short-term memory
      * Automatically evicts oldest entry if capacity is exceeded
+     * @param ttl Time-to-live in milliseconds (defaults to configured TTL, 0 = never expire)
      */
-    add(text: string): MCPResponse<void> {
+    add(text: string, ttl?: number): MCPResponse<void> {
         try {
             if (!text || text.trim().length === 0) {
                 return {
@@ -26,11 +30,25 @@ export class ShortTermMemory {
                 };
             }
 
+            const effectiveTTL = ttl ?? this.defaultTTL;
+            if (effectiveTTL < 0) {
+                return {
+                    success: false,
+                    error: 'TTL cannot be negative',
+                };
+            }
+
+            const now = Date.now();
             const entry: ShortTermMemoryEntry = {
                 text: text.trim(),
-                timestamp: Date.now(),
+                timestamp: now,
             };
 
+            if (effectiveTTL > 0) {
+                entry.expiresAt = now + effectiveTTL;
+            }
+
+            this.evictExpired();
             this.memories.push(entry);
 
             // FIFO eviction: remove oldest if capacity exceeded
@@ -38,6 +56,8 @@ export class ShortTermMemory {
                 this.memories.shift(); // Remove first (oldest) element
             }
 
+            this.isDirty = true;
+
             return {
                 success: true,
                 data: undefined,
@@ -55,6 +75,8 @@ export class ShortTermMemory {
      */
     getAll(): MCPResponse<ShortTermMemoryEntry[]> {
         try {
+            this.evictExpired();
+
             // Return reversed copy (newest first) without modifying original
             return {
                 success: true,
@@ -74,6 +96,7 @@ export class ShortTermMemory {
     clear(): MCPResponse<void> {
         try {
             this.memories = [];
+            this.isDirty = true;
             return {
                 success: true,
                 data: undefined,
@@ -86,10 +109,40 @@ export class ShortTermMemory {
         }
     }
 
+    /**
+     * Remove specific entries (matched by text and timestamp)
+     */
+    remove(entries: ShortTermMemoryEntry[]): MCPResponse<number> {
+        try {
+            const keys = new Set(entries.map((entry) => `${entry.timestamp}:${entry.text}`));
+            const before = this.memories.length;
+
+            this.memories = this.memories.filter(
+                (entry) => !keys.has(`${entry.timestamp}:${entry.text}`)
+            );
+
+            const removed = before - this.memories.length;
+            if (removed > 0) {
+                this.isDirty = true;
+            }
+
+            return {
+                success: true,
+                data: removed,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to remove short-term memories: ${(error as Error).message}`,
+            };
+        }
+    }
+
     /**
      * Get current count of memories
      */
     getCount(): number {
+        this.evictExpired();
         return this.memories.length;
     }
 
@@ -110,6 +163,7 @@ export class ShortTermMemory {
             // Trim if current size exceeds new capacity
             while (this.memories.length > this.capacity) {
                 this.memories.shift();
+                this.isDirty = true;
             }
 
             return {
@@ -123,4 +177,79 @@ export class ShortTermMemory {
             };
         }
     }
+
+    /**
+     * Remove entries whose TTL has elapsed
+     * @private
+     */
+    private evictExpired(): void {
+        const now = Date.now();
+        const remaining = this.memories.filter(
+            (entry) => entry.expiresAt === undefined || entry.expiresAt > now
+        );
+
+        if (remaining.length !== this.memories.length) {
+            this.memories = remaining;
+            this.isDirty = true;
+        }
+    }
+
+    /**
+     * Get all entries in insertion order (for persistence)
+     */
+    exportEntries(): ShortTermMemoryEntry[] {
+        this.evictExpired();
+        return this.memories.map((entry) => ({ ...entry }));
+    }
+
+    /**
+     * Load entries from external source (for persistence)
+     * Expired entries are dropped and capacity is enforced
+     */
+    loadEntries(entries: ShortTermMemoryEntry[]): MCPResponse<void> {
+        try {
+            this.memories = entries
+                .filter((entry) => entry && typeof entry.text === 'string')
+                .map((entry) => ({ ...entry }));
+
+            this.evictExpired();
+
+            while (this.memories.length > this.capacity) {
+                this.memories.shift();
+            }
+
+            this.isDirty = false;
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to load short-term memories: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Check if data has been modified since last save
+     */
+    checkIsDirty(): boolean {
+        return this.isDirty;
+    }
+
+    /**
+     * Mark data as clean (after save)
+     */
+    markClean(): void {
+        this.isDirty = false;
+    }
+
+    /**
+     * Mark data as modified again (after a failed save)
+     */
+    markDirty(): void {
+        this.isDirty = true;
+    }
 }
@@ -0,0 +1,265 @@
+/**
+ * Snapshot Store
+ * Rotating, timestamped copies of a memory space for point-in-time restore
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { STORAGE_VERSION } from './config.js';
+import { writeFileAtomic } from './storage.js';
+import { FileCipher, decodeStored, encodeStored } from './encryption.js';
+import { MemoryGraph, MCPResponse, SnapshotInfo, SnapshotReason } from './types.js';
+
+const INDEX_FILE = 'index.json';
+const SNAPSHOT_EXTENSION = '.brain';
+
+export interface RetentionPolicy {
+    count: number; // Snapshots kept at most
+    maxAge: number; // milliseconds, 0 = no age limit
+}
+
+export class SnapshotStore {
+    private directory: string;
+    private policy: RetentionPolicy;
+    private cipher?: FileCipher; // Encrypts snapshot files when set (the index stays readable)
+
+    constructor(directory: string, policy: RetentionPolicy, cipher?: FileCipher) {
+        this.directory = directory;
+        this.policy = policy;
+        this.cipher = cipher;
+    }
+
+    /**
+     * Write a snapshot and prune the ones the retention policy no longer covers
+     * Snapshots use the memory.brain format, so one can also be copied into place by hand
+     */
+    async create(
+        graph: MemoryGraph,
+        reason: SnapshotReason,
+        label?: string
+    ): Promise<MCPResponse<SnapshotInfo>> {
+        try {
+            await fs.mkdir(this.directory, { recursive: true });
+            const entries = await this.readIndex();
+
+            const createdAt = new Date().toISOString();
+            let id = createdAt.replace(/[:.]/g, '-');
+            for (let n = 1; entries.some((entry) => entry.id === id); n++) {
+                id = `${createdAt.replace(/[:.]/g, '-')}-${n}`;
+            }
+
+            const data = encodeStored(JSON.stringify({ ...graph, version: STORAGE_VERSION }), this.cipher);
+            await writeFileAtomic(this.filePath(id), data);
+
+            const info: SnapshotInfo = {
+                id,
+                createdAt,
+                reason,
+                label,
+                memoryCount: Object.keys(graph.memories).length,
+                size: Buffer.byteLength(data),
+            };
+
+            await this.writeIndex(await this.prune([info, ...entries]));
+
+            return {
+                success: true,
+                data: info,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to create snapshot: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * List snapshots, newest first
+     */
+    async list(): Promise<MCPResponse<SnapshotInfo[]>> {
+        try {
+            return {
+                success: true,
+                data: await this.readIndex(),
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to list snapshots: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Read the graph stored in a snapshot
+     */
+    async read(id: string): Promise<MCPResponse<MemoryGraph>> {
+        try {
+            if (!/^[\w-]+$/.test(id)) {
+                return {
+                    success: false,
+                    error: `Invalid snapshot ID: ${id}`,
+                };
+            }
+
+            let data: string;
+            try {
+                data = await fs.readFile(this.filePath(id), 'utf-8');
+            } catch {
+                return {
+                    success: false,
+                    error: `Snapshot not found: ${id}`,
+                };
+            }
+
+            const graph = JSON.parse(decodeStored(data, this.cipher, `snapshot ${id}`)) as MemoryGraph;
+            if (!graph.memories || typeof graph.memories !== 'object') {
+                throw new Error('Invalid snapshot structure');
+            }
+
+            return {
+                success: true,
+                data: graph,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to read snapshot ${id}: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Re-encrypt every snapshot with another key (without one they are stored unencrypted)
+     * Snapshots already using the new key are left alone, so an interrupted run can be repeated
+     */
+    async rekey(cipher?: FileCipher): Promise<MCPResponse<void>> {
+        try {
+            for (const entry of await this.readIndex()) {
+                const filePath = this.filePath(entry.id);
+                const stored = await fs.readFile(filePath, 'utf-8');
+
+                let data: string;
+                try {
+                    data = decodeStored(stored, this.cipher, `snapshot ${entry.id}`);
+                } catch (error) {
+                    try {
+                        decodeStored(stored, cipher, `snapshot ${entry.id}`);
+                        continue;
+                    } catch {
+                        throw error;
+                    }
+                }
+                await writeFileAtomic(filePath, encodeStored(data, cipher));
+            }
+
+            this.cipher = cipher;
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to re-encrypt snapshots: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    // =========================================================================
+    // Helpers
+    // =========================================================================
+
+    /**
+     * Snapshot entries, newest first
+     * The directory is the source of truth: entries without a file are dropped and
+     * files missing from the index (e.g. copied in by hand) are added
+     * @private
+     */
+    private async readIndex(): Promise<SnapshotInfo[]> {
+        let files: string[];
+        try {
+            files = (await fs.readdir(this.directory)).filter((file) => file.endsWith(SNAPSHOT_EXTENSION));
+        } catch {
+            return [];
+        }
+
+        let indexed: SnapshotInfo[] = [];
+        try {
+            indexed = JSON.parse(await fs.readFile(path.join(this.directory, INDEX_FILE), 'utf-8'));
+        } catch {
+            // Missing or damaged index; rebuilt from the files below
+        }
+
+        const byId = new Map(indexed.map((entry) => [entry.id, entry]));
+        const entries: SnapshotInfo[] = [];
+
+        for (const file of files) {
+            const id = file.slice(0, -SNAPSHOT_EXTENSION.length);
+            const known = byId.get(id);
+            if (known) {
+                entries.push(known);
+                continue;
+            }
+
+            const filePath = this.filePath(id);
+            const stats = await fs.stat(filePath);
+            let memoryCount = 0;
+            try {
+                const data = decodeStored(await fs.readFile(filePath, 'utf-8'), this.cipher, `snapshot ${id}`);
+                memoryCount = Object.keys(JSON.parse(data).memories ?? {}).length;
+            } catch {
+                // Unreadable snapshot; listed so it can be inspected or pruned
+            }
+            entries.push({
+                id,
+                createdAt: stats.mtime.toISOString(),
+                reason: 'manual',
+                memoryCount,
+                size: stats.size,
+            });
+        }
+
+        return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    /**
+     * Save the snapshot index
+     * @private
+     */
+    private async writeIndex(entries: SnapshotInfo[]): Promise<void> {
+        await writeFileAtomic(path.join(this.directory, INDEX_FILE), JSON.stringify(entries, null, 2));
+    }
+
+    /**
+     * Delete snapshots beyond the retention count or age; the newest is always kept
+     * @private
+     */
+    private async prune(entries: SnapshotInfo[]): Promise<SnapshotInfo[]> {
+        const now = Date.now();
+        const kept: SnapshotInfo[] = [];
+
+        for (const [i, entry] of entries.entries()) {
+            const expired =
+                this.policy.maxAge > 0 && now - new Date(entry.createdAt).getTime() > this.policy.maxAge;
+
+            if (i === 0 || (i < this.policy.count && !expired)) {
+                kept.push(entry);
+            } else {
+                await fs.rm(this.filePath(entry.id), { force: true });
+            }
+        }
+
+        return kept;
+    }
+
+    /**
+     * Path of a snapshot file
+     * @private
+     */
+    private filePath(id: string): string {
+        return path.join(this.directory, `${id}${SNAPSHOT_EXTENSION}`);
+    }
+}
@@ -0,0 +1,537 @@
+/**
+ * SQLite Storage
+ * Keeps long-term memory in a SQLite database and writes only the memories that
+ * changed since the last save
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type Database from 'better-sqlite3';
+import { STORAGE_FILES, STORAGE_VERSION } from './config.js';
+import { DEFAULT_RELATION } from './long-term-memory.js';
+import type { StorageBackend } from './storage.js';
+import {
+    AssociationEdge,
+    LongTermMemoryNode,
+    MemoryGraph,
+    MCPResponse,
+    VectorStore,
+} from './types.js';
+
+// Bump together with a migration step in `migrateSchema`
+const SCHEMA_VERSION = 3;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS memories (
+    id TEXT PRIMARY KEY,
+    text TEXT NOT NULL,
+    tags TEXT NOT NULL,
+    properties TEXT NOT NULL,
+    metadata TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    history TEXT NOT NULL DEFAULT '[]'
+);
+
+CREATE TABLE IF NOT EXISTS edges (
+    source TEXT NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    target TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    relation TEXT NOT NULL,
+    weight REAL NOT NULL,
+    created_at TEXT NOT NULL,
+    symmetric INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (source, target)
+);
+CREATE INDEX IF NOT EXISTS edges_target ON edges(target);
+CREATE INDEX IF NOT EXISTS edges_relation ON edges(relation);
+
+CREATE TABLE IF NOT EXISTS memory_tags (
+    id TEXT NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (id, tag)
+);
+CREATE INDEX IF NOT EXISTS memory_tags_tag ON memory_tags(tag);
+
+CREATE TABLE IF NOT EXISTS vectors (
+    id TEXT PRIMARY KEY,
+    hash TEXT NOT NULL,
+    vector TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS state (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+`;
+
+interface MemoryRow {
+    id: string;
+    text: string;
+    tags: string;
+    properties: string;
+    metadata: string;
+    history: string;
+}
+
+interface EdgeRow {
+    source: string;
+    target: string;
+    relation: string;
+    weight: number;
+    created_at: string;
+    symmetric: number;
+}
+
+export class SqliteStorage implements StorageBackend {
+    private storagePath: string;
+    private databasePath: string;
+    private legacy?: StorageBackend;
+    private db?: Database.Database;
+    private vectorHashes: Map<string, string> = new Map(); // Stored vector hash per memory
+    private autoSaveTimer?: NodeJS.Timeout;
+    private pendingSave: boolean = false;
+
+    /**
+     * @param legacy Storage whose data is imported into a new database (the memory.brain file)
+     */
+    constructor(storagePath: string, legacy?: StorageBackend) {
+        this.storagePath = storagePath;
+        this.databasePath = path.join(storagePath, STORAGE_FILES.database);
+        this.legacy = legacy;
+    }
+
+    /**
+     * Open (or create) the database
+     * better-sqlite3 is an optional dependency, so it is only loaded when this backend is used
+     */
+    async init(): Promise<MCPResponse<void>> {
+        try {
+            await fs.mkdir(this.storagePath, { recursive: true });
+
+            let DatabaseConstructor: typeof Database;
+            try {
+                DatabaseConstructor = (await import('better-sqlite3')).default;
+            } catch (error) {
+                return {
+                    success: false,
+                    error: `The sqlite storage backend requires the better-sqlite3 package: ${(error as Error).message}`,
+                };
+            }
+
+            this.db = new DatabaseConstructor(this.databasePath);
+            this.db.pragma('journal_mode = WAL');
+            this.db.pragma('synchronous = NORMAL');
+            this.db.pragma('foreign_keys = ON');
+            this.migrateSchema();
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to initialize database: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Load all memories and state
+     * A new database is first filled from the legacy memory file, if there is one
+     */
+    async load(): Promise<MCPResponse<MemoryGraph>> {
+        try {
+            const db = this.database();
+
+            if (this.legacy && this.readState('migratedAt') === undefined) {
+                const migrateResult = await this.migrateLegacy();
+                if (!migrateResult.success) {
+                    return migrateResult;
+                }
+            }
+
+            const memories: Record<string, LongTermMemoryNode> = {};
+            for (const row of db.prepare('SELECT * FROM memories ORDER BY rowid').all() as MemoryRow[]) {
+                memories[row.id] = {
+                    id: row.id,
+                    text: row.text,
+                    associations: [],
+                    edges: {},
+                    tags: JSON.parse(row.tags),
+                    properties: JSON.parse(row.properties),
+                    metadata: JSON.parse(row.metadata),
+                };
+
+                const history = JSON.parse(row.history);
+                if (history.length > 0) {
+                    memories[row.id].history = history;
+                }
+            }
+
+            for (const row of db.prepare('SELECT * FROM edges ORDER BY source, position').all() as EdgeRow[]) {
+                const node = memories[row.source];
+                const edge: AssociationEdge = {
+                    relation: row.relation,
+                    weight: row.weight,
+                    createdAt: row.created_at,
+                };
+                if (row.symmetric) {
+                    edge.symmetric = true;
+                }
+                node.associations.push(row.target);
+                node.edges![row.target] = edge;
+            }
+
+            return {
+                success: true,
+                data: {
+                    version: STORAGE_VERSION,
+                    memories,
+                    thinking: this.readState('thinking'),
+                    shortTerm: this.readState('shortTerm'),
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to load database: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Write the changed memories and the thinking/short-term state in one transaction
+     * Without changedIds every memory is written and rows of missing memories are removed
+     */
+    async save(graph: MemoryGraph, changedIds?: string[]): Promise<MCPResponse<void>> {
+        try {
+            const db = this.database();
+
+            db.transaction(() => {
+                let ids = changedIds;
+                if (!ids) {
+                    const stored = db.prepare('SELECT id FROM memories').pluck().all() as string[];
+                    ids = Array.from(new Set([...stored, ...Object.keys(graph.memories)]));
+                }
+
+                for (const id of ids) {
+                    const node = graph.memories[id];
+                    if (node) {
+                        this.writeMemory(node);
+                    } else {
+                        db.prepare('DELETE FROM memories WHERE id = ?').run(id);
+                    }
+                }
+
+                this.writeState('thinking', graph.thinking);
+                this.writeState('shortTerm', graph.shortTerm);
+            })();
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to save memory: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Load the vector index
+     * Returns null when no vectors have been stored yet
+     */
+    async loadVectors(): Promise<MCPResponse<VectorStore | null>> {
+        try {
+            const db = this.database();
+            const provider = this.readState<{ provider: string; dimensions: number }>('vectorProvider');
+            if (!provider) {
+                return {
+                    success: true,
+                    data: null,
+                };
+            }
+
+            const store: VectorStore = { ...provider, vectors: {} };
+            this.vectorHashes.clear();
+            for (const row of db.prepare('SELECT * FROM vectors').all() as { id: string; hash: string; vector: string }[]) {
+                store.vectors[row.id] = { hash: row.hash, vector: JSON.parse(row.vector) };
+                this.vectorHashes.set(row.id, row.hash);
+            }
+
+            return {
+                success: true,
+                data: store,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to load vectors: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Save the vector index, writing only vectors whose text hash changed
+     */
+    async saveVectors(store: VectorStore): Promise<MCPResponse<void>> {
+        try {
+            const db = this.database();
+            const previous = this.readState<{ provider: string; dimensions: number }>('vectorProvider');
+            const providerChanged =
+                previous?.provider !== store.provider || previous?.dimensions !== store.dimensions;
+
+            db.transaction(() => {
+                if (providerChanged) {
+                    db.prepare('DELETE FROM vectors').run();
+                    this.vectorHashes.clear();
+                    this.writeState('vectorProvider', { provider: store.provider, dimensions: store.dimensions });
+                }
+
+                const upsert = db.prepare(
+                    'INSERT INTO vectors (id, hash, vector) VALUES (?, ?, ?) ' +
+                        'ON CONFLICT(id) DO UPDATE SET hash = excluded.hash, vector = excluded.vector'
+                );
+                for (const [id, entry] of Object.entries(store.vectors)) {
+                    if (this.vectorHashes.get(id) !== entry.hash) {
+                        upsert.run(id, entry.hash, JSON.stringify(entry.vector));
+                        this.vectorHashes.set(id, entry.hash);
+                    }
+                }
+
+                const remove = db.prepare('DELETE FROM vectors WHERE id = ?');
+                for (const id of Array.from(this.vectorHashes.keys())) {
+                    if (!store.vectors[id]) {
+                        remove.run(id);
+                        this.vectorHashes.delete(id);
+                    }
+                }
+            })();
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to save vectors: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Start auto-save timer
+     */
+    startAutoSave(
+        interval: number,
+        saveCallback: () => Promise<MCPResponse<void>>
+    ): void {
+        this.stopAutoSave();
+
+        this.autoSaveTimer = setInterval(async () => {
+            if (!this.pendingSave) {
+                this.pendingSave = true;
+                await saveCallback();
+                this.pendingSave = false;
+            }
+        }, interval);
+    }
+
+    /**
+     * Stop auto-save timer
+     */
+    stopAutoSave(): void {
+        if (this.autoSaveTimer) {
+            clearInterval(this.autoSaveTimer);
+            this.autoSaveTimer = undefined;
+        }
+    }
+
+    /**
+     * Copy the database into another directory (consistent online backup)
+     */
+    async copyTo(targetPath: string): Promise<MCPResponse<void>> {
+        try {
+            await fs.mkdir(targetPath, { recursive: true });
+            await this.database().backup(path.join(targetPath, STORAGE_FILES.database));
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to copy database: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Clean up resources
+     */
+    async cleanup(): Promise<void> {
+        this.stopAutoSave();
+        this.db?.close();
+        this.db = undefined;
+    }
+
+    // =========================================================================
+    // Helpers
+    // =========================================================================
+
+    /**
+     * The open database
+     * @private
+     */
+    private database(): Database.Database {
+        if (!this.db) {
+            throw new Error('Database is not open');
+        }
+        return this.db;
+    }
+
+    /**
+     * Create the schema in a new database, or bring an older one up to date
+     * @private
+     */
+    private migrateSchema(): void {
+        const db = this.database();
+        const version = db.pragma('user_version', { simple: true }) as number;
+
+        if (version > SCHEMA_VERSION) {
+            throw new Error(`Database schema version ${version} is newer than supported (${SCHEMA_VERSION})`);
+        }
+
+        if (version < SCHEMA_VERSION) {
+            db.transaction(() => {
+                // Version 2: revision history per memory
+                if (version === 1) {
+                    db.exec(`ALTER TABLE memories ADD COLUMN history TEXT NOT NULL DEFAULT '[]'`);
+                }
+                // Version 3: the unused full-text index is dropped
+                if (version >= 1 && version < 3) {
+                    db.exec(`
+                        DROP TRIGGER IF EXISTS memories_fts_insert;
+                        DROP TRIGGER IF EXISTS memories_fts_delete;
+                        DROP TRIGGER IF EXISTS memories_fts_update;
+                        DROP TABLE IF EXISTS memories_fts;
+                    `);
+                }
+                db.exec(SCHEMA);
+                db.pragma(`user_version = ${SCHEMA_VERSION}`);
+            })();
+        }
+    }
+
+    /**
+     * Import the legacy memory file and its vectors into the database
+     * The legacy files are left in place
+     * @private
+     */
+    private async migrateLegacy(): Promise<MCPResponse<void>> {
+        const legacy = this.legacy!;
+
+        const graphResult = await legacy.load();
+        if (!graphResult.success) {
+            return graphResult;
+        }
+
+        const save = await this.save(graphResult.data);
+        if (!save.success) {
+            return save;
+        }
+
+        const vectorResult = await legacy.loadVectors();
+        if (vectorResult.success && vectorResult.data) {
+            await this.saveVectors(vectorResult.data);
+        }
+
+        const count = Object.keys(graphResult.data.memories).length;
+        if (count > 0) {
+            console.error(`Migrated ${count} memories from ${STORAGE_FILES.memory} to ${STORAGE_FILES.database}`);
+        }
+        this.writeState('migratedAt', new Date().toISOString());
+
+        return {
+            success: true,
+            data: undefined,
+        };
+    }
+
+    /**
+     * Replace the row, edges and tags of one memory
+     * @private
+     */
+    private writeMemory(node: LongTermMemoryNode): void {
+        const db = this.database();
+
+        db.prepare(
+            'INSERT INTO memories (id, text, tags, properties, metadata, created_at, history) VALUES (?, ?, ?, ?, ?, ?, ?) ' +
+                'ON CONFLICT(id) DO UPDATE SET text = excluded.text, tags = excluded.tags, ' +
+                'properties = excluded.properties, metadata = excluded.metadata, history = excluded.history'
+        ).run(
+            node.id,
+            node.text,
+            JSON.stringify(node.tags ?? []),
+            JSON.stringify(node.properties ?? {}),
+            JSON.stringify(node.metadata),
+            node.metadata.createdAt,
+            JSON.stringify(node.history ?? [])
+        );
+
+        db.prepare('DELETE FROM edges WHERE source = ?').run(node.id);
+        const insertEdge = db.prepare(
+            'INSERT INTO edges (source, target, position, relation, weight, created_at, symmetric) ' +
+                'VALUES (?, ?, ?, ?, ?, ?, ?)'
+        );
+        node.associations.forEach((targetId, position) => {
+            const edge = node.edges?.[targetId];
+            insertEdge.run(
+                node.id,
+                targetId,
+                position,
+                edge?.relation ?? DEFAULT_RELATION,
+                edge?.weight ?? 1,
+                edge?.createdAt ?? node.metadata.createdAt,
+                edge?.symmetric ? 1 : 0
+            );
+        });
+
+        db.prepare('DELETE FROM memory_tags WHERE id = ?').run(node.id);
+        const insertTag = db.prepare('INSERT INTO memory_tags (id, tag) VALUES (?, ?)');
+        for (const tag of new Set(node.tags ?? [])) {
+            insertTag.run(node.id, tag);
+        }
+    }
+
+    /**
+     * Read a JSON value from the state table
+     * @private
+     */
+    private readState<T>(key: string): T | undefined {
+        const value = this.database().prepare('SELECT value FROM state WHERE key = ?').pluck().get(key) as
+            | string
+            | undefined;
+        return value === undefined ? undefined : (JSON.parse(value) as T);
+    }
+
+    /**
+     * Write a JSON value to the state table (undefined removes it)
+     * @private
+     */
+    private writeState(key: string, value: unknown): void {
+        const db = this.database();
+        if (value === undefined) {
+            db.prepare('DELETE FROM state WHERE key = ?').run(key);
+        } else {
+            db.prepare(
+                'INSERT INTO state (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value'
+            ).run(key, JSON.stringify(value));
+        }
+    }
+}
@@ -1,28 +1,192 @@
 /**
  * Storage Manager
- * Handles file persistence for long-term memory with backup and recovery
+ * Handles file persistence for long-term memory with a write-ahead journal,
+ * atomic snapshots, backup and recovery, and optional encryption
  */
 
 import * as fs from 'fs/promises';
+import * as os from 'os';
 import * as path from 'path';
-import { LongTermMemoryNode, MemoryGraph, MCPResponse } from './types.js';
-import { STORAGE_FILES } from './config.js';
+import { watch, FSWatcher } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { LongTermMemoryNode, MemoryConfig, MemoryGraph, MCPResponse, VectorStore } from './types.js';
+import { LOCK_TIMING, STORAGE_FILES, STORAGE_VERSION } from './config.js';
+import { FileCipher, decodeStored, encodeStored } from './encryption.js';
+import { MarkdownVaultStorage } from './markdown-storage.js';
+import { SqliteStorage } from './sqlite-storage.js';
 
-export class StorageManager {
+/**
+ * Memories changed outside the server (e.g. notes edited by hand, or another server
+ * writing to the same storage path)
+ */
+export interface StorageChange {
+    upserted: LongTermMemoryNode[];
+    deleted: string[]; // IDs
+    complete?: boolean; // upserted holds every stored memory; memories missing from it were deleted
+    stored?: boolean; // Already in storage, so applying it must not write it back
+}
+
+/**
+ * Persistence used by a memory space
+ */
+export interface StorageBackend {
+    init(): Promise<MCPResponse<void>>;
+    load(): Promise<MCPResponse<MemoryGraph>>;
+    // changedIds lists memories added, changed or deleted since the last save; backends
+    // that write per memory may use it to skip the rest
+    save(graph: MemoryGraph, changedIds?: string[]): Promise<MCPResponse<void>>;
+    loadVectors(): Promise<MCPResponse<VectorStore | null>>;
+    saveVectors(store: VectorStore): Promise<MCPResponse<void>>;
+    startAutoSave(interval: number, saveCallback: () => Promise<MCPResponse<void>>): void;
+    stopAutoSave(): void;
+    copyTo(targetPath: string): Promise<MCPResponse<void>>;
+    cleanup(): Promise<void>;
+
+    // Report external changes to stored memories (only backends that can detect them):
+    // those found while saving, and with live also those made while the server is idle
+    watch?(onChange: (change: StorageChange) => void, live: boolean): void;
+
+    // Rewrite the full snapshot and drop the journal (only journaling backends)
+    compact?(graph: MemoryGraph): Promise<MCPResponse<void>>;
+
+    // Re-encrypt stored files with another key (only backends that support encryption)
+    rekey?(cipher?: FileCipher): Promise<MCPResponse<void>>;
+}
+
+/**
+ * Snapshot as written to memory.brain
+ * journalSeq is the last journal entry already contained in the snapshot
+ */
+interface StoredGraph extends MemoryGraph {
+    journalSeq?: number;
+}
+
+/**
+ * One journal line: the memories and state written by a single save
+ * Lines are self-contained, so a line torn by a crash is simply discarded
+ */
+interface JournalEntry {
+    seq: number;
+    put: LongTermMemoryNode[];
+    delete: string[]; // IDs
+    state?: Pick<MemoryGraph, 'thinking' | 'shortTerm'>; // Only when thinking or short-term state changed
+}
+
+/**
+ * Contents of memory.brain.lock
+ * The lock file's modification time is the owner's heartbeat
+ */
+interface LockOwner {
+    pid: number;
+    host: string;
+    token: string; // Identifies one acquisition, so an owner never removes a lock taken over from it
+    acquiredAt: string;
+}
+
+/**
+ * The lock file as found on disk
+ */
+interface LockFile {
+    owner?: LockOwner; // Missing while the owner is still writing it
+    content: string;
+    heartbeat: number; // Modification time in milliseconds
+}
+
+/**
+ * Describe the holder of the storage lock for error messages
+ */
+function describeLock(owner?: LockOwner): string {
+    return owner
+        ? `Storage is locked by process ${owner.pid} on ${owner.host} (since ${owner.acquiredAt})`
+        : 'Storage is locked by another process';
+}
+
+const WATCH_DEBOUNCE = 200; // milliseconds
+
+/**
+ * Write a file so readers see either the old or the new content, never a partial one
+ * The temporary file name is unique, so concurrent writers never share one
+ */
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.${uuidv4()}.tmp`;
+    try {
+        const handle = await fs.open(tempPath, 'w');
+        try {
+            await handle.writeFile(data, 'utf-8');
+            await handle.sync();
+        } finally {
+            await handle.close();
+        }
+        await fs.rename(tempPath, filePath);
+    } catch (error) {
+        await fs.rm(tempPath, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Create the storage backend selected in the configuration
+ */
+export function createStorageBackend(config: MemoryConfig, cipher?: FileCipher): StorageBackend {
+    if (config.storageBackend === 'markdown') {
+        return new MarkdownVaultStorage(config.storagePath);
+    }
+
+    if (config.storageBackend === 'sqlite') {
+        // An existing memory.brain is imported into a new database
+        return new SqliteStorage(config.storagePath, new StorageManager(config.storagePath, config.enableBackup));
+    }
+
+    return new StorageManager(
+        config.storagePath,
+        config.enableBackup,
+        config.journalMaxSize,
+        config.lockTimeout,
+        cipher
+    );
+}
+
+export class StorageManager implements StorageBackend {
     private storagePath: string;
     private memoryFilePath: string;
     private backupFilePath: string;
     private lockFilePath: string;
+    private journalFilePath: string;
+    private vectorFilePath: string;
     private enableBackup: boolean;
+    private journalMaxSize: number;
+    private lockTimeout: number;
+    private cipher?: FileCipher; // Encrypts every file written when set
+    private journalSeq: number = 0; // Sequence number of the last journal entry
+    private journalSize: number = 0; // Bytes in the journal since the last snapshot
+    private snapshotVersion: string = ''; // memory.brain as last read or written, see snapshotSignature
+    private lastState?: string; // Thinking/short-term state as last written
+    private queue: Promise<unknown> = Promise.resolve(); // Serializes reads and writes
+    private lock?: LockOwner;
+    private heartbeatTimer?: NodeJS.Timeout;
+    private onChange?: (change: StorageChange) => void;
+    private watcher?: FSWatcher;
+    private watchTimer?: NodeJS.Timeout;
     private autoSaveTimer?: NodeJS.Timeout;
     private pendingSave: boolean = false;
 
-    constructor(storagePath: string, enableBackup: boolean = true) {
+    constructor(
+        storagePath: string,
+        enableBackup: boolean = true,
+        journalMaxSize: number = 1024 * 1024,
+        lockTimeout: number = 5 * 1000,
+        cipher?: FileCipher
+    ) {
         this.storagePath = storagePath;
         this.memoryFilePath = path.join(storagePath, STORAGE_FILES.memory);
         this.backupFilePath = path.join(storagePath, STORAGE_FILES.backup);
         this.lockFilePath = path.join(storagePath, STORAGE_FILES.lock);
+        this.journalFilePath = path.join(storagePath, STORAGE_FILES.journal);
+        this.vectorFilePath = path.join(storagePath, STORAGE_FILES.vectors);
         this.enableBackup = enableBackup;
+        this.journalMaxSize = journalMaxSize;
+        this.lockTimeout = lockTimeout;
+        this.cipher = cipher;
     }
 
     /**
@@ -46,15 +210,42 @@ export class StorageManager {
     }
 
     /**
-     * Load memory data from file
+     * Load the snapshot from file and replay the journal on top of it
      */
     async load(): Promise<MCPResponse<MemoryGraph>> {
+        this.snapshotVersion = await this.snapshotSignature();
+        const snapshotResult = await this.loadSnapshot();
+        if (!snapshotResult.success) {
+            return snapshotResult;
+        }
+
+        try {
+            const graph = this.migrate(await this.replayJournal(snapshotResult.data));
+            this.lastState = JSON.stringify({ thinking: graph.thinking, shortTerm: graph.shortTerm });
+
+            return {
+                success: true,
+                data: graph,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to replay journal: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Load memory.brain, falling back to the backup
+     * @private
+     */
+    private async loadSnapshot(): Promise<MCPResponse<StoredGraph>> {
         try {
             // Check if memory file exists
             try {
                 await fs.access(this.memoryFilePath);
             } catch {
-                // File doesn't exist, return empty memory
+                // File doesn't exist, start from empty memory
                 return {
                     success: true,
                     data: { memories: {} },
@@ -63,7 +254,7 @@ export class StorageManager {
 
             // Read and parse file
             const data = await fs.readFile(this.memoryFilePath, 'utf-8');
-            const parsed = JSON.parse(data) as MemoryGraph;
+            const parsed = JSON.parse(decodeStored(data, this.cipher, STORAGE_FILES.memory)) as StoredGraph;
 
             // Validate structure
             if (!parsed.memories || typeof parsed.memories !== 'object') {
@@ -92,8 +283,9 @@ export class StorageManager {
 
     /**
      * Load memory from backup file
+     * @private
      */
-    private async loadBackup(): Promise<MCPResponse<MemoryGraph>> {
+    private async loadBackup(): Promise<MCPResponse<StoredGraph>> {
         try {
             if (!this.enableBackup) {
                 return {
@@ -103,7 +295,7 @@ export class StorageManager {
             }
 
             const data = await fs.readFile(this.backupFilePath, 'utf-8');
-            const parsed = JSON.parse(data) as MemoryGraph;
+            const parsed = JSON.parse(decodeStored(data, this.cipher, STORAGE_FILES.backup)) as StoredGraph;
 
             if (!parsed.memories || typeof parsed.memories !== 'object') {
                 throw new Error('Invalid backup file structure');
@@ -122,58 +314,612 @@ export class StorageManager {
     }
 
     /**
-     * Save memory data to file with backup
+     * Apply journal entries newer than the snapshot
+     * @private
      */
-    async save(nodes: Map<string, LongTermMemoryNode>): Promise<MCPResponse<void>> {
+    private async replayJournal(graph: StoredGraph, repair: boolean = false): Promise<StoredGraph> {
+        this.journalSeq = graph.journalSeq ?? 0;
+        this.journalSize = 0;
+
+        for (const entry of (await this.readJournalTail(repair)) ?? []) {
+            // Entries up to the snapshot's sequence number are already part of it
+            if (entry.seq <= this.journalSeq) {
+                continue;
+            }
+
+            for (const node of entry.put) {
+                graph.memories[node.id] = node;
+            }
+            for (const id of entry.delete) {
+                delete graph.memories[id];
+            }
+            if (entry.state) {
+                graph.thinking = entry.state.thinking;
+                graph.shortTerm = entry.state.shortTerm;
+            }
+            this.journalSeq = entry.seq;
+        }
+
+        return graph;
+    }
+
+    /**
+     * Read the journal entries appended since this process last read or wrote the journal
+     * An incomplete last line belongs to a process still appending it, or to one that
+     * crashed while doing so; with repair (lock held, so nobody is appending) it is cut off.
+     * Returns null when the journal shrank, i.e. it was folded into a new snapshot
+     * @private
+     */
+    private async readJournalTail(repair: boolean): Promise<JournalEntry[] | null> {
+        let handle: fs.FileHandle;
         try {
-            // Check for file lock
-            if (await this.isLocked()) {
-                return {
-                    success: false,
-                    error: 'Storage is locked by another process',
-                };
+            handle = await fs.open(this.journalFilePath, 'r');
+        } catch {
+            return this.journalSize > 0 ? null : [];
+        }
+
+        try {
+            const { size } = await handle.stat();
+            if (size < this.journalSize) {
+                return null;
             }
 
-            // Create lock
-            await this.createLock();
+            const buffer = Buffer.alloc(size - this.journalSize);
+            await handle.read(buffer, 0, buffer.length, this.journalSize);
 
-            try {
-                // Create backup of existing file
-                if (this.enableBackup) {
+            const complete = buffer.lastIndexOf('\n') + 1;
+            if (complete < buffer.length && repair) {
+                console.error('Discarding incomplete journal entry');
+                await fs.truncate(this.journalFilePath, this.journalSize + complete);
+            }
+
+            const entries: JournalEntry[] = [];
+            let offset = this.journalSize;
+            for (const line of buffer.subarray(0, complete).toString('utf-8').split('\n')) {
+                if (line.trim().length > 0) {
+                    const text = decodeStored(line, this.cipher, STORAGE_FILES.journal);
                     try {
-                        await fs.access(this.memoryFilePath);
-                        await fs.copyFile(this.memoryFilePath, this.backupFilePath);
+                        entries.push(JSON.parse(text) as JournalEntry);
                     } catch {
-                        // No existing file to backup
+                        throw new Error(`Corrupt journal entry at byte ${offset}`);
                     }
                 }
+                offset += Buffer.byteLength(line) + 1;
+            }
+
+            this.journalSize += complete;
+            return entries;
+        } finally {
+            await handle.close();
+        }
+    }
+
+    /**
+     * Upgrade a loaded graph to the current storage format
+     * Legacy files only contain `memories`, so thinking state starts empty
+     * @private
+     */
+    private migrate(graph: MemoryGraph): MemoryGraph {
+        const thinking = graph.thinking;
+
+        return {
+            version: STORAGE_VERSION,
+            memories: graph.memories,
+            thinking: {
+                chains: thinking?.chains ?? {},
+                thoughts: thinking?.thoughts ?? {},
+                currentMode: thinking?.currentMode ?? 'analytical',
+            },
+            shortTerm: Array.isArray(graph.shortTerm) ? graph.shortTerm : undefined,
+        };
+    }
+
+    /**
+     * Record changes in the journal
+     * With changedIds, only those memories are appended; without them, or once the
+     * journal has outgrown journalMaxSize, a full snapshot is written instead.
+     * Changes other processes stored since the last read are merged first; while the
+     * graph does not include them yet, the journal is used so they are not overwritten
+     */
+    async save(graph: MemoryGraph, changedIds?: string[]): Promise<MCPResponse<void>> {
+        return this.serialize(async () => {
+            const external = await this.mergeExternalChanges(true);
+
+            if (external || (changedIds && this.journalSize < this.journalMaxSize)) {
+                await this.appendJournal(graph, changedIds ?? Object.keys(graph.memories));
+            } else {
+                await this.writeSnapshot(graph);
+            }
+        }, 'Failed to save memory');
+    }
+
+    /**
+     * Write a full snapshot and drop the journal (nothing to do if the journal is empty)
+     * Skipped when other processes stored changes the graph does not include yet
+     */
+    async compact(graph: MemoryGraph): Promise<MCPResponse<void>> {
+        return this.serialize(async () => {
+            const external = await this.mergeExternalChanges(true);
+
+            if (!external && this.journalSize > 0) {
+                await this.writeSnapshot(graph);
+            }
+        }, 'Failed to compact journal');
+    }
+
+    /**
+     * Re-encrypt memory.brain, its backup and the vector file with another key
+     * (without one they are stored unencrypted); the journal is folded into memory.brain
+     */
+    async rekey(cipher?: FileCipher): Promise<MCPResponse<void>> {
+        return this.serialize(async () => {
+            const loadResult = await this.load();
+            if (!loadResult.success) {
+                throw new Error(loadResult.error);
+            }
+            const vectorResult = await this.loadVectors();
+
+            // Fold the journal in under the current key first, so an interrupted rotation
+            // leaves a complete backup that the current key still opens
+            await this.writeSnapshot(loadResult.data);
+            this.cipher = cipher;
+            await this.writeSnapshot(loadResult.data);
+
+            // The backup still holds the previous encryption, replace it with the new file
+            if (this.enableBackup) {
+                await fs.copyFile(this.memoryFilePath, this.backupFilePath);
+            } else {
+                await fs.rm(this.backupFilePath, { force: true });
+            }
+
+            // Vectors are derived data; unreadable ones are rebuilt on the next search
+            if (vectorResult.success && vectorResult.data) {
+                await writeFileAtomic(this.vectorFilePath, encodeStored(JSON.stringify(vectorResult.data), cipher));
+            } else {
+                await fs.rm(this.vectorFilePath, { force: true });
+            }
+        }, 'Failed to rotate encryption key');
+    }
+
+    /**
+     * Report changes made to the storage path by other processes
+     * They are always merged before this process writes; with live, they are also picked
+     * up as soon as the files change
+     */
+    watch(onChange: (change: StorageChange) => void, live: boolean): void {
+        this.onChange = onChange;
+        if (!live || this.watcher) {
+            return;
+        }
+
+        try {
+            this.watcher = watch(this.storagePath, (_event, fileName) => {
+                const name = fileName?.toString();
+                if (name !== STORAGE_FILES.memory && name !== STORAGE_FILES.journal) {
+                    return;
+                }
+
+                clearTimeout(this.watchTimer);
+                this.watchTimer = setTimeout(() => {
+                    const run = async (): Promise<void> => {
+                        try {
+                            await this.mergeExternalChanges(false);
+                        } catch (error) {
+                            console.error(`Failed to read changes in ${this.storagePath}: ${(error as Error).message}`);
+                        }
+                    };
+                    this.queue = this.queue.then(run);
+                }, WATCH_DEBOUNCE);
+            });
+
+            this.watcher.on('error', (error) => {
+                console.error(`Stopped watching ${this.storagePath}: ${error.message}`);
+                this.stopWatching();
+            });
+        } catch (error) {
+            console.error(`Cannot watch ${this.storagePath}: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Stop watching the storage path
+     * @private
+     */
+    private stopWatching(): void {
+        clearTimeout(this.watchTimer);
+        this.watcher?.close();
+        this.watcher = undefined;
+    }
+
+    /**
+     * Read what other processes stored since this one last read or wrote, and report it
+     * A new memory.brain means the journal this process knew was folded into it, so
+     * everything is reloaded; otherwise only the new journal entries are read
+     * Returns whether anything changed
+     * @private
+     */
+    private async mergeExternalChanges(repair: boolean): Promise<boolean> {
+        const version = await this.snapshotSignature();
+        const entries = version === this.snapshotVersion ? await this.readJournalTail(repair) : null;
+
+        let change: StorageChange;
+        if (entries === null) {
+            const snapshotResult = await this.loadSnapshot();
+            if (!snapshotResult.success) {
+                throw new Error(snapshotResult.error);
+            }
+
+            const graph = await this.replayJournal(snapshotResult.data, repair);
+            this.snapshotVersion = version;
+            this.lastState = JSON.stringify({ thinking: graph.thinking, shortTerm: graph.shortTerm });
+            change = {
+                upserted: Object.values(graph.memories),
+                deleted: [],
+                complete: true,
+                stored: true,
+            };
+        } else {
+            const upserted = new Map<string, LongTermMemoryNode>();
+            const deleted = new Set<string>();
+
+            for (const entry of entries) {
+                if (entry.seq <= this.journalSeq) {
+                    continue;
+                }
+
+                for (const node of entry.put) {
+                    upserted.set(node.id, node);
+                    deleted.delete(node.id);
+                }
+                for (const id of entry.delete) {
+                    upserted.delete(id);
+                    deleted.add(id);
+                }
+                if (entry.state) {
+                    // Thinking and short-term state are not merged; the next write keeps ours
+                    this.lastState = JSON.stringify(entry.state);
+                }
+                this.journalSeq = entry.seq;
+            }
+
+            if (upserted.size === 0 && deleted.size === 0) {
+                return false;
+            }
+
+            change = {
+                upserted: Array.from(upserted.values()),
+                deleted: Array.from(deleted),
+                stored: true,
+            };
+        }
+
+        this.onChange?.(change);
+        return true;
+    }
+
+    /**
+     * Identify the current memory.brain; a new snapshot replaces the file, so its
+     * inode and modification time change
+     * @private
+     */
+    private async snapshotSignature(): Promise<string> {
+        try {
+            const stats = await fs.stat(this.memoryFilePath);
+            return `${stats.ino}:${stats.size}:${stats.mtimeMs}`;
+        } catch {
+            return '';
+        }
+    }
+
+    /**
+     * Append one journal entry and flush it to disk
+     * @private
+     */
+    private async appendJournal(graph: MemoryGraph, changedIds: string[]): Promise<void> {
+        const entry: JournalEntry = {
+            seq: this.journalSeq + 1,
+            put: [],
+            delete: [],
+        };
+
+        for (const id of changedIds) {
+            const node = graph.memories[id];
+            if (node) {
+                entry.put.push(node);
+            } else {
+                entry.delete.push(id);
+            }
+        }
+
+        const state = JSON.stringify({ thinking: graph.thinking, shortTerm: graph.shortTerm });
+        if (state !== this.lastState) {
+            entry.state = { thinking: graph.thinking, shortTerm: graph.shortTerm };
+        }
+
+        if (entry.put.length === 0 && entry.delete.length === 0 && !entry.state) {
+            return;
+        }
+
+        const line = encodeStored(JSON.stringify(entry), this.cipher) + '\n';
+        const handle = await fs.open(this.journalFilePath, 'a');
+        try {
+            await handle.write(line);
+            await handle.sync();
+        } finally {
+            await handle.close();
+        }
+
+        this.journalSeq = entry.seq;
+        this.journalSize += Buffer.byteLength(line);
+        this.lastState = state;
+    }
+
+    /**
+     * Atomically replace memory.brain with the full graph, then drop the journal
+     * If the process dies before the journal is removed, its entries are skipped on
+     * replay because the snapshot records the last sequence number it contains
+     * @private
+     */
+    private async writeSnapshot(graph: MemoryGraph): Promise<void> {
+        // Create backup of existing file
+        if (this.enableBackup) {
+            try {
+                await fs.copyFile(this.memoryFilePath, this.backupFilePath);
+            } catch {
+                // No existing file to backup
+            }
+        }
+
+        const memoryGraph: StoredGraph = {
+            ...graph,
+            version: STORAGE_VERSION,
+            journalSeq: this.journalSeq,
+        };
+
+        await writeFileAtomic(this.memoryFilePath, encodeStored(JSON.stringify(memoryGraph, null, 2), this.cipher));
+        await fs.rm(this.journalFilePath, { force: true });
+
+        this.snapshotVersion = await this.snapshotSignature();
+        this.journalSize = 0;
+        this.lastState = JSON.stringify({ thinking: graph.thinking, shortTerm: graph.shortTerm });
+    }
+
+    /**
+     * Run a write after the previous one finished, holding the storage lock
+     * @private
+     */
+    private serialize(operation: () => Promise<void>, failure: string): Promise<MCPResponse<void>> {
+        const run = async (): Promise<MCPResponse<void>> => {
+            try {
+                const lockResult = await this.acquireLock();
+                if (!lockResult.success) {
+                    return lockResult;
+                }
+
+                try {
+                    await operation();
+                } finally {
+                    // Always remove lock
+                    await this.releaseLock();
+                }
 
-                // Convert Map to object for JSON serialization
-                const memoryGraph: MemoryGraph = {
-                    memories: Object.fromEntries(nodes),
+                return {
+                    success: true,
+                    data: undefined,
+                };
+            } catch (error) {
+                return {
+                    success: false,
+                    error: `${failure}: ${(error as Error).message}`,
                 };
+            }
+        };
+
+        const result = this.queue.then(run);
+        this.queue = result;
+        return result;
+    }
 
-                // Write to file
-                const data = JSON.stringify(memoryGraph, null, 2);
-                await fs.writeFile(this.memoryFilePath, data, 'utf-8');
+    /**
+     * Take the storage lock, waiting up to lockTimeout for another process to release it
+     * The lock file is created exclusively, so only one process can succeed
+     * @private
+     */
+    private async acquireLock(): Promise<MCPResponse<void>> {
+        const deadline = Date.now() + this.lockTimeout;
+        const owner: LockOwner = {
+            pid: process.pid,
+            host: os.hostname(),
+            token: uuidv4(),
+            acquiredAt: new Date().toISOString(),
+        };
+
+        for (;;) {
+            try {
+                await fs.writeFile(this.lockFilePath, JSON.stringify(owner), { encoding: 'utf-8', flag: 'wx' });
+                this.lock = owner;
+                this.heartbeatTimer = setInterval(() => {
+                    const now = new Date();
+                    fs.utimes(this.lockFilePath, now, now).catch(() => {
+                        // Lock file removed; noticed when the lock is released
+                    });
+                }, LOCK_TIMING.heartbeatInterval);
+                this.heartbeatTimer.unref();
 
                 return {
                     success: true,
                     data: undefined,
                 };
-            } finally {
-                // Always remove lock
-                await this.removeLock();
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+
+            const held = await this.readLock();
+            if (!held) {
+                continue;
+            }
+            if (this.isStale(held)) {
+                await this.breakLock(held);
+                continue;
+            }
+
+            if (Date.now() >= deadline) {
+                return {
+                    success: false,
+                    error: describeLock(held.owner),
+                    details: { lock: held.owner },
+                };
+            }
+            await new Promise((resolve) => setTimeout(resolve, LOCK_TIMING.retryDelay));
+        }
+    }
+
+    /**
+     * Release the storage lock if this process still owns it
+     * @private
+     */
+    private async releaseLock(): Promise<void> {
+        clearInterval(this.heartbeatTimer);
+        this.heartbeatTimer = undefined;
+
+        const lock = this.lock;
+        this.lock = undefined;
+
+        const held = await this.readLock();
+        if (lock && held?.owner?.token === lock.token) {
+            await fs.rm(this.lockFilePath, { force: true });
+        } else if (lock) {
+            console.error(`Storage lock in ${this.storagePath} was taken over while writing`);
+        }
+    }
+
+    /**
+     * Read the lock file (null when nobody holds the lock)
+     * @private
+     */
+    private async readLock(): Promise<LockFile | null> {
+        try {
+            const [content, stats] = await Promise.all([
+                fs.readFile(this.lockFilePath, 'utf-8'),
+                fs.stat(this.lockFilePath),
+            ]);
+
+            let owner: LockOwner | undefined;
+            try {
+                owner = JSON.parse(content) as LockOwner;
+            } catch {
+                // Owner is still writing the file
+            }
+
+            return {
+                owner,
+                content,
+                heartbeat: stats.mtimeMs,
+            };
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Check if a lock was abandoned: its heartbeat stopped, or its owner process on this
+     * host no longer exists
+     * @private
+     */
+    private isStale(held: LockFile): boolean {
+        if (Date.now() - held.heartbeat > LOCK_TIMING.staleAfter) {
+            return true;
+        }
+
+        const owner = held.owner;
+        if (!owner || owner.host !== os.hostname()) {
+            return false;
+        }
+        if (owner.pid === process.pid) {
+            // Left behind by an earlier process that had the same PID
+            return true;
+        }
+
+        try {
+            process.kill(owner.pid, 0);
+            return false;
+        } catch (error) {
+            return (error as NodeJS.ErrnoException).code === 'ESRCH';
+        }
+    }
+
+    /**
+     * Remove an abandoned lock, unless it was replaced in the meantime
+     * The lock is moved aside before it is checked, so processes breaking the same lock
+     * at once cannot remove a fresh one
+     * @private
+     */
+    private async breakLock(stale: LockFile): Promise<void> {
+        const asidePath = `${this.lockFilePath}.${uuidv4()}`;
+        try {
+            await fs.rename(this.lockFilePath, asidePath);
+        } catch {
+            // Already removed by its owner or another process
+            return;
+        }
+
+        const content = await fs.readFile(asidePath, 'utf-8').catch(() => '');
+        if (content === stale.content) {
+            const owner = stale.owner ? ` of process ${stale.owner.pid} on ${stale.owner.host}` : '';
+            console.error(`Taking over abandoned storage lock${owner} in ${this.storagePath}`);
+        } else {
+            // Moved a fresh lock aside: put it back unless yet another one was taken since
+            await fs.link(asidePath, this.lockFilePath).catch(() => {});
+        }
+        await fs.rm(asidePath, { force: true });
+    }
+
+    /**
+     * Load the vector index stored next to the memory file
+     * Returns null when no vector file exists yet
+     */
+    async loadVectors(): Promise<MCPResponse<VectorStore | null>> {
+        try {
+            try {
+                await fs.access(this.vectorFilePath);
+            } catch {
+                return {
+                    success: true,
+                    data: null,
+                };
+            }
+
+            const data = await fs.readFile(this.vectorFilePath, 'utf-8');
+            const parsed = JSON.parse(decodeStored(data, this.cipher, STORAGE_FILES.vectors)) as VectorStore;
+
+            if (!parsed.vectors || typeof parsed.vectors !== 'object') {
+                throw new Error('Invalid vector file structure');
             }
+
+            return {
+                success: true,
+                data: parsed,
+            };
         } catch (error) {
-            await this.removeLock(); // Ensure lock is removed on error
             return {
                 success: false,
-                error: `Failed to save memory: ${(error as Error).message}`,
+                error: `Failed to load vectors: ${(error as Error).message}`,
             };
         }
     }
 
+    /**
+     * Save the vector index (derived data, so no backup or journal is kept)
+     * Runs under the storage lock, one at a time with saves
+     */
+    saveVectors(store: VectorStore): Promise<MCPResponse<void>> {
+        return this.serialize(async () => {
+            await writeFileAtomic(this.vectorFilePath, encodeStored(JSON.stringify(store), this.cipher));
+        }, 'Failed to save vectors');
+    }
+
     /**
      * Start auto-save timer
      */
@@ -203,47 +949,6 @@ export class StorageManager {
         }
     }
 
-    /**
-     * Check if storage is locked
-     */
-    private async isLocked(): Promise<boolean> {
-        try {
-            await fs.access(this.lockFilePath);
-
-            // Check if lock file is stale (older than 5 minutes)
-            const stats = await fs.stat(this.lockFilePath);
-            const age = Date.now() - stats.mtimeMs;
-
-            if (age > 5 * 60 * 1000) {
-                // Remove stale lock
-                await this.removeLock();
-                return false;
-            }
-
-            return true;
-        } catch {
-            return false;
-        }
-    }
-
-    /**
-     * Create lock file
-     */
-    private async createLock(): Promise<void> {
-        await fs.writeFile(this.lockFilePath, Date.now().toString(), 'utf-8');
-    }
-
-    /**
-     * Remove lock file
-     */
-    private async removeLock(): Promise<void> {
-        try {
-            await fs.unlink(this.lockFilePath);
-        } catch {
-            // Ignore errors if lock file doesn't exist
-        }
-    }
-
     /**
      * Get storage file stats
      */
@@ -265,11 +970,39 @@ export class StorageManager {
         }
     }
 
+    /**
+     * Copy the stored memory, journal and vector files into another directory
+     */
+    async copyTo(targetPath: string): Promise<MCPResponse<void>> {
+        try {
+            await fs.mkdir(targetPath, { recursive: true });
+
+            for (const file of [STORAGE_FILES.memory, STORAGE_FILES.journal, STORAGE_FILES.vectors]) {
+                try {
+                    await fs.copyFile(path.join(this.storagePath, file), path.join(targetPath, file));
+                } catch {
+                    // File not written yet
+                }
+            }
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to copy storage: ${(error as Error).message}`,
+            };
+        }
+    }
+
     /**
      * Clean up resources
      */
     async cleanup(): Promise<void> {
         this.stopAutoSave();
-        await this.removeLock();
+        this.stopWatching();
+        await this.queue;
     }
 }
@@ -12,14 +12,23 @@ import {
     CognitiveMode,
     MCPResponse,
     LongTermMemoryMetadata,
+    ThinkingState,
+    ThoughtTree,
+    ThoughtTreeNode,
+    CompleteThoughtOptions,
+    ThoughtConclusion,
 } from './types.js';
 import { LongTermMemory } from './long-term-memory.js';
 
+// Relation from a thought chain's conclusion memory to the thoughts stored with it
+const THOUGHT_RELATION = 'derived-from';
+
 export class ThinkingProcess {
     private chains: Map<string, ThoughtChain> = new Map();
     private thoughts: Map<string, ThoughtNode> = new Map();
     private longTermMemory: LongTermMemory;
     private currentMode: CognitiveMode = 'analytical';
+    private isDirty: boolean = false; // Track if data needs saving
 
     constructor(longTermMemory: LongTermMemory) {
         this.longTermMemory = longTermMemory;
@@ -54,6 +63,7 @@ export class ThinkingProcess {
             };
 
             this.chains.set(chainId, chain);
+            this.isDirty = true;
 
             return {
                 success: true,
@@ -154,6 +164,7 @@ export class ThinkingProcess {
 
             this.thoughts.set(thoughtId, thoughtNode);
             chain.thoughts.push(thoughtId);
+            this.isDirty = true;
 
             return {
                 success: true,
@@ -169,6 +180,7 @@ export class ThinkingProcess {
 
     /**
      * Create a branch from an existing thought
+     * The branch's first thought follows the original thought, so the tree stays connected
      */
     branchThought(
         thoughtId: string,
@@ -204,24 +216,29 @@ export class ThinkingProcess {
                 thoughts: [],
                 branches: [],
                 cognitive_mode: this.currentMode,
+                parent_chain: chain.id,
+                origin_thought: thoughtId,
             };
 
             this.chains.set(branchChainId, branchChain);
-            chain.branches.push(branchChainId);
 
             // Add the new thought to the branch
             const result = this.addThought(
                 branchChainId,
                 newThought,
                 type,
-                undefined,
+                thoughtId,
                 confidence
             );
 
             if (!result.success) {
+                this.chains.delete(branchChainId);
                 return result;
             }
 
+            chain.branches.push(branchChainId);
+            this.isDirty = true;
+
             return {
                 success: true,
                 data: result.data,
@@ -234,6 +251,72 @@ export class ThinkingProcess {
         }
     }
 
+    /**
+     * Merge a branch's conclusion back into the chain it was created from
+     * The conclusion becomes a thought of the parent chain following the branch's last
+     * thought, and the branch is completed
+     */
+    mergeBranch(
+        branchChainId: string,
+        conclusion: string,
+        type: ThoughtType = 'analysis',
+        confidence: number = 0.7
+    ): MCPResponse<string> {
+        try {
+            const branch = this.chains.get(branchChainId);
+            if (!branch) {
+                return {
+                    success: false,
+                    error: `Thought chain not found: ${branchChainId}`,
+                };
+            }
+
+            const parentId = branch.parent_chain ?? this.findParentChain(branchChainId)?.id;
+            if (!parentId || !this.chains.has(parentId)) {
+                return {
+                    success: false,
+                    error: `Thought chain ${branchChainId} is not a branch`,
+                };
+            }
+
+            if (branch.merged_thought) {
+                return {
+                    success: false,
+                    error: `Branch ${branchChainId} was already merged`,
+                };
+            }
+
+            const lastThought = branch.thoughts.at(-1) ?? branch.origin_thought;
+            const result = this.addThought(
+                parentId,
+                conclusion,
+                type,
+                lastThought && this.thoughts.has(lastThought) ? lastThought : undefined,
+                confidence
+            );
+            if (!result.success) {
+                return result;
+            }
+
+            branch.status = 'completed';
+            branch.completed_at = new Date().toISOString();
+            branch.merged_thought = result.data;
+            for (const thoughtId of branch.thoughts) {
+                const thought = this.thoughts.get(thoughtId);
+                if (thought && thought.status === 'active') {
+                    thought.status = 'completed';
+                }
+            }
+
+            return result;
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to merge branch: ${(error as Error).message}`,
+            };
+        }
+    }
+
     /**
      * Evaluate a thought's quality
      */
@@ -267,6 +350,8 @@ export class ThinkingProcess {
                 thought.associations.push(`reasoning:${reasoning}`);
             }
 
+            this.isDirty = true;
+
             return {
                 success: true,
                 data: undefined,
@@ -280,12 +365,15 @@ export class ThinkingProcess {
     }
 
     /**
-     * Complete a thought process and generate conclusion
+     * Complete a thought process and store its conclusion in long-term memory
+     * Selected thoughts can be stored as memories of their own, linked from the conclusion;
+     * thoughts that cannot be stored are reported without failing the completion
      */
     completeThoughtProcess(
         chainId: string,
-        conclusion: string
-    ): MCPResponse<void> {
+        conclusion: string,
+        options: CompleteThoughtOptions = {}
+    ): MCPResponse<ThoughtConclusion> {
         try {
             const chain = this.chains.get(chainId);
             if (!chain) {
@@ -295,6 +383,13 @@ export class ThinkingProcess {
                 };
             }
 
+            if (chain.status === 'completed') {
+                return {
+                    success: false,
+                    error: `Thought chain already completed: ${chainId}`,
+                };
+            }
+
             if (!conclusion || conclusion.trim().length === 0) {
                 return {
                     success: false,
@@ -302,6 +397,44 @@ export class ThinkingProcess {
                 };
             }
 
+            const foreign = (options.thoughtIds ?? []).filter((id) => !chain.thoughts.includes(id));
+            if (foreign.length > 0) {
+                return {
+                    success: false,
+                    error: `Thoughts not in chain ${chainId}: ${foreign.join(', ')}`,
+                };
+            }
+
+            // Convert to long-term memory
+            const memoryText = `[Thought Chain] ${chain.goal}\nConclusion: ${conclusion.trim()}`;
+            const memoryResult = this.longTermMemory.add(memoryText, [], {
+                tags: options.tags,
+                properties: { thought_chain: chainId },
+            });
+            if (!memoryResult.success) {
+                return memoryResult;
+            }
+
+            const selected = new Set(options.thoughtIds);
+            if (options.minConfidence !== undefined) {
+                for (const thoughtId of chain.thoughts) {
+                    if ((this.thoughts.get(thoughtId)?.confidence ?? 0) >= options.minConfidence) {
+                        selected.add(thoughtId);
+                    }
+                }
+            }
+
+            const thoughtMemories: Record<string, string> = {};
+            const failures: { thoughtId: string; error: string }[] = [];
+            for (const thoughtId of selected) {
+                const result = this.storeThought(thoughtId, memoryResult.data);
+                if (result.success) {
+                    thoughtMemories[thoughtId] = result.data;
+                } else {
+                    failures.push({ thoughtId, error: result.error });
+                }
+            }
+
             chain.status = 'completed';
             chain.completed_at = new Date().toISOString();
 
@@ -313,14 +446,15 @@ export class ThinkingProcess {
                 }
             }
 
-            // Convert to long-term memory
-            const memoryText = `[Thought Chain] ${chain.goal}\nConclusion: ${conclusion}`;
-            const thoughtIds = chain.thoughts.map((id) => `thought:${id}`);
-            this.longTermMemory.add(memoryText, thoughtIds);
+            this.isDirty = true;
 
             return {
                 success: true,
-                data: undefined,
+                data: {
+                    memoryId: memoryResult.data,
+                    thoughtMemories,
+                    failures,
+                },
             };
         } catch (error) {
             return {
@@ -365,6 +499,90 @@ export class ThinkingProcess {
         }
     }
 
+    /**
+     * Get the whole tree a chain belongs to: the root chain, every branch below it and
+     * their thoughts nested by what follows what
+     */
+    getThoughtTree(chainId: string): MCPResponse<ThoughtTree> {
+        try {
+            let root = this.chains.get(chainId);
+            if (!root) {
+                return {
+                    success: false,
+                    error: `Thought chain not found: ${chainId}`,
+                };
+            }
+
+            const seen = new Set<string>([root.id]);
+            let parent = this.findParentChain(root.id);
+            while (parent && !seen.has(parent.id)) {
+                seen.add(parent.id);
+                root = parent;
+                parent = this.findParentChain(parent.id);
+            }
+
+            // The root chain and its branches, depth first
+            const chains: ThoughtChain[] = [];
+            const collect = (chain: ThoughtChain) => {
+                chains.push(chain);
+                for (const branchId of chain.branches) {
+                    const branch = this.chains.get(branchId);
+                    if (branch && !chains.includes(branch)) {
+                        collect(branch);
+                    }
+                }
+            };
+            collect(root);
+
+            const inTree = new Set(chains.flatMap((chain) => chain.thoughts));
+            const visited = new Set<string>();
+            const build = (thought: ThoughtNode): ThoughtTreeNode => {
+                visited.add(thought.id);
+                return {
+                    id: thought.id,
+                    text: thought.text,
+                    type: thought.type,
+                    confidence: thought.confidence,
+                    status: thought.status,
+                    chain: thought.parent_chain,
+                    children: thought.next_thoughts
+                        .filter((id) => inTree.has(id) && !visited.has(id))
+                        .map((id) => build(this.thoughts.get(id)!)),
+                };
+            };
+
+            // Thoughts starting a path: no previous thought, or one outside the tree
+            // (branches created before branches were linked to their origin)
+            const thoughts: ThoughtTreeNode[] = [];
+            for (const chain of chains) {
+                for (const id of chain.thoughts) {
+                    const thought = this.thoughts.get(id);
+                    if (
+                        thought &&
+                        !visited.has(id) &&
+                        !(thought.previous_thought && inTree.has(thought.previous_thought))
+                    ) {
+                        thoughts.push(build(thought));
+                    }
+                }
+            }
+
+            return {
+                success: true,
+                data: {
+                    root_chain: root.id,
+                    chains,
+                    thoughts,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to get thought tree: ${(error as Error).message}`,
+            };
+        }
+    }
+
     /**
      * Pause a thought process
      */
@@ -379,9 +597,11 @@ export class ThinkingProcess {
             }
 
             chain.status = 'paused';
+            chain.pause_reason = reason;
 
             // Store pause reason in chain context
             chain.context = (chain.context || '') + `\n[Paused: ${reason}]`;
+            this.isDirty = true;
 
             return {
                 success: true,
@@ -416,6 +636,8 @@ export class ThinkingProcess {
             }
 
             chain.status = 'active';
+            chain.pause_reason = undefined;
+            this.isDirty = true;
 
             return {
                 success: true,
@@ -429,6 +651,65 @@ export class ThinkingProcess {
         }
     }
 
+    /**
+     * Store a thought as a long-term memory linked from a conclusion memory
+     * A memory with the same text is reused instead of adding a copy
+     * @private
+     */
+    private storeThought(thoughtId: string, conclusionId: string): MCPResponse<string> {
+        const thought = this.thoughts.get(thoughtId);
+        if (!thought) {
+            return {
+                success: false,
+                error: `Thought not found: ${thoughtId}`,
+            };
+        }
+
+        let memoryId = this.longTermMemory.findByText(thought.text)?.id;
+        if (!memoryId) {
+            const result = this.longTermMemory.add(thought.text, [], {
+                properties: {
+                    thought_type: thought.type,
+                    confidence: thought.confidence,
+                    thought_chain: thought.parent_chain,
+                },
+            });
+            if (!result.success) {
+                return result;
+            }
+            memoryId = result.data;
+        }
+
+        const linkResult = this.longTermMemory.link(conclusionId, memoryId, { relation: THOUGHT_RELATION });
+        if (!linkResult.success) {
+            return linkResult;
+        }
+
+        return {
+            success: true,
+            data: memoryId,
+        };
+    }
+
+    /**
+     * Chain a branch was created from
+     * Branches created before parent_chain was recorded are found through `branches`
+     * @private
+     */
+    private findParentChain(chainId: string): ThoughtChain | undefined {
+        const parentId = this.chains.get(chainId)?.parent_chain;
+        if (parentId) {
+            return this.chains.get(parentId);
+        }
+
+        for (const chain of this.chains.values()) {
+            if (chain.branches.includes(chainId)) {
+                return chain;
+            }
+        }
+        return undefined;
+    }
+
     // =========================================================================
     // Cognitive Mode Management
     // =========================================================================
@@ -452,6 +733,8 @@ export class ThinkingProcess {
                 chain.cognitive_mode = mode;
             }
 
+            this.isDirty = true;
+
             return {
                 success: true,
                 data: undefined,
@@ -614,4 +897,71 @@ export class ThinkingProcess {
             };
         }
     }
+
+    // =========================================================================
+    // Persistence
+    // =========================================================================
+
+    /**
+     * Export chains, thoughts and current mode (for persistence)
+     */
+    exportState(): ThinkingState {
+        return {
+            chains: Object.fromEntries(this.chains),
+            thoughts: Object.fromEntries(this.thoughts),
+            currentMode: this.currentMode,
+        };
+    }
+
+    /**
+     * Load chains, thoughts and current mode from external source
+     */
+    loadState(state: ThinkingState): MCPResponse<void> {
+        try {
+            this.chains.clear();
+            this.thoughts.clear();
+
+            for (const [id, chain] of Object.entries(state.chains)) {
+                this.chains.set(id, chain);
+            }
+
+            for (const [id, thought] of Object.entries(state.thoughts)) {
+                this.thoughts.set(id, thought);
+            }
+
+            this.currentMode = state.currentMode;
+            this.isDirty = false;
+
+            return {
+                success: true,
+                data: undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to load thinking state: ${(error as Error).message}`,
+            };
+        }
+    }
+
+    /**
+     * Check if data has been modified since last save
+     */
+    checkIsDirty(): boolean {
+        return this.isDirty;
+    }
+
+    /**
+     * Mark data as clean (after save)
+     */
+    markClean(): void {
+        this.isDirty = false;
+    }
+
+    /**
+     * Mark data as modified again (after a failed save)
+     */
+    markDirty(): void {
+        this.isDirty = true;
+    }
 }
@@ -10,6 +10,7 @@
 export interface ShortTermMemoryEntry {
     text: string;
     timestamp: number; // Unix timestamp in milliseconds
+    expiresAt?: number; // Unix timestamp in milliseconds (no expiry if absent)
 }
 
 // ============================================================================
@@ -20,17 +21,112 @@ export interface LongTermMemoryMetadata {
     createdAt: string; // ISO 8601 timestamp
     lastAccessed: string; // ISO 8601 timestamp
     accessCount: number; // Number of times accessed
+    sourceTimestamps?: number[]; // Short-term entry timestamps this memory was consolidated from
+    archived?: boolean; // Set by the forgetting pass; hidden from search until accessed again
+    archivedAt?: string; // ISO 8601 timestamp
+    updatedAt?: string; // ISO 8601 timestamp of the last change to content or associations
+    updatedBy?: string; // Author of the last change, if given
+    occurredAt?: string; // ISO 8601 timestamp of the event the memory describes, if given
 }
 
+export interface AssociationEdge {
+    relation: string; // e.g. 'related', 'causes', 'contradicts', 'part-of'
+    weight: number; // 0-1
+    createdAt: string; // ISO 8601 timestamp
+    symmetric?: boolean; // A matching reverse edge is kept in sync
+}
+
+export interface GraphEdge extends AssociationEdge {
+    source: string;
+    target: string;
+}
+
+export interface LinkOptions {
+    relation?: string; // Default: 'related'
+    weight?: number; // Default: 1
+    symmetric?: boolean; // Default: false
+}
+
+export type EdgeDirection = 'outgoing' | 'incoming' | 'both';
+
 export interface LongTermMemoryNode {
     id: string; // UUID v4
     text: string;
-    associations: string[]; // Array of associated node IDs
+    associations: string[]; // Array of associated node IDs (outgoing)
+    edges?: Record<string, AssociationEdge>; // Edge attributes keyed by target ID, mirrors associations
+    tags?: string[]; // Lowercase labels, e.g. project or topic names
+    properties?: Record<string, PropertyValue>; // Free-form structured metadata
     metadata: LongTermMemoryMetadata;
+    history?: MemoryRevision[]; // Earlier versions, oldest first (at most historyLimit)
+}
+
+export type PropertyValue = string | number | boolean;
+
+/**
+ * One version of a memory's content and associations
+ */
+export interface MemoryRevision {
+    revision: number; // 1 = the version the memory was created with
+    text: string;
+    associations: string[];
+    edges?: Record<string, AssociationEdge>;
+    tags?: string[];
+    properties?: Record<string, PropertyValue>;
+    savedAt: string; // ISO 8601 timestamp this version was written
+    author?: string; // Who wrote this version (e.g. an agent or session name)
+}
+
+export interface MemoryHistory {
+    id: string;
+    revisions: MemoryRevision[]; // Oldest first; the last one is the current version
+}
+
+export interface RevertResult {
+    revision: number; // Revision number of the restored version
+    droppedAssociations: string[]; // Associated memories that no longer exist
+}
+
+export interface DuplicateMatch {
+    id: string;
+    text: string;
+    similarity: number; // 0-1, share of normalized words the texts have in common
+}
+
+export interface DuplicateGroup {
+    memories: DuplicateMatch[]; // similarity = best match with another member of the group
+}
+
+export interface MergeOptions {
+    text?: string; // Text of the merged memory (default: text of the first memory)
+    author?: string; // Recorded in the revision history
+}
+
+export interface MergeResult {
+    id: string; // The memory the others were merged into
+    merged: string[]; // IDs of the memories removed by the merge
+    rewired: number; // Links from other memories moved to the merged memory
+}
+
+export interface AddMemoryOptions {
+    tags?: string[];
+    properties?: Record<string, PropertyValue>;
+    metadata?: Partial<LongTermMemoryMetadata>;
+    rejectDuplicate?: boolean; // Do not add when a near-duplicate memory exists
+    occurredAt?: string; // When the remembered event happened (date or ISO 8601 timestamp)
+}
+
+export interface UpdateMemoryFields {
+    tags?: string[]; // Replaces all tags
+    properties?: Record<string, PropertyValue | null>; // Merged; null removes a key
+    author?: string; // Recorded in the revision history
+    occurredAt?: string | null; // When the remembered event happened; null removes it
 }
 
 export interface MemoryGraph {
+    version?: number; // Storage format version (absent in legacy files)
     memories: Record<string, LongTermMemoryNode>;
+    thinking?: ThinkingState;
+    shortTerm?: ShortTermMemoryEntry[]; // Only present when persistence is enabled
 }
 
 // ============================================================================
@@ -85,6 +181,44 @@ export interface ThoughtChain {
     thoughts: string[]; // Array of thought IDs
     branches: string[]; // Array of branch chain IDs
     cognitive_mode: CognitiveMode;
+    pause_reason?: string; // Set while the chain is paused
+    parent_chain?: string; // Chain this branch was created from
+    origin_thought?: string; // Thought this branch was created from
+    merged_thought?: string; // Thought in the parent chain holding the branch's merged conclusion
+}
+
+export interface CompleteThoughtOptions {
+    minConfidence?: number; // Also store the chain's thoughts with at least this confidence as memories
+    thoughtIds?: string[]; // Also store these thoughts as memories, whatever their confidence (must belong to the chain)
+    tags?: string[]; // Tags for the conclusion memory
+}
+
+export interface ThoughtConclusion {
+    memoryId: string; // Long-term memory holding the conclusion
+    thoughtMemories: Record<string, string>; // Thought ID -> memory ID of each stored thought
+    failures: { thoughtId: string; error: string }[]; // Selected thoughts that could not be stored
+}
+
+export interface ThoughtTreeNode {
+    id: string;
+    text: string;
+    type: ThoughtType;
+    confidence: number;
+    status: ThoughtStatus;
+    chain: string; // Chain ID the thought belongs to
+    children: ThoughtTreeNode[]; // Following thoughts, including the first thoughts of branches
+}
+
+export interface ThoughtTree {
+    root_chain: string;
+    chains: ThoughtChain[]; // The root chain and every branch below it
+    thoughts: ThoughtTreeNode[]; // Thoughts without a previous thought in the tree
+}
+
+export interface ThinkingState {
+    chains: Record<string, ThoughtChain>;
+    thoughts: Record<string, ThoughtNode>;
+    currentMode: CognitiveMode;
 }
 
 // ============================================================================
@@ -112,26 +246,126 @@ export type MCPResponse<T = any> = MCPSuccess<T> | MCPError;
 
 export interface MemoryConfig {
     shortTermCapacity: number;
+    shortTermTTL: number; // milliseconds, 0 = entries never expire
+    persistShortTermMemory: boolean;
     storagePath: string;
     autoSaveInterval: number; // milliseconds
     searchLimit: number;
     maxAssociationDepth: number;
     enableBackup: boolean;
+    embeddingProvider: 'hash' | 'http';
+    embeddingEndpoint?: string; // URL of the local embedding server (http provider)
+    embeddingModel?: string; // Model name sent to the embedding server
+    embeddingDimensions: number;
+    decayHalfLife: number; // milliseconds, 0 = memories never decay
+    reinforcementFactor: number; // Stability growth per access
+    decayRankingWeight: number; // 0-1, how much strength influences search ranking
+    forgetThreshold: number; // Strength below which unlinked memories are forgotten
+    forgetInterval: number; // milliseconds between forgetting passes, 0 = disabled
+    forgetAction: ForgetAction;
+    storageBackend: StorageBackendType;
+    watchStorage: boolean; // Reload external edits to the storage directory (backends that support it)
+    journalMaxSize: number; // bytes, file backend compacts its journal beyond this (0 = every save)
+    lockTimeout: number; // milliseconds a save waits for the storage lock (0 = fail at once)
+    historyLimit: number; // Earlier versions kept per memory (0 = no history)
+    duplicateThreshold: number; // 0-1 similarity at which a new memory counts as duplicate (0 = no check)
+    encryptionKey?: string; // 32-byte key as hex or base64; stored files are encrypted when set
+    encryptionKeyFile?: string; // File holding the key, used when encryptionKey is not set
+    snapshotInterval: number; // milliseconds between automatic snapshots, 0 = disabled
+    snapshotCount: number; // Snapshots kept at most
+    snapshotMaxAge: number; // milliseconds, older snapshots are pruned (0 = no age limit)
 }
 
+export type ForgetAction = 'archive' | 'delete';
+
+// 'file': single memory.brain JSON file, 'markdown': one note per memory in a vault directory,
+// 'sqlite': memory.db database written row by row
+export type StorageBackendType = 'file' | 'markdown' | 'sqlite';
+
 // ============================================================================
 // Search and Query Types
 // ============================================================================
 
-export interface SearchOptions {
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+export interface MemoryFilter {
+    tags?: string[]; // Only memories carrying these tags
+    tagMode?: 'all' | 'any'; // Require every tag or at least one (default: 'all')
+    properties?: Record<string, PropertyValue>; // Exact property matches
+    includeArchived?: boolean; // Include memories archived by forgetting (default: false)
+    includeSuperseded?: boolean; // Include memories replaced through a 'supersedes' link (default: false)
+    from?: string; // Start of a time range (date or ISO 8601 timestamp, inclusive)
+    to?: string; // End of a time range (exclusive; a plain date includes that whole day)
+    timeField?: TimeField; // Time the range applies to (default: 'occurredAt')
+}
+
+// 'occurredAt' falls back to createdAt for memories without an event time
+export type TimeField = 'createdAt' | 'lastAccessed' | 'occurredAt';
+
+export interface SearchOptions extends MemoryFilter {
     limit?: number;
     caseSensitive?: boolean;
+    operator?: 'and' | 'or'; // How multiple terms are combined (default: 'and')
+    mode?: SearchMode; // Default: 'keyword'
+    semanticWeight?: number; // 0-1, share of the vector score in hybrid mode (default: 0.5)
+    sortBy?: 'relevance' | ListSortField; // Default: 'relevance'
+    order?: 'asc' | 'desc'; // Order of sortBy other than relevance (default: 'desc')
+}
+
+export interface SemanticSearchOptions extends MemoryFilter {
+    limit?: number;
+    minScore?: number; // Minimum cosine similarity (default: 0)
+}
+
+export type ListSortField = 'createdAt' | 'lastAccessed' | 'occurredAt' | 'accessCount' | 'text';
+
+export interface ListOptions extends MemoryFilter {
+    offset?: number; // Default: 0
+    limit?: number; // Default: searchLimit
+    sortBy?: ListSortField; // Default: 'createdAt'
+    order?: 'asc' | 'desc'; // Default: 'desc'
+}
+
+export interface MemoryPage {
+    items: LongTermMemoryNode[];
+    total: number; // Matches before pagination
+    offset: number;
+    limit: number;
 }
 
 export interface SearchResult {
     id: string;
     text: string;
-    relevance?: number; // Future: add relevance scoring
+    relevance?: number; // BM25 score, cosine similarity or blended score; higher is better
+}
+
+export interface TimelineOptions extends MemoryFilter {
+    groupBy?: 'day' | 'week'; // Calendar periods in UTC; weeks start on Monday (default: 'day')
+    order?: 'asc' | 'desc'; // Default: 'asc' (oldest first)
+    limit?: number; // Entries at most (default: searchLimit)
+}
+
+export interface TimelineEntry {
+    id: string;
+    text: string;
+    time: string; // Value of the timeline's time field
+    tags?: string[];
+}
+
+export interface TimelineGroup {
+    start: string; // First day of the period (YYYY-MM-DD)
+    entries: TimelineEntry[];
+}
+
+export interface Timeline {
+    groups: TimelineGroup[];
+    total: number; // Matching memories before the limit
+}
+
+export interface VectorStore {
+    provider: string; // Embedding provider id the vectors were produced with
+    dimensions: number;
+    vectors: Record<string, { hash: string; vector: number[] }>;
 }
 
 export interface GetMemoryOptions {
@@ -143,11 +377,183 @@ export interface MemoryWithAssociations {
     associations: LongTermMemoryNode[];
 }
 
+// ============================================================================
+// Graph Query Types
+// ============================================================================
+
+export interface TraversalOptions {
+    maxDepth?: number; // Maximum number of hops (capped by maxAssociationDepth)
+    relations?: string[]; // Only follow edges with these relation labels
+    direction?: EdgeDirection; // Which edges to follow (default: 'both')
+}
+
+export interface MemoryPath {
+    nodes: LongTermMemoryNode[]; // From start to end, inclusive
+    edges: GraphEdge[]; // edges[i] connects nodes[i] and nodes[i + 1]
+    length: number; // Number of hops
+}
+
+export interface SubgraphNode {
+    node: LongTermMemoryNode;
+    distance?: number; // Hops from the query root, if any
+}
+
+export interface MemorySubgraph {
+    nodes: SubgraphNode[];
+    edges: GraphEdge[];
+}
+
+// ============================================================================
+// Forgetting Types
+// ============================================================================
+
+export interface ForgetOptions {
+    dryRun?: boolean; // Only report candidates (default: false)
+    threshold?: number; // Override the configured forgetThreshold
+    action?: ForgetAction; // Override the configured forgetAction
+}
+
+export interface ForgetCandidate {
+    id: string;
+    text: string;
+    strength: number; // 0-1
+    lastAccessed: string;
+    accessCount: number;
+}
+
+export interface ForgetReport {
+    candidates: ForgetCandidate[];
+    action: ForgetAction;
+    applied: boolean; // False for dry runs
+}
+
+// ============================================================================
+// Consolidation Types
+// ============================================================================
+
+export interface ConsolidationOptions {
+    indices?: number[]; // Indices into getShortTermMemory() output (newest first)
+    minOccurrences?: number; // Only promote texts seen at least this many times
+    linkTogether?: boolean; // Associate promoted nodes with each other
+    removeFromBuffer?: boolean; // Drop promoted entries from short-term memory
+}
+
+export interface ConsolidatedMemory {
+    id: string;
+    text: string;
+    timestamps: number[]; // Original short-term timestamps
+    existing: boolean; // True if merged into an already existing node
+}
+
+export interface ConsolidationResult {
+    consolidated: ConsolidatedMemory[];
+    created: number;
+    deduplicated: number;
+}
+
+// ============================================================================
+// Import/Export Types
+// ============================================================================
+
+export type ExportFormat = 'jsonl' | 'markdown' | 'graphml' | 'csv';
+
+// How imported nodes whose ID already exists are handled
+export type ImportStrategy = 'skip' | 'overwrite' | 'rename';
+
+export interface ExportFile {
+    name: string; // File name (relative to the export directory for multi-file formats)
+    content: string;
+}
+
+export interface ExportOptions {
+    format: ExportFormat;
+    ids?: string[]; // Export only these nodes (default: all)
+    outputPath?: string; // Write to disk (CLI only): a file for jsonl/graphml, a directory for markdown/csv
+}
+
+export interface ExportResult {
+    format: ExportFormat;
+    count: number; // Exported nodes
+    files?: ExportFile[]; // Returned when no outputPath is given
+    written?: string[]; // Paths written when outputPath is given
+}
+
+export interface ImportOptions {
+    format: ExportFormat;
+    strategy?: ImportStrategy; // Default: skip
+    inputPath?: string; // Read from disk (CLI only): a file for jsonl/graphml, a directory for markdown/csv
+    files?: ExportFile[]; // Inline files, as returned by an export
+    content?: string; // Inline content of a single file (nodes only for csv)
+}
+
+export interface ImportReport {
+    created: number;
+    overwritten: number;
+    skipped: number;
+    renamed: number;
+    edges: number; // Edges created
+    droppedEdges: number; // Edges whose target exists neither in the import nor in memory
+    idMap: Record<string, string>; // Imported ID -> ID in memory, for IDs that changed
+}
+
+// ============================================================================
+// Snapshot Types
+// ============================================================================
+
+export type SnapshotReason = 'auto' | 'manual' | 'pre-restore';
+
+export interface SnapshotInfo {
+    id: string; // Derived from the creation time, e.g. 2024-05-01T12-00-00-000Z
+    createdAt: string; // ISO 8601 timestamp
+    reason: SnapshotReason;
+    label?: string;
+    memoryCount: number;
+    size: number; // bytes
+}
+
+export interface MemorySummary {
+    id: string;
+    text: string;
+}
+
+export interface MemoryConflict {
+    memories: MemorySummary[]; // The two contradicting memories
+    createdAt: string; // When the contradiction was recorded
+    resolved: boolean; // One of the two has been superseded
+}
+
+export interface SnapshotDiff {
+    snapshot: string;
+    added: MemorySummary[]; // In memory now but not in the snapshot
+    removed: MemorySummary[]; // In the snapshot but not in memory now
+    changed: (MemorySummary & { fields: string[] })[]; // Fields that differ: text, tags, properties, associations, archived
+}
+
+export interface RestoreReport {
+    snapshot: string;
+    restored: number; // Memories written back from the snapshot
+    removed: number; // Memories deleted because the snapshot did not contain them (whole-graph restore)
+    notFound: string[]; // Requested IDs missing from the snapshot
+    safetySnapshot: string; // Snapshot of the state before restoring
+}
+
+// ============================================================================
+// Memory Space Types
+// ============================================================================
+
+export interface MemorySpaceInfo {
+    name: string;
+    loaded: boolean; // Spaces are loaded on first use
+    active: boolean; // Default space for tool calls without an explicit space
+    longTermCount?: number; // Only known for loaded spaces
+}
+
 // ============================================================================
 // Statistics Types
 // ============================================================================
 
 export interface MemoryStats {
+    space?: string; // Memory space the statistics belong to
     shortTermCount: number;
     longTermCount: number;
     totalAssociations: number;
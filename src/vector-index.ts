@@ -0,0 +1,128 @@
+/**
+ * Vector Index
+ * Keeps one embedding per long-term memory node for semantic search
+ */
+
+import { createHash } from 'crypto';
+import { LongTermMemoryNode, VectorStore } from './types.js';
+import { EmbeddingProvider, cosineSimilarity } from './embeddings.js';
+
+export interface VectorMatch {
+    id: string;
+    score: number; // Cosine similarity
+}
+
+/**
+ * Short content hash used to detect nodes whose text changed since embedding
+ */
+function hashText(text: string): string {
+    return createHash('sha1').update(text).digest('hex').substring(0, 16);
+}
+
+export class VectorIndex {
+    private provider: EmbeddingProvider;
+    private entries: Map<string, { hash: string; vector: number[] }> = new Map();
+    private isDirty: boolean = false; // Track if data needs saving
+
+    constructor(provider: EmbeddingProvider) {
+        this.provider = provider;
+    }
+
+    /**
+     * Bring the index up to date with the given nodes
+     * Embeds new or changed nodes and drops vectors of deleted ones
+     */
+    async sync(nodes: Map<string, LongTermMemoryNode>): Promise<void> {
+        for (const id of this.entries.keys()) {
+            if (!nodes.has(id)) {
+                this.entries.delete(id);
+                this.isDirty = true;
+            }
+        }
+
+        const pending: { id: string; hash: string; text: string }[] = [];
+        for (const node of nodes.values()) {
+            const hash = hashText(node.text);
+            if (this.entries.get(node.id)?.hash !== hash) {
+                pending.push({ id: node.id, hash, text: node.text });
+            }
+        }
+
+        if (pending.length === 0) {
+            return;
+        }
+
+        const vectors = await this.provider.embed(pending.map((item) => item.text));
+        pending.forEach((item, i) => {
+            this.entries.set(item.id, { hash: item.hash, vector: vectors[i] });
+        });
+        this.isDirty = true;
+    }
+
+    /**
+     * Find the nodes most similar to a query text (best first)
+     */
+    async search(query: string, limit: number, minScore: number = 0): Promise<VectorMatch[]> {
+        const [queryVector] = await this.provider.embed([query]);
+        const matches: VectorMatch[] = [];
+
+        for (const [id, entry] of this.entries) {
+            const score = cosineSimilarity(queryVector, entry.vector);
+            if (score > minScore) {
+                matches.push({ id, score });
+            }
+        }
+
+        return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+    }
+
+    /**
+     * Export vectors (for persistence)
+     */
+    exportStore(): VectorStore {
+        return {
+            provider: this.provider.id,
+            dimensions: this.provider.dimensions,
+            vectors: Object.fromEntries(this.entries),
+        };
+    }
+
+    /**
+     * Load vectors from external source (for persistence)
+     * Vectors produced by a different provider are discarded and re-embedded lazily
+     */
+    loadStore(store: VectorStore): void {
+        this.entries.clear();
+
+        if (store.provider !== this.provider.id || store.dimensions !== this.provider.dimensions) {
+            this.isDirty = true;
+            return;
+        }
+
+        for (const [id, entry] of Object.entries(store.vectors)) {
+            this.entries.set(id, entry);
+        }
+        this.isDirty = false;
+    }
+
+    /**
+     * Check if data has been modified since last save
+     */
+    checkIsDirty(): boolean {
+        return this.isDirty;
+    }
+
+    /**
+     * Mark data as clean (after save)
+     */
+    markClean(): void {
+        this.isDirty = false;
+    }
+
+    /**
+     * Mark data as modified again (after a failed save)
+     */
+    markDirty(): void {
+        this.isDirty = true;
+    }
+}
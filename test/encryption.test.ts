@@ -0,0 +1,173 @@
+/**
+ * Encryption at rest: encrypted storage, wrong keys and key rotation
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { FileCipher, decodeStored, encodeStored, isSealed, parseKey } from '../src/encryption.js';
+import { StorageManager } from '../src/storage.js';
+import { SnapshotStore } from '../src/snapshots.js';
+import { STORAGE_FILES } from '../src/config.js';
+import { MemoryGraph } from '../src/types.js';
+import { expectSuccess, makeNode, tempDir } from './helpers.js';
+
+function newCipher(): FileCipher {
+    return new FileCipher(randomBytes(32));
+}
+
+async function openStorage(dir: string, cipher?: FileCipher): Promise<StorageManager> {
+    const storage = new StorageManager(dir, true, 1024 * 1024, 0, cipher);
+    expectSuccess(await storage.init());
+    return storage;
+}
+
+function graphOf(...nodes: ReturnType<typeof makeNode>[]): MemoryGraph {
+    return { memories: Object.fromEntries(nodes.map((node) => [node.id, node])) };
+}
+
+describe('parseKey', () => {
+    it('accepts 32 bytes as hex or base64', () => {
+        const key = randomBytes(32);
+        assert.deepEqual(expectSuccess(parseKey(key.toString('hex'))), key);
+        assert.deepEqual(expectSuccess(parseKey(`${key.toString('base64')}\n`)), key);
+    });
+
+    it('rejects keys of the wrong length or encoding', () => {
+        assert.equal(parseKey(randomBytes(16).toString('hex')).success, false);
+        assert.equal(parseKey('not a key!').success, false);
+    });
+});
+
+describe('Encrypted file storage', () => {
+    it('writes sealed files that load again with the same key', async () => {
+        const dir = await tempDir();
+        const cipher = newCipher();
+        const storage = await openStorage(dir, cipher);
+        expectSuccess(await storage.load());
+
+        const a = makeNode('a', 'The safe code is 1234');
+        expectSuccess(await storage.save(graphOf(a)));
+        expectSuccess(await storage.save(graphOf(a, makeNode('b', 'second')), ['b']));
+        await storage.cleanup();
+
+        for (const file of [STORAGE_FILES.memory, STORAGE_FILES.journal]) {
+            const content = await fs.readFile(path.join(dir, file), 'utf-8');
+            assert.ok(content.trim().split('\n').every(isSealed), `${file} is not sealed`);
+            assert.doesNotMatch(content, /safe code/);
+        }
+
+        const reopened = await openStorage(dir, cipher);
+        const graph = expectSuccess(await reopened.load());
+        assert.deepEqual(Object.keys(graph.memories).sort(), ['a', 'b']);
+        assert.equal(graph.memories.a.text, 'The safe code is 1234');
+        await reopened.cleanup();
+    });
+
+    it('fails to load with a wrong or missing key and leaves the files alone', async () => {
+        const dir = await tempDir();
+        const storage = await openStorage(dir, newCipher());
+        expectSuccess(await storage.load());
+        expectSuccess(await storage.save(graphOf(makeNode('a', 'first'))));
+        expectSuccess(await storage.save(graphOf(makeNode('a', 'first'), makeNode('b', 'second'))));
+        await storage.cleanup();
+        const stored = await fs.readFile(path.join(dir, STORAGE_FILES.memory), 'utf-8');
+
+        const wrongKey = await openStorage(dir, newCipher());
+        const wrong = await wrongKey.load();
+        assert.equal(wrong.success, false);
+        assert.match(wrong.success ? '' : wrong.error, /wrong encryption key or damaged file/);
+        await wrongKey.cleanup();
+
+        const noKey = await openStorage(dir);
+        const missing = await noKey.load();
+        assert.equal(missing.success, false);
+        assert.match(missing.success ? '' : missing.error, /is encrypted; set encryptionKey/);
+        await noKey.cleanup();
+
+        assert.equal(await fs.readFile(path.join(dir, STORAGE_FILES.memory), 'utf-8'), stored);
+    });
+
+    it('refuses plain storage once a key is configured', () => {
+        assert.throws(() => decodeStored('{"memories":{}}', newCipher(), STORAGE_FILES.memory), /is not encrypted/);
+    });
+});
+
+describe('Key rotation', () => {
+    it('re-encrypts memory, journal and vectors with the new key', async () => {
+        const dir = await tempDir();
+        const oldKey = newCipher();
+        const newKey = newCipher();
+        const storage = await openStorage(dir, oldKey);
+        expectSuccess(await storage.load());
+        const a = makeNode('a', 'first');
+        expectSuccess(await storage.save(graphOf(a)));
+        expectSuccess(await storage.save(graphOf(a, makeNode('b', 'second')), ['b']));
+        expectSuccess(
+            await storage.saveVectors({ provider: 'test', dimensions: 2, vectors: { a: { hash: 'h', vector: [1, 0] } } })
+        );
+
+        expectSuccess(await storage.rekey(newKey));
+        await storage.cleanup();
+
+        const stale = await openStorage(dir, oldKey);
+        assert.equal((await stale.load()).success, false);
+        await stale.cleanup();
+
+        const reopened = await openStorage(dir, newKey);
+        assert.deepEqual(Object.keys(expectSuccess(await reopened.load()).memories).sort(), ['a', 'b']);
+        assert.deepEqual(expectSuccess(await reopened.loadVectors())!.vectors.a.vector, [1, 0]);
+        await reopened.cleanup();
+    });
+
+    it('completes a rotation that stopped before the backup was replaced', async () => {
+        const dir = await tempDir();
+        const oldKey = newCipher();
+        const newKey = newCipher();
+        const storage = await openStorage(dir, oldKey);
+        expectSuccess(await storage.load());
+        expectSuccess(await storage.save(graphOf(makeNode('a', 'first'), makeNode('b', 'second'))));
+        const before = await fs.readFile(path.join(dir, STORAGE_FILES.memory), 'utf-8');
+        expectSuccess(await storage.rekey(newKey));
+        await storage.cleanup();
+
+        // memory.brain already uses the new key while the backup still holds the old one
+        await fs.writeFile(path.join(dir, STORAGE_FILES.backup), before);
+
+        // Running the rotation again with the old key reads the backup and finishes the job
+        const retry = await openStorage(dir, oldKey);
+        assert.deepEqual(Object.keys(expectSuccess(await retry.load()).memories).sort(), ['a', 'b']);
+        expectSuccess(await retry.rekey(newKey));
+        await retry.cleanup();
+
+        const backup = await fs.readFile(path.join(dir, STORAGE_FILES.backup), 'utf-8');
+        assert.doesNotThrow(() => decodeStored(backup, newKey, STORAGE_FILES.backup));
+        const reopened = await openStorage(dir, newKey);
+        assert.deepEqual(Object.keys(expectSuccess(await reopened.load()).memories).sort(), ['a', 'b']);
+        await reopened.cleanup();
+    });
+
+    it('skips snapshots already re-encrypted by an interrupted run', async () => {
+        const dir = await tempDir();
+        const oldKey = newCipher();
+        const newKey = newCipher();
+        const policy = { count: 10, maxAge: 0 };
+        const snapshots = new SnapshotStore(dir, policy, oldKey);
+        const first = expectSuccess(await snapshots.create(graphOf(makeNode('a', 'first')), 'manual'));
+        const second = expectSuccess(await snapshots.create(graphOf(makeNode('b', 'second')), 'manual'));
+
+        // The interrupted run got as far as the first snapshot
+        const firstPath = path.join(dir, `${first.id}.brain`);
+        const stored = await fs.readFile(firstPath, 'utf-8');
+        await fs.writeFile(firstPath, encodeStored(decodeStored(stored, oldKey, first.id), newKey));
+
+        expectSuccess(await new SnapshotStore(dir, policy, oldKey).rekey(newKey));
+
+        const rotated = new SnapshotStore(dir, policy, newKey);
+        assert.equal(expectSuccess(await rotated.read(first.id)).memories.a.text, 'first');
+        assert.equal(expectSuccess(await rotated.read(second.id)).memories.b.text, 'second');
+        assert.equal((await new SnapshotStore(dir, policy, oldKey).read(second.id)).success, false);
+    });
+});
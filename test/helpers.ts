@@ -0,0 +1,47 @@
+/**
+ * Test Helpers
+ * Temporary storage directories and hand-built memory nodes
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { after } from 'node:test';
+import { LongTermMemoryNode, MCPResponse } from '../src/types.js';
+
+/**
+ * Create an empty directory that is removed when the test file finishes
+ */
+export async function tempDir(): Promise<string> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'brain-mcp-test-'));
+    after(() => fs.rm(dir, { recursive: true, force: true }));
+    return dir;
+}
+
+/**
+ * Build a stored node with outgoing associations to the given IDs
+ */
+export function makeNode(id: string, text: string, associations: string[] = []): LongTermMemoryNode {
+    const createdAt = '2024-01-01T00:00:00.000Z';
+    return {
+        id,
+        text,
+        associations,
+        edges: Object.fromEntries(
+            associations.map((targetId) => [targetId, { relation: 'related', weight: 1, createdAt }])
+        ),
+        tags: [],
+        properties: {},
+        metadata: { createdAt, lastAccessed: createdAt, accessCount: 0 },
+    };
+}
+
+/**
+ * Unwrap a successful response, failing the test with the error otherwise
+ */
+export function expectSuccess<T>(result: MCPResponse<T>): T {
+    if (!result.success) {
+        throw new Error(`Expected success, got: ${result.error}`);
+    }
+    return result.data;
+}
@@ -0,0 +1,172 @@
+/**
+ * Import and export: format round trips, field validation and merge strategies
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { exportNodes, parseImport } from '../src/interchange.js';
+import { LongTermMemory } from '../src/long-term-memory.js';
+import { MemorySpace } from '../src/memory-space.js';
+import { mergeConfig } from '../src/config.js';
+import { ExportFormat, LongTermMemoryNode } from '../src/types.js';
+import { expectSuccess, makeNode, tempDir } from './helpers.js';
+
+const FORMATS: ExportFormat[] = ['jsonl', 'markdown', 'graphml', 'csv'];
+
+function sampleNodes(): LongTermMemoryNode[] {
+    const a = makeNode('a', 'Tea is brewed at 80°C, "never" boiling', ['b']);
+    a.tags = ['kitchen', 'tea'];
+    a.properties = { source: 'notes', rating: 4, verified: true };
+    a.metadata.accessCount = 3;
+    a.edges!.b = { relation: 'causes', weight: 0.5, createdAt: a.metadata.createdAt };
+
+    const b = makeNode('b', 'Green tea,\nwith a second line');
+    return [a, b];
+}
+
+describe('exportNodes / parseImport', () => {
+    for (const format of FORMATS) {
+        it(`round-trips memories through ${format}`, () => {
+            const imported = parseImport(exportNodes(sampleNodes(), format), format);
+            const byId = new Map(imported.map((node) => [node.id, node]));
+
+            assert.deepEqual(Array.from(byId.keys()).sort(), ['a', 'b']);
+            const a = byId.get('a')!;
+            assert.equal(a.text, 'Tea is brewed at 80°C, "never" boiling');
+            assert.equal(byId.get('b')!.text, 'Green tea,\nwith a second line');
+            assert.deepEqual(a.tags, ['kitchen', 'tea']);
+            assert.deepEqual(a.properties, { source: 'notes', rating: 4, verified: true });
+            assert.equal(a.metadata.accessCount, 3);
+            assert.equal(a.metadata.createdAt, '2024-01-01T00:00:00.000Z');
+            assert.deepEqual(a.associations, ['b']);
+            assert.equal(a.edges!.b.relation, 'causes');
+            assert.equal(a.edges!.b.weight, 0.5);
+        });
+    }
+
+    it('turns wiki-links in hand-written notes into associations', () => {
+        const imported = parseImport(
+            [
+                { name: 'Tea.md', content: 'Tea needs [[Water]] and time.\n' },
+                { name: 'Water.md', content: '---\ntags: drink, basics\n---\n\nWater boils at 100°C.\n' },
+            ],
+            'markdown'
+        );
+        const tea = imported.find((node) => node.text.startsWith('Tea'))!;
+        const water = imported.find((node) => node.text.startsWith('Water'))!;
+
+        assert.deepEqual(tea.associations, [water.id]);
+        assert.deepEqual(water.tags, ['drink', 'basics']);
+    });
+
+    it('rejects JSON Lines fields of the wrong type with their location', () => {
+        const jsonl = (record: object) => [{ name: 'memories.jsonl', content: `\n${JSON.stringify(record)}\n` }];
+
+        assert.throws(() => parseImport(jsonl({ id: 'a', text: 'x', tags: 'tea' }), 'jsonl'), {
+            message: 'memories.jsonl:2: tags must be a list of strings',
+        });
+        assert.throws(() => parseImport(jsonl({ id: 'a', text: 'x', metadata: { accessCount: '3' } }), 'jsonl'), {
+            message: 'memories.jsonl:2: metadata.accessCount must be a number',
+        });
+        assert.throws(() => parseImport(jsonl({ id: 'a', text: 'x', metadata: { createdAt: 'soon' } }), 'jsonl'), {
+            message: 'memories.jsonl:2: metadata.createdAt is not a valid time: soon',
+        });
+        assert.throws(() => parseImport(jsonl({ id: 'a', text: 'x', properties: { nested: {} } }), 'jsonl'), {
+            message: 'memories.jsonl:2: properties.nested must be a string, number or boolean',
+        });
+    });
+
+    it('rejects front matter fields of the wrong type', () => {
+        const note = '---\nid: a\nmetadata:\n  accessCount: -1\n---\n\nText\n';
+        assert.throws(() => parseImport([{ name: 'a.md', content: note }], 'markdown'), {
+            message: 'a.md: invalid front matter: metadata.accessCount must be a non-negative integer',
+        });
+    });
+
+    it('rejects CSV rows with an unreadable access count', () => {
+        const csv = 'id,text,accessCount\na,Tea,many\n';
+        assert.throws(() => parseImport([{ name: 'nodes.csv', content: csv }], 'csv'), {
+            message: 'nodes.csv: node a: metadata.accessCount must be a number',
+        });
+    });
+});
+
+describe('LongTermMemory.importNodes', () => {
+    function memoryWith(text: string): { memory: LongTermMemory; id: string } {
+        const memory = new LongTermMemory();
+        const id = expectSuccess(memory.add(text));
+        return { memory, id };
+    }
+
+    it('keeps existing memories with the skip strategy', () => {
+        const { memory, id } = memoryWith('Original');
+        const report = expectSuccess(memory.importNodes([makeNode(id, 'Imported'), makeNode('new', 'Other')], 'skip'));
+
+        assert.equal(report.skipped, 1);
+        assert.equal(report.created, 1);
+        assert.equal(memory.getAllNodes().get(id)!.text, 'Original');
+    });
+
+    it('replaces existing memories with the overwrite strategy and records the old version', () => {
+        const { memory, id } = memoryWith('Original');
+        const report = expectSuccess(memory.importNodes([makeNode(id, 'Imported')], 'overwrite'));
+
+        assert.equal(report.overwritten, 1);
+        assert.equal(memory.getAllNodes().get(id)!.text, 'Imported');
+        const revisions = expectSuccess(memory.getHistory(id)).revisions;
+        assert.deepEqual(
+            revisions.map((revision) => revision.text),
+            ['Original', 'Imported']
+        );
+    });
+
+    it('imports conflicting memories under new IDs with the rename strategy and remaps edges', () => {
+        const { memory, id } = memoryWith('Original');
+        const report = expectSuccess(
+            memory.importNodes([makeNode(id, 'Imported'), makeNode('linker', 'Links to it', [id, 'missing'])], 'rename')
+        );
+
+        const newId = report.idMap[id];
+        assert.ok(newId && newId !== id);
+        assert.equal(report.renamed, 1);
+        assert.equal(report.edges, 1);
+        assert.equal(report.droppedEdges, 1);
+        assert.equal(memory.getAllNodes().get(id)!.text, 'Original');
+        assert.equal(memory.getAllNodes().get(newId)!.text, 'Imported');
+        assert.deepEqual(memory.getAllNodes().get('linker')!.associations, [newId]);
+    });
+
+    it('rejects an import that lists the same ID twice', () => {
+        const memory = new LongTermMemory();
+        const result = memory.importNodes([makeNode('a', 'One'), makeNode('a', 'Two')]);
+
+        assert.equal(result.success, false);
+        assert.equal(memory.getCount(), 0);
+    });
+});
+
+describe('MemorySpace export and import', () => {
+    it('moves memories between spaces through inline files', async () => {
+        const source = new MemorySpace('source', mergeConfig({ storagePath: await tempDir(), watchStorage: false }));
+        const target = new MemorySpace('target', mergeConfig({ storagePath: await tempDir(), watchStorage: false }));
+        expectSuccess(await source.init());
+        expectSuccess(await target.init());
+
+        const water = expectSuccess(source.addLongTermMemory('Water boils at 100°C'));
+        expectSuccess(source.addLongTermMemory('Tea needs hot water', [water]));
+
+        const exported = expectSuccess(await source.exportMemory({ format: 'csv' }));
+        assert.equal(exported.count, 2);
+        assert.equal(exported.written, undefined);
+
+        const report = expectSuccess(await target.importMemory({ format: 'csv', files: exported.files }));
+        assert.equal(report.created, 2);
+        assert.equal(report.edges, 1);
+
+        const missing = await target.importMemory({ format: 'csv' });
+        assert.equal(missing.success, false);
+
+        expectSuccess(await source.shutdown());
+        expectSuccess(await target.shutdown());
+    });
+});
@@ -0,0 +1,203 @@
+/**
+ * Long-term memory: revision history, revert, duplicate detection and merging
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { LongTermMemory } from '../src/long-term-memory.js';
+import { MemorySpace } from '../src/memory-space.js';
+import { mergeConfig } from '../src/config.js';
+import { DuplicateMatch } from '../src/types.js';
+import { expectSuccess, tempDir } from './helpers.js';
+
+describe('LongTermMemory history', () => {
+    it('records every change as a revision with its author', () => {
+        const memory = new LongTermMemory();
+        const id = expectSuccess(memory.add('Tea is brewed at 80°C', [], { tags: ['tea'] }));
+        expectSuccess(memory.update(id, 'Green tea is brewed at 80°C', undefined, { author: 'alice' }));
+        expectSuccess(memory.update(id, undefined, undefined, { tags: ['tea', 'green'], author: 'bob' }));
+
+        const revisions = expectSuccess(memory.getHistory(id)).revisions;
+        assert.deepEqual(
+            revisions.map((revision) => [revision.revision, revision.text, revision.author]),
+            [
+                [1, 'Tea is brewed at 80°C', undefined],
+                [2, 'Green tea is brewed at 80°C', 'alice'],
+                [3, 'Green tea is brewed at 80°C', 'bob'],
+            ]
+        );
+        assert.deepEqual(revisions[2].tags, ['tea', 'green']);
+    });
+
+    it('reverts to an earlier revision and records the revert as a new one', () => {
+        const memory = new LongTermMemory();
+        const other = expectSuccess(memory.add('Water'));
+        const id = expectSuccess(memory.add('Tea', [other], { properties: { rating: 3 } }));
+        expectSuccess(memory.update(id, 'Coffee', [], { properties: { rating: 5 } }));
+
+        const result = expectSuccess(memory.revert(id, 1, 'alice'));
+
+        assert.equal(result.revision, 3);
+        assert.deepEqual(result.droppedAssociations, []);
+        const node = memory.getAllNodes().get(id)!;
+        assert.equal(node.text, 'Tea');
+        assert.deepEqual(node.associations, [other]);
+        assert.deepEqual(node.properties, { rating: 3 });
+        assert.equal(expectSuccess(memory.getHistory(id)).revisions.length, 3);
+
+        // The revert itself can be undone
+        expectSuccess(memory.revert(id, 2));
+        assert.equal(memory.getAllNodes().get(id)!.text, 'Coffee');
+    });
+
+    it('drops associations to memories deleted since the reverted revision', () => {
+        const memory = new LongTermMemory();
+        const other = expectSuccess(memory.add('Water'));
+        const id = expectSuccess(memory.add('Tea', [other]));
+        expectSuccess(memory.update(id, 'Tea leaves'));
+        expectSuccess(memory.delete(other));
+
+        const result = expectSuccess(memory.revert(id, 1));
+
+        assert.deepEqual(result.droppedAssociations, [other]);
+        assert.deepEqual(memory.getAllNodes().get(id)!.associations, []);
+    });
+
+    it('refuses to revert to the current or an unknown revision', () => {
+        const memory = new LongTermMemory();
+        const id = expectSuccess(memory.add('Tea'));
+
+        assert.equal(memory.revert(id, 1).success, false);
+        assert.equal(memory.revert(id, 7).success, false);
+    });
+
+    it('keeps at most historyLimit earlier versions', () => {
+        const memory = new LongTermMemory(3, 2);
+        const id = expectSuccess(memory.add('v1'));
+        for (const text of ['v2', 'v3', 'v4']) {
+            expectSuccess(memory.update(id, text));
+        }
+
+        const revisions = expectSuccess(memory.getHistory(id)).revisions;
+        assert.deepEqual(
+            revisions.map((revision) => revision.text),
+            ['v2', 'v3', 'v4']
+        );
+    });
+
+    it('keeps the history across a restart', async () => {
+        const config = mergeConfig({ storagePath: await tempDir(), watchStorage: false });
+        const space = new MemorySpace('default', config);
+        expectSuccess(await space.init());
+        const id = expectSuccess(space.addLongTermMemory('Tea'));
+        expectSuccess(await space.persist((memory) => memory.updateLongTermMemory(id, 'Green tea')));
+        expectSuccess(await space.shutdown());
+
+        const reopened = new MemorySpace('default', config);
+        expectSuccess(await reopened.init());
+        const revisions = expectSuccess(reopened.getMemoryHistory(id)).revisions;
+        assert.deepEqual(
+            revisions.map((revision) => revision.text),
+            ['Tea', 'Green tea']
+        );
+        expectSuccess(await reopened.shutdown());
+    });
+});
+
+describe('LongTermMemory duplicates', () => {
+    it('finds memories whose normalized text is nearly the same', () => {
+        const memory = new LongTermMemory();
+        const id = expectSuccess(memory.add('The meeting moved to Friday at 10am.'));
+        expectSuccess(memory.add('Lunch is at noon'));
+
+        const matches = memory.findSimilar('the meeting moved to friday at 10am', 0.85);
+
+        assert.deepEqual(
+            matches.map((match) => match.id),
+            [id]
+        );
+        assert.equal(matches[0].similarity, 1);
+        assert.deepEqual(memory.findSimilar('Lunch moved to Friday', 0.85), []);
+    });
+
+    it('groups duplicates across the whole graph', () => {
+        const memory = new LongTermMemory();
+        const a = expectSuccess(memory.add('Alice prefers green tea'));
+        const b = expectSuccess(memory.add('alice prefers green tea!'));
+        expectSuccess(memory.add('Bob prefers coffee'));
+
+        const groups = memory.findDuplicates(0.85);
+
+        assert.equal(groups.length, 1);
+        assert.deepEqual(groups[0].memories.map((match) => match.id).sort(), [a, b].sort());
+    });
+
+    it('adds a near-duplicate and reports the existing memory unless refusal is asked for', async () => {
+        const config = mergeConfig({ storagePath: await tempDir(), watchStorage: false });
+        const space = new MemorySpace('default', config);
+        expectSuccess(await space.init());
+        const id = expectSuccess(space.addLongTermMemory('Alice prefers green tea'));
+
+        const added = space.addLongTermMemory('alice prefers green tea.');
+        assert.equal(added.success, true);
+        const { duplicates } = added.details as { duplicates: DuplicateMatch[] };
+        assert.deepEqual(
+            duplicates.map((match) => match.id),
+            [id]
+        );
+
+        const refused = space.addLongTermMemory('Alice prefers green tea', [], { rejectDuplicate: true });
+        assert.equal(refused.success, false);
+        assert.equal(expectSuccess(space.getStats()).longTermCount, 2);
+        expectSuccess(await space.shutdown());
+    });
+});
+
+describe('LongTermMemory.merge', () => {
+    it('combines tags, properties, associations and access counts into the first memory', () => {
+        const memory = new LongTermMemory();
+        const water = expectSuccess(memory.add('Water'));
+        const cup = expectSuccess(memory.add('Cup'));
+        const a = expectSuccess(memory.add('Alice likes tea', [water], { tags: ['alice'], properties: { mood: 'calm' } }));
+        const b = expectSuccess(
+            memory.add('alice likes tea', [cup, a], { tags: ['tea'], properties: { mood: 'happy', cups: 2 } })
+        );
+        const nodes = memory.getAllNodes();
+        nodes.get(a)!.metadata.accessCount = 2;
+        nodes.get(b)!.metadata.accessCount = 5;
+
+        const result = expectSuccess(memory.merge([a, b], { author: 'alice' }));
+
+        assert.equal(result.id, a);
+        assert.deepEqual(result.merged, [b]);
+        assert.equal(memory.getAllNodes().has(b), false);
+        const merged = memory.getAllNodes().get(a)!;
+        assert.deepEqual(merged.tags?.sort(), ['alice', 'tea']);
+        assert.deepEqual(merged.properties, { mood: 'calm', cups: 2 });
+        assert.deepEqual(merged.associations.sort(), [water, cup].sort());
+        assert.equal(merged.metadata.accessCount, 7);
+        assert.equal(expectSuccess(memory.getHistory(a)).revisions.at(-1)!.author, 'alice');
+    });
+
+    it('moves links to the merged memories over to the kept one', () => {
+        const memory = new LongTermMemory();
+        const a = expectSuccess(memory.add('Alice likes tea'));
+        const b = expectSuccess(memory.add('Alice enjoys tea'));
+        const linker = expectSuccess(memory.add('Tea party plan', [b]));
+
+        const result = expectSuccess(memory.merge([a, b]));
+
+        assert.equal(result.rewired, 1);
+        assert.deepEqual(memory.getAllNodes().get(linker)!.associations, [a]);
+        assert.deepEqual(expectSuccess(memory.getEdges(a, 'incoming')).map((edge) => edge.source), [linker]);
+    });
+
+    it('needs at least two existing memories', () => {
+        const memory = new LongTermMemory();
+        const a = expectSuccess(memory.add('Alice likes tea'));
+
+        assert.equal(memory.merge([a, a]).success, false);
+        assert.equal(memory.merge([a, 'missing']).success, false);
+        assert.equal(memory.getCount(), 1);
+    });
+});
@@ -0,0 +1,108 @@
+/**
+ * Markdown vault storage: loading hand-written notes, wiki-links and writing notes back
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MarkdownVaultStorage } from '../src/markdown-storage.js';
+import { MemoryGraph } from '../src/types.js';
+import { expectSuccess, makeNode, tempDir } from './helpers.js';
+
+async function openVault(dir: string): Promise<{ storage: MarkdownVaultStorage; graph: MemoryGraph }> {
+    const storage = new MarkdownVaultStorage(dir);
+    expectSuccess(await storage.init());
+    const graph = expectSuccess(await storage.load());
+    return { storage, graph };
+}
+
+function byText(graph: MemoryGraph, prefix: string) {
+    return Object.values(graph.memories).find((node) => node.text.startsWith(prefix))!;
+}
+
+describe('MarkdownVaultStorage', () => {
+    it('round-trips memories through notes', async () => {
+        const dir = await tempDir();
+        const { storage } = await openVault(dir);
+        const a = makeNode('a', 'Tea is brewed at 80°C', ['b']);
+        a.tags = ['tea'];
+        a.properties = { rating: 4 };
+        const b = makeNode('b', 'Water boils at 100°C');
+        expectSuccess(await storage.save({ memories: { a, b } }));
+        await storage.cleanup();
+
+        const { storage: reopened, graph } = await openVault(dir);
+        assert.deepEqual(Object.keys(graph.memories).sort(), ['a', 'b']);
+        assert.equal(graph.memories.a.text, 'Tea is brewed at 80°C');
+        assert.deepEqual(graph.memories.a.tags, ['tea']);
+        assert.deepEqual(graph.memories.a.properties, { rating: 4 });
+        assert.deepEqual(graph.memories.a.associations, ['b']);
+        await reopened.cleanup();
+    });
+
+    it('resolves wiki-links by note name and leaves hand-written notes untouched on load', async () => {
+        const dir = await tempDir();
+        const tea = 'Tea needs [[Water]] and time.\n';
+        await fs.writeFile(path.join(dir, 'Tea.md'), tea);
+        await fs.writeFile(path.join(dir, 'Water.md'), 'Water boils at 100°C.\n');
+
+        const { storage, graph } = await openVault(dir);
+        const water = byText(graph, 'Water');
+        assert.deepEqual(byText(graph, 'Tea').associations, [water.id]);
+        assert.equal(await fs.readFile(path.join(dir, 'Tea.md'), 'utf-8'), tea);
+
+        // Saving unchanged memories writes no notes either
+        expectSuccess(await storage.save(graph));
+        assert.equal(await fs.readFile(path.join(dir, 'Tea.md'), 'utf-8'), tea);
+        await storage.cleanup();
+    });
+
+    it('keeps the IDs of notes without front matter across restarts', async () => {
+        const dir = await tempDir();
+        await fs.writeFile(path.join(dir, 'Tea.md'), 'Tea is brewed at 80°C.\n');
+
+        const { storage, graph } = await openVault(dir);
+        const id = byText(graph, 'Tea').id;
+        await storage.cleanup();
+
+        const { storage: reopened, graph: again } = await openVault(dir);
+        assert.deepEqual(Object.keys(again.memories), [id]);
+        await reopened.cleanup();
+    });
+
+    it('writes a hand-written note back with its ID once its memory changes', async () => {
+        const dir = await tempDir();
+        await fs.writeFile(path.join(dir, 'Tea.md'), 'Tea is brewed at 80°C.\n');
+
+        const { storage, graph } = await openVault(dir);
+        const tea = byText(graph, 'Tea');
+        tea.text = 'Green tea is brewed at 80°C.';
+        expectSuccess(await storage.save(graph));
+        await storage.cleanup();
+
+        const content = await fs.readFile(path.join(dir, 'Tea.md'), 'utf-8');
+        assert.match(content, new RegExp(`id: "?${tea.id}"?`));
+        const { storage: reopened, graph: again } = await openVault(dir);
+        assert.equal(again.memories[tea.id].text, 'Green tea is brewed at 80°C.');
+        await reopened.cleanup();
+    });
+
+    it('skips notes with invalid front matter and loads the rest', async () => {
+        const dir = await tempDir();
+        const broken = '---\nid: a\nmetadata:\n  accessCount: -1\n---\n\nBroken\n';
+        await fs.writeFile(path.join(dir, 'Broken.md'), broken);
+        await fs.writeFile(path.join(dir, 'Tea.md'), 'Tea is brewed at 80°C.\n');
+
+        const { storage, graph } = await openVault(dir);
+        assert.deepEqual(
+            Object.values(graph.memories).map((node) => node.text),
+            ['Tea is brewed at 80°C.']
+        );
+
+        // A skipped note is not mistaken for a deleted memory
+        expectSuccess(await storage.save(graph));
+        assert.equal(await fs.readFile(path.join(dir, 'Broken.md'), 'utf-8'), broken);
+        await storage.cleanup();
+    });
+});
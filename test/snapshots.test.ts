@@ -0,0 +1,171 @@
+/**
+ * Snapshots: retention, diffs against the current memories and restoring
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SnapshotStore } from '../src/snapshots.js';
+import { MemorySpace } from '../src/memory-space.js';
+import { mergeConfig } from '../src/config.js';
+import { MemoryGraph, SnapshotInfo } from '../src/types.js';
+import { expectSuccess, makeNode, tempDir } from './helpers.js';
+
+function graphOf(...nodes: ReturnType<typeof makeNode>[]): MemoryGraph {
+    return { memories: Object.fromEntries(nodes.map((node) => [node.id, node])) };
+}
+
+async function snapshotFiles(dir: string): Promise<string[]> {
+    return (await fs.readdir(dir)).filter((file) => file.endsWith('.brain')).sort();
+}
+
+async function openSpace(): Promise<MemorySpace> {
+    const space = new MemorySpace('default', mergeConfig({ storagePath: await tempDir(), watchStorage: false }));
+    expectSuccess(await space.init());
+    return space;
+}
+
+function textOf(space: MemorySpace, id: string): string {
+    return expectSuccess(space.getLongTermMemory(id)).node.text;
+}
+
+describe('SnapshotStore', () => {
+    it('stores a graph and lists snapshots newest first', async () => {
+        const dir = await tempDir();
+        const store = new SnapshotStore(dir, { count: 10, maxAge: 0 });
+
+        const first = expectSuccess(await store.create(graphOf(makeNode('a', 'first')), 'manual', 'before'));
+        const second = expectSuccess(await store.create(graphOf(makeNode('a', 'first'), makeNode('b', 'second')), 'auto'));
+
+        assert.equal(first.label, 'before');
+        assert.equal(second.memoryCount, 2);
+        assert.deepEqual(
+            expectSuccess(await store.list()).map((entry) => entry.id),
+            [second.id, first.id]
+        );
+        assert.equal(expectSuccess(await store.read(first.id)).memories.a.text, 'first');
+        assert.equal((await store.read('../memory')).success, false);
+    });
+
+    it('keeps at most the configured number of snapshots', async () => {
+        const dir = await tempDir();
+        const store = new SnapshotStore(dir, { count: 2, maxAge: 0 });
+
+        const ids: string[] = [];
+        for (const text of ['one', 'two', 'three']) {
+            ids.push(expectSuccess(await store.create(graphOf(makeNode('a', text)), 'auto')).id);
+        }
+
+        assert.deepEqual(
+            expectSuccess(await store.list()).map((entry) => entry.id),
+            [ids[2], ids[1]]
+        );
+        assert.deepEqual(await snapshotFiles(dir), [`${ids[1]}.brain`, `${ids[2]}.brain`].sort());
+    });
+
+    it('removes snapshots older than the maximum age but always keeps the newest', async () => {
+        const dir = await tempDir();
+        const day = 24 * 60 * 60 * 1000;
+        const store = new SnapshotStore(dir, { count: 10, maxAge: day });
+        const old = expectSuccess(await store.create(graphOf(makeNode('a', 'old')), 'auto'));
+
+        // Age the snapshot by two days
+        const indexPath = path.join(dir, 'index.json');
+        const index = JSON.parse(await fs.readFile(indexPath, 'utf-8')) as SnapshotInfo[];
+        index[0].createdAt = new Date(Date.now() - 2 * day).toISOString();
+        await fs.writeFile(indexPath, JSON.stringify(index));
+        assert.equal(expectSuccess(await store.list()).length, 1);
+
+        const recent = expectSuccess(await store.create(graphOf(makeNode('a', 'recent')), 'auto'));
+
+        assert.deepEqual(
+            expectSuccess(await store.list()).map((entry) => entry.id),
+            [recent.id]
+        );
+        assert.equal((await store.read(old.id)).success, false);
+    });
+});
+
+describe('MemorySpace snapshots', () => {
+    it('reports memories added, removed and changed since a snapshot', async () => {
+        const space = await openSpace();
+        const tea = expectSuccess(space.addLongTermMemory('Tea'));
+        const water = expectSuccess(space.addLongTermMemory('Water'));
+        const snapshot = expectSuccess(await space.createSnapshot('before'));
+
+        expectSuccess(space.updateLongTermMemory(tea, 'Green tea'));
+        expectSuccess(space.deleteLongTermMemory(water));
+        const coffee = expectSuccess(space.addLongTermMemory('Coffee'));
+
+        const diff = expectSuccess(await space.diffSnapshot(snapshot.id));
+        assert.deepEqual(
+            diff.added.map((entry) => entry.id),
+            [coffee]
+        );
+        assert.deepEqual(
+            diff.removed.map((entry) => entry.id),
+            [water]
+        );
+        assert.deepEqual(
+            diff.changed.map((entry) => [entry.id, entry.fields]),
+            [[tea, ['text']]]
+        );
+        expectSuccess(await space.shutdown());
+    });
+
+    it('restores the whole graph from a snapshot', async () => {
+        const space = await openSpace();
+        const tea = expectSuccess(space.addLongTermMemory('Tea'));
+        const snapshot = expectSuccess(await space.createSnapshot());
+        expectSuccess(space.updateLongTermMemory(tea, 'Green tea'));
+        expectSuccess(space.addLongTermMemory('Coffee'));
+
+        const report = expectSuccess(await space.restoreMemory(snapshot.id));
+
+        assert.equal(report.restored, 1);
+        assert.equal(report.removed, 1);
+        assert.equal(expectSuccess(space.getStats()).longTermCount, 1);
+        assert.equal(textOf(space, tea), 'Tea');
+        const safety = expectSuccess(await space.listSnapshots()).find((entry) => entry.id === report.safetySnapshot)!;
+        assert.equal(safety.reason, 'pre-restore');
+        expectSuccess(await space.shutdown());
+    });
+
+    it('restores only the requested memories and leaves the rest', async () => {
+        const space = await openSpace();
+        const tea = expectSuccess(space.addLongTermMemory('Tea'));
+        const water = expectSuccess(space.addLongTermMemory('Water'));
+        const snapshot = expectSuccess(await space.createSnapshot());
+        expectSuccess(space.updateLongTermMemory(tea, 'Green tea'));
+        expectSuccess(space.updateLongTermMemory(water, 'Sparkling water'));
+        const coffee = expectSuccess(space.addLongTermMemory('Coffee'));
+
+        const report = expectSuccess(await space.restoreMemory(snapshot.id, [tea, 'missing']));
+
+        assert.equal(report.restored, 1);
+        assert.equal(report.removed, 0);
+        assert.deepEqual(report.notFound, ['missing']);
+        assert.equal(textOf(space, tea), 'Tea');
+        assert.equal(textOf(space, water), 'Sparkling water');
+        assert.equal(textOf(space, coffee), 'Coffee');
+        expectSuccess(await space.shutdown());
+    });
+
+    it('undoes a restore from its safety snapshot', async () => {
+        const space = await openSpace();
+        const tea = expectSuccess(space.addLongTermMemory('Tea'));
+        const snapshot = expectSuccess(await space.createSnapshot());
+        expectSuccess(space.updateLongTermMemory(tea, 'Green tea'));
+        const coffee = expectSuccess(space.addLongTermMemory('Coffee'));
+
+        const report = expectSuccess(await space.restoreMemory(snapshot.id));
+        expectSuccess(await space.restoreMemory(report.safetySnapshot));
+
+        assert.equal(textOf(space, tea), 'Green tea');
+        assert.equal(textOf(space, coffee), 'Coffee');
+        const diff = expectSuccess(await space.diffSnapshot(report.safetySnapshot));
+        assert.deepEqual([diff.added, diff.removed, diff.changed], [[], [], []]);
+        expectSuccess(await space.shutdown());
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * SQLite storage: incremental writes, importing memory.brain and schema upgrades
+ * Skipped when the optional better-sqlite3 package is not installed
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SqliteStorage } from '../src/sqlite-storage.js';
+import { StorageManager } from '../src/storage.js';
+import { STORAGE_FILES } from '../src/config.js';
+import { MemoryGraph } from '../src/types.js';
+import { expectSuccess, makeNode, tempDir } from './helpers.js';
+
+const sqlite = await import('better-sqlite3').then(
+    (module) => module.default,
+    () => undefined
+);
+
+async function openDatabase(dir: string, legacy?: StorageManager): Promise<SqliteStorage> {
+    const storage = new SqliteStorage(dir, legacy);
+    expectSuccess(await storage.init());
+    return storage;
+}
+
+function graphOf(...nodes: ReturnType<typeof makeNode>[]): MemoryGraph {
+    return { memories: Object.fromEntries(nodes.map((node) => [node.id, node])) };
+}
+
+describe('SqliteStorage', { skip: !sqlite && 'better-sqlite3 is not installed' }, () => {
+    it('writes only the changed memories', async () => {
+        const dir = await tempDir();
+        const storage = await openDatabase(dir);
+        expectSuccess(await storage.load());
+
+        const a = makeNode('a', 'first');
+        const b = makeNode('b', 'second', ['a']);
+        expectSuccess(await storage.save(graphOf(a, b)));
+
+        // Only c is listed as changed, so the edited text of a is not written and b stays
+        const c = makeNode('c', 'third');
+        expectSuccess(await storage.save(graphOf({ ...a, text: 'edited' }, c), ['c']));
+        expectSuccess(await storage.save(graphOf(a, c), ['b']));
+        await storage.cleanup();
+
+        const reopened = await openDatabase(dir);
+        const graph = expectSuccess(await reopened.load());
+        assert.deepEqual(Object.keys(graph.memories).sort(), ['a', 'c']);
+        assert.equal(graph.memories.a.text, 'first');
+        await reopened.cleanup();
+    });
+
+    it('keeps associations, edges and history', async () => {
+        const dir = await tempDir();
+        const storage = await openDatabase(dir);
+        expectSuccess(await storage.load());
+
+        const a = makeNode('a', 'first', ['b']);
+        a.edges!.b = { relation: 'causes', weight: 0.5, createdAt: a.metadata.createdAt };
+        a.history = [{ revision: 1, text: 'draft', associations: [], savedAt: a.metadata.createdAt }];
+        expectSuccess(await storage.save(graphOf(a, makeNode('b', 'second'))));
+        await storage.cleanup();
+
+        const reopened = await openDatabase(dir);
+        const graph = expectSuccess(await reopened.load());
+        assert.deepEqual(graph.memories.a.associations, ['b']);
+        assert.equal(graph.memories.a.edges!.b.relation, 'causes');
+        assert.equal(graph.memories.a.history![0].text, 'draft');
+        await reopened.cleanup();
+    });
+
+    it('imports memory.brain and its vectors into a new database once', async () => {
+        const dir = await tempDir();
+        const legacy = new StorageManager(dir, true, 1024 * 1024, 0);
+        expectSuccess(await legacy.init());
+        expectSuccess(await legacy.load());
+        expectSuccess(await legacy.save(graphOf(makeNode('a', 'first'), makeNode('b', 'second', ['a']))));
+        expectSuccess(
+            await legacy.saveVectors({ provider: 'test', dimensions: 2, vectors: { a: { hash: 'h', vector: [1, 0] } } })
+        );
+        await legacy.cleanup();
+
+        const storage = await openDatabase(dir, new StorageManager(dir, true, 1024 * 1024, 0));
+        const graph = expectSuccess(await storage.load());
+        assert.deepEqual(Object.keys(graph.memories).sort(), ['a', 'b']);
+        assert.deepEqual(graph.memories.b.associations, ['a']);
+        assert.deepEqual(expectSuccess(await storage.loadVectors())!.vectors.a.vector, [1, 0]);
+
+        // Memories deleted after the import do not come back from the file left in place
+        expectSuccess(await storage.save(graphOf(makeNode('a', 'first'))));
+        await storage.cleanup();
+        await fs.access(path.join(dir, STORAGE_FILES.memory));
+
+        const reopened = await openDatabase(dir, new StorageManager(dir, true, 1024 * 1024, 0));
+        assert.deepEqual(Object.keys(expectSuccess(await reopened.load()).memories), ['a']);
+        await reopened.cleanup();
+    });
+
+    it('upgrades a version 1 database and drops its full-text index', async () => {
+        const dir = await tempDir();
+        const db = new sqlite!(path.join(dir, STORAGE_FILES.database));
+        db.exec(`
+            CREATE TABLE memories (
+                id TEXT PRIMARY KEY,
+                text TEXT NOT NULL,
+                tags TEXT NOT NULL,
+                properties TEXT NOT NULL,
+                metadata TEXT NOT NULL,
+                created_at TEXT NOT NULL
+            );
+            CREATE VIRTUAL TABLE memories_fts USING fts5(text, content='memories', content_rowid='rowid');
+            CREATE TRIGGER memories_fts_insert AFTER INSERT ON memories BEGIN
+                INSERT INTO memories_fts(rowid, text) VALUES (new.rowid, new.text);
+            END;
+            INSERT INTO memories VALUES ('a', 'first', '[]', '{}', '{"createdAt":"2024-01-01T00:00:00.000Z"}', '2024-01-01T00:00:00.000Z');
+        `);
+        db.pragma('user_version = 1');
+        db.close();
+
+        const storage = await openDatabase(dir);
+        const graph = expectSuccess(await storage.load());
+        assert.equal(graph.memories.a.text, 'first');
+        expectSuccess(await storage.save(graphOf(makeNode('b', 'second')), ['b']));
+        await storage.cleanup();
+
+        const upgraded = new sqlite!(path.join(dir, STORAGE_FILES.database), { readonly: true });
+        const names = upgraded
+            .prepare("SELECT name FROM sqlite_master WHERE name LIKE 'memories_fts%'")
+            .pluck()
+            .all();
+        assert.deepEqual(names, []);
+        assert.equal(upgraded.pragma('user_version', { simple: true }), 3);
+        upgraded.close();
+    });
+});
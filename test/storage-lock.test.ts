@@ -0,0 +1,157 @@
+/**
+ * File storage shared between processes: the storage lock and merging changes
+ * stored by another writer
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { StorageChange, StorageManager } from '../src/storage.js';
+import { STORAGE_FILES } from '../src/config.js';
+import { MemoryGraph } from '../src/types.js';
+import { expectSuccess, makeNode, tempDir } from './helpers.js';
+
+async function openStorage(dir: string): Promise<StorageManager> {
+    const storage = new StorageManager(dir, true, 1024 * 1024, 0);
+    expectSuccess(await storage.init());
+    expectSuccess(await storage.load());
+    return storage;
+}
+
+async function writeLock(dir: string, pid: number, host: string = os.hostname()): Promise<string> {
+    const lockPath = path.join(dir, STORAGE_FILES.lock);
+    await fs.writeFile(
+        lockPath,
+        JSON.stringify({ pid, host, token: 'other', acquiredAt: new Date().toISOString() })
+    );
+    return lockPath;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+    return fs.access(filePath).then(
+        () => true,
+        () => false
+    );
+}
+
+const graph: MemoryGraph = { memories: { a: makeNode('a', 'first') } };
+
+describe('StorageManager lock', () => {
+    it('removes its lock after writing', async () => {
+        const dir = await tempDir();
+        const storage = await openStorage(dir);
+
+        expectSuccess(await storage.save(graph));
+
+        assert.equal(await exists(path.join(dir, STORAGE_FILES.lock)), false);
+        await storage.cleanup();
+    });
+
+    it('refuses to write while a running process holds the lock', async () => {
+        const dir = await tempDir();
+        const storage = await openStorage(dir);
+        const lockPath = await writeLock(dir, process.ppid);
+
+        const result = await storage.save(graph);
+
+        assert.equal(result.success, false);
+        assert.match(result.success ? '' : result.error, new RegExp(`locked by process ${process.ppid}`));
+        assert.equal(await exists(path.join(dir, STORAGE_FILES.memory)), false);
+        assert.equal(JSON.parse(await fs.readFile(lockPath, 'utf-8')).token, 'other');
+        await storage.cleanup();
+    });
+
+    it('refuses a fresh lock held on another host', async () => {
+        const dir = await tempDir();
+        const storage = await openStorage(dir);
+        await writeLock(dir, 1, 'some-other-host');
+
+        assert.equal((await storage.save(graph)).success, false);
+        await storage.cleanup();
+    });
+
+    it('takes over the lock of a process that no longer exists', async () => {
+        const dir = await tempDir();
+        const storage = await openStorage(dir);
+        const exited = spawnSync(process.execPath, ['-e', '']).pid;
+        const lockPath = await writeLock(dir, exited);
+
+        expectSuccess(await storage.save(graph));
+
+        assert.equal(await exists(lockPath), false);
+        assert.equal(await exists(path.join(dir, STORAGE_FILES.memory)), true);
+        await storage.cleanup();
+    });
+
+    it('takes over a lock whose heartbeat stopped', async () => {
+        const dir = await tempDir();
+        const storage = await openStorage(dir);
+        const lockPath = await writeLock(dir, 1, 'some-other-host');
+        const longAgo = new Date(Date.now() - 60 * 1000);
+        await fs.utimes(lockPath, longAgo, longAgo);
+
+        expectSuccess(await storage.save(graph));
+
+        assert.equal(await exists(lockPath), false);
+        await storage.cleanup();
+    });
+});
+
+describe('StorageManager with two writers', () => {
+    it('merges memories the other writer stored before writing its own', async () => {
+        const dir = await tempDir();
+        const first = await openStorage(dir);
+        expectSuccess(await first.save(graph));
+        const second = await openStorage(dir);
+
+        const changes: StorageChange[] = [];
+        second.watch((change) => changes.push(change), false);
+
+        const b = makeNode('b', 'from the first writer');
+        expectSuccess(await first.save({ memories: { ...graph.memories, b } }, ['b']));
+
+        const c = makeNode('c', 'from the second writer');
+        expectSuccess(await second.save({ memories: { ...graph.memories, c } }, ['c']));
+
+        assert.equal(changes.length, 1);
+        assert.deepEqual(
+            changes[0].upserted.map((node) => node.id),
+            ['b']
+        );
+        assert.equal(changes[0].stored, true);
+
+        await first.cleanup();
+        await second.cleanup();
+
+        const reopened = await openStorage(dir);
+        const loaded = expectSuccess(await reopened.load());
+        assert.deepEqual(Object.keys(loaded.memories).sort(), ['a', 'b', 'c']);
+        await reopened.cleanup();
+    });
+
+    it('reloads everything after the other writer compacted the journal', async () => {
+        const dir = await tempDir();
+        const first = await openStorage(dir);
+        expectSuccess(await first.save(graph));
+        const second = await openStorage(dir);
+
+        const changes: StorageChange[] = [];
+        second.watch((change) => changes.push(change), false);
+
+        const b = makeNode('b', 'from the first writer');
+        expectSuccess(await first.save({ memories: { ...graph.memories, b } }, ['b']));
+        expectSuccess(await first.compact({ memories: { ...graph.memories, b } }));
+
+        expectSuccess(await second.save(graph, []));
+
+        assert.equal(changes.length, 1);
+        assert.equal(changes[0].complete, true);
+        assert.deepEqual(changes[0].upserted.map((node) => node.id).sort(), ['a', 'b']);
+
+        await first.cleanup();
+        await second.cleanup();
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * File storage: journal appends, replay on load and compaction into memory.brain
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { StorageManager } from '../src/storage.js';
+import { STORAGE_FILES } from '../src/config.js';
+import { MemoryGraph } from '../src/types.js';
+import { expectSuccess, makeNode, tempDir } from './helpers.js';
+
+async function openStorage(dir: string, journalMaxSize: number = 1024 * 1024): Promise<StorageManager> {
+    const storage = new StorageManager(dir, true, journalMaxSize, 0);
+    expectSuccess(await storage.init());
+    return storage;
+}
+
+function graphOf(...nodes: ReturnType<typeof makeNode>[]): MemoryGraph {
+    return { memories: Object.fromEntries(nodes.map((node) => [node.id, node])) };
+}
+
+async function readSnapshot(dir: string): Promise<MemoryGraph & { journalSeq?: number }> {
+    return JSON.parse(await fs.readFile(path.join(dir, STORAGE_FILES.memory), 'utf-8'));
+}
+
+async function exists(filePath: string): Promise<boolean> {
+    return fs.access(filePath).then(
+        () => true,
+        () => false
+    );
+}
+
+describe('StorageManager', () => {
+    it('writes a full snapshot when no changed IDs are given', async () => {
+        const dir = await tempDir();
+        const storage = await openStorage(dir);
+        expectSuccess(await storage.load());
+
+        expectSuccess(await storage.save(graphOf(makeNode('a', 'first'))));
+
+        const snapshot = await readSnapshot(dir);
+        assert.deepEqual(Object.keys(snapshot.memories), ['a']);
+        assert.equal(await exists(path.join(dir, STORAGE_FILES.journal)), false);
+        await storage.cleanup();
+    });
+
+    it('appends changed memories to the journal and replays them on load', async () => {
+        const dir = await tempDir();
+        const storage = await openStorage(dir);
+        expectSuccess(await storage.load());
+
+        const a = makeNode('a', 'first');
+        const b = makeNode('b', 'second', ['a']);
+        expectSuccess(await storage.save(graphOf(a)));
+        expectSuccess(await storage.save(graphOf(a, b), ['b']));
+        expectSuccess(await storage.save(graphOf(b), ['a']));
+        await storage.cleanup();
+
+        // The snapshot still holds the first save; the rest is only in the journal
+        assert.deepEqual(Object.keys((await readSnapshot(dir)).memories), ['a']);
+        const journal = await fs.readFile(path.join(dir, STORAGE_FILES.journal), 'utf-8');
+        assert.equal(journal.trim().split('\n').length, 2);
+
+        const reopened = await openStorage(dir);
+        const graph = expectSuccess(await reopened.load());
+        assert.deepEqual(Object.keys(graph.memories), ['b']);
+        assert.deepEqual(graph.memories.b.associations, ['a']);
+        await reopened.cleanup();
+    });
+
+    it('ignores a journal line torn by a crash', async () => {
+        const dir = await tempDir();
+        const storage = await openStorage(dir);
+        expectSuccess(await storage.load());
+
+        const a = makeNode('a', 'first');
+        expectSuccess(await storage.save(graphOf(a)));
+        expectSuccess(await storage.save(graphOf(a, makeNode('b', 'second')), ['b']));
+        await storage.cleanup();
+
+        await fs.appendFile(path.join(dir, STORAGE_FILES.journal), '{"seq":2,"put":[{"id":"c"');
+
+        const reopened = await openStorage(dir);
+        const graph = expectSuccess(await reopened.load());
+        assert.deepEqual(Object.keys(graph.memories).sort(), ['a', 'b']);
+
+        // The next write repairs the journal before appending to it
+        expectSuccess(await reopened.save(graphOf(a, makeNode('b', 'second'), makeNode('d', 'third')), ['d']));
+        await reopened.cleanup();
+
+        const again = await openStorage(dir);
+        assert.deepEqual(Object.keys(expectSuccess(await again.load()).memories).sort(), ['a', 'b', 'd']);
+        await again.cleanup();
+    });
+
+    it('folds the journal into memory.brain on compaction', async () => {
+        const dir = await tempDir();
+        const storage = await openStorage(dir);
+        expectSuccess(await storage.load());
+
+        const a = makeNode('a', 'first');
+        const b = makeNode('b', 'second');
+        expectSuccess(await storage.save(graphOf(a)));
+        expectSuccess(await storage.save(graphOf(a, b), ['b']));
+        expectSuccess(await storage.compact(graphOf(a, b)));
+        await storage.cleanup();
+
+        const snapshot = await readSnapshot(dir);
+        assert.deepEqual(Object.keys(snapshot.memories).sort(), ['a', 'b']);
+        assert.equal(snapshot.journalSeq, 1);
+        assert.equal(await exists(path.join(dir, STORAGE_FILES.journal)), false);
+    });
+
+    it('skips journal entries already contained in the snapshot', async () => {
+        const dir = await tempDir();
+        const journalPath = path.join(dir, STORAGE_FILES.journal);
+        const storage = await openStorage(dir);
+        expectSuccess(await storage.load());
+
+        const a = makeNode('a', 'first');
+        expectSuccess(await storage.save(graphOf(a)));
+        expectSuccess(await storage.save(graphOf(a, makeNode('b', 'old text')), ['b']));
+        const journal = await fs.readFile(journalPath, 'utf-8');
+        expectSuccess(await storage.compact(graphOf(a, makeNode('b', 'new text'))));
+        await storage.cleanup();
+
+        // A crash between writing the snapshot and removing the journal leaves it behind
+        await fs.writeFile(journalPath, journal);
+
+        const reopened = await openStorage(dir);
+        const graph = expectSuccess(await reopened.load());
+        assert.equal(graph.memories.b.text, 'new text');
+        await reopened.cleanup();
+    });
+
+    it('writes a snapshot instead of appending once the journal outgrows its limit', async () => {
+        const dir = await tempDir();
+        const storage = await openStorage(dir, 1);
+        expectSuccess(await storage.load());
+
+        const a = makeNode('a', 'first');
+        const b = makeNode('b', 'second');
+        expectSuccess(await storage.save(graphOf(a)));
+        expectSuccess(await storage.save(graphOf(a, b), ['b']));
+        assert.equal(await exists(path.join(dir, STORAGE_FILES.journal)), true);
+
+        expectSuccess(await storage.save(graphOf(a, b, makeNode('c', 'third')), ['c']));
+        await storage.cleanup();
+
+        assert.equal(await exists(path.join(dir, STORAGE_FILES.journal)), false);
+        assert.deepEqual(Object.keys((await readSnapshot(dir)).memories).sort(), ['a', 'b', 'c']);
+    });
+
+    it('recovers from the backup when memory.brain is damaged', async () => {
+        const dir = await tempDir();
+        const storage = await openStorage(dir);
+        expectSuccess(await storage.load());
+
+        expectSuccess(await storage.save(graphOf(makeNode('a', 'first'))));
+        expectSuccess(await storage.save(graphOf(makeNode('a', 'first'), makeNode('b', 'second'))));
+        await storage.cleanup();
+
+        await fs.writeFile(path.join(dir, STORAGE_FILES.memory), '{"memories":');
+
+        const reopened = await openStorage(dir);
+        const graph = expectSuccess(await reopened.load());
+        assert.deepEqual(Object.keys(graph.memories), ['a']);
+        await reopened.cleanup();
+    });
+});
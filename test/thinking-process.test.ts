@@ -0,0 +1,54 @@
+/**
+ * Thinking process: storing a chain's conclusion and selected thoughts as memories
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { LongTermMemory } from '../src/long-term-memory.js';
+import { ThinkingProcess } from '../src/thinking-process.js';
+import { expectSuccess } from './helpers.js';
+
+function setup(): { memory: LongTermMemory; thinking: ThinkingProcess; chainId: string; thoughtIds: string[] } {
+    const memory = new LongTermMemory();
+    const thinking = new ThinkingProcess(memory);
+    const chainId = expectSuccess(thinking.startThoughtProcess('Pick a tea'));
+    const thoughtIds = [
+        expectSuccess(thinking.addThought(chainId, 'Green tea suits mornings', 'observation', undefined, 0.9)),
+        expectSuccess(thinking.addThought(chainId, 'Black tea is stronger', 'analysis', undefined, 0.4)),
+    ];
+    return { memory, thinking, chainId, thoughtIds };
+}
+
+describe('ThinkingProcess.completeThoughtProcess', () => {
+    it('stores the conclusion and confident thoughts linked to it', () => {
+        const { memory, thinking, chainId, thoughtIds } = setup();
+
+        const result = expectSuccess(thinking.completeThoughtProcess(chainId, 'Green tea', { minConfidence: 0.8 }));
+
+        assert.deepEqual(Object.keys(result.thoughtMemories), [thoughtIds[0]]);
+        assert.deepEqual(result.failures, []);
+        const conclusion = memory.getAllNodes().get(result.memoryId)!;
+        assert.equal(conclusion.properties?.thought_chain, chainId);
+        assert.deepEqual(conclusion.associations, [result.thoughtMemories[thoughtIds[0]]]);
+        assert.equal(conclusion.edges![result.thoughtMemories[thoughtIds[0]]].relation, 'derived-from');
+    });
+
+    it('rejects thoughts from another chain without storing anything', () => {
+        const { memory, thinking, chainId } = setup();
+        const otherChain = expectSuccess(thinking.startThoughtProcess('Pick a coffee'));
+        const foreign = expectSuccess(thinking.addThought(otherChain, 'Espresso is short', 'observation'));
+
+        const result = thinking.completeThoughtProcess(chainId, 'Green tea', { thoughtIds: [foreign] });
+
+        assert.equal(result.success, false);
+        assert.equal(memory.getCount(), 0);
+        assert.equal(expectSuccess(thinking.getCurrentThoughtChain(chainId)).chain.status, 'active');
+    });
+
+    it('refuses to complete a chain twice', () => {
+        const { thinking, chainId } = setup();
+        expectSuccess(thinking.completeThoughtProcess(chainId, 'Green tea'));
+
+        assert.equal(thinking.completeThoughtProcess(chainId, 'Black tea').success, false);
+    });
+});